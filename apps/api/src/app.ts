@@ -5,7 +5,14 @@ import pinoHttp from "pino-http";
 import { requestContext } from "./middleware/requestContext";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 import { accountAuthRouter } from "./routes/accountAuthRoute";
+import { apiKeyRouter } from "./routes/apiKeyRoute";
 import { appUpdateRouter } from "./routes/appUpdateRoute";
+import { billingWebhookRouter } from "./routes/billingWebhookRoute";
+import { dictionaryRouter } from "./routes/dictionaryRoute";
+import { organizationRouter } from "./routes/organizationRoute";
+import { rewriteStyleRouter } from "./routes/rewriteStyleRoute";
+import { snippetRouter } from "./routes/snippetRoute";
+import { usageRouter } from "./routes/usageRoute";
 import { voiceToTextRouter } from "./routes/voiceToTextRoute";
 import { logger } from "./lib/logger";
 
@@ -15,6 +22,8 @@ export function createApp(): express.Express {
   app.disable("x-powered-by");
   app.use(helmet());
   app.use(cors());
+  // Webhook signatures cover the raw body, so it must not be parsed as JSON first.
+  app.use("/v1/webhooks", express.raw({ type: "*/*", limit: "1mb" }));
   app.use(express.json({ limit: "1mb" }));
   app.use(requestContext);
   app.use(
@@ -39,6 +48,13 @@ export function createApp(): express.Express {
   app.use(appUpdateRouter);
   app.use(accountAuthRouter);
   app.use(voiceToTextRouter);
+  app.use(usageRouter);
+  app.use(rewriteStyleRouter);
+  app.use(snippetRouter);
+  app.use(dictionaryRouter);
+  app.use(organizationRouter);
+  app.use(apiKeyRouter);
+  app.use(billingWebhookRouter);
   app.use(notFoundHandler);
   app.use(errorHandler);
 
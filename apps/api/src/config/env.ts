@@ -27,6 +27,13 @@ function parseEnvBoolean(value: string | undefined, fallback: boolean, name: str
   throw new Error(`Invalid API environment configuration: ${name} must be true/false/1/0/yes/no/on/off`);
 }
 
+function parseEnvList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0);
+}
+
 function trimToUndefined(value: string | undefined): string | undefined {
   if (value === undefined) {
     return undefined;
@@ -106,11 +113,41 @@ const envSchema = z
     ELEVENLABS_MODEL_ID: z.string().min(1).default("scribe_v2"),
     TRANSCRIPTION_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().default(20000),
     TRANSCRIPTION_MAX_FILE_BYTES: z.coerce.number().int().positive().default(25 * 1024 * 1024),
+    TRANSCRIPTION_JOB_CONCURRENCY: z.coerce.number().int().positive().default(2),
+    TRANSCRIPTION_JOB_MAX_QUEUED: z.coerce.number().int().positive().default(20),
+    TRANSCRIPTION_JOB_STT_TIMEOUT_MS: z.coerce.number().int().positive().default(600000),
+    TRANSCRIPTION_JOB_REWRITE_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+    TRANSCRIPTION_JOB_REWRITE_MAX_OUTPUT_TOKENS: z.coerce.number().int().positive().default(32000),
+    TRANSCRIPTION_JOB_CALLBACK_SECRET: optionalStringEnv,
+    TRANSCRIPTION_JOB_CALLBACK_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+    TRANSCRIPTION_JOB_CALLBACK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(3),
+    TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE: z.string().optional(),
+    SILENCE_DETECTION: z.string().optional(),
+    SILENCE_THRESHOLD_DBFS: z.coerce.number().max(0).default(-45),
+    SILENCE_MIN_SPEECH_MS: z.coerce.number().int().min(0).default(300),
+    RESPONSE_CACHE_DRIVER: z.enum(["memory", "none"]).default("memory"),
+    RESPONSE_CACHE_TTL_MS: z.coerce.number().int().min(0).default(10 * 60 * 1000),
+    RESPONSE_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(500),
+    PROVIDER_PRICING_FILE: optionalStringEnv,
+    DAILY_SPEND_CAP_USD: z.coerce.number().min(0).default(0),
+    ADMIN_API_KEY: optionalStringEnv,
+    BILLING_PROVIDER: z.enum(["none", "polar", "local"]).default("none"),
+    BILLING_WEBHOOK_SECRET: optionalStringEnv,
+    BILLING_WEBHOOK_TOLERANCE_SECONDS: z.coerce.number().int().positive().default(300),
+    POLAR_ACCESS_TOKEN: optionalStringEnv,
+    POLAR_API_BASE_URL: z.string().url().default("https://api.polar.sh"),
+    POLAR_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+    IDEMPOTENCY_KEY_TTL_MS: z.coerce.number().int().positive().default(24 * 60 * 60 * 1000),
 
     OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
     OPENAI_API_BASE_URL: z.string().url().default("https://api.openai.com/v1"),
     OPENAI_MODEL: z.string().default("gpt-5-mini"),
     OPENAI_REWRITE_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
+    OPENAI_TRANSCRIPTION_MODEL: z.string().min(1).default("gpt-4o-mini-transcribe"),
+    OPENAI_TRANSCRIPTION_BASE_URL: optionalUrlEnv,
+    STT_PROVIDER: z.enum(["elevenlabs", "openai"]).default("elevenlabs"),
+    STT_FALLBACK_PROVIDER: z.enum(["none", "elevenlabs", "openai"]).default("none"),
+    REWRITE_PROVIDER: z.enum(["openai_responses", "chat_completions", "passthrough"]).default("openai_responses"),
     MAC_APP_LATEST_VERSION: versionStringEnv.default("0.1.0"),
     MAC_APP_MINIMUM_SUPPORTED_VERSION: versionStringEnv.optional(),
     MAC_APP_DOWNLOAD_URL: optionalSecureHttpUrlEnv.default("https://www.presstospeak.com/"),
@@ -122,6 +159,12 @@ const envSchema = z
     BYOK_HEADER_MAX_CHARS: z.coerce.number().int().positive().default(512),
     UNAUTH_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
     UNAUTH_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(20),
+    USER_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
+    USER_RATE_LIMIT_FREE_MAX_REQUESTS: z.coerce.number().int().positive().default(60),
+    USER_RATE_LIMIT_PRO_MAX_REQUESTS: z.coerce.number().int().positive().default(300),
+    RATE_LIMIT_STORE: z.enum(["memory", "redis"]).default("memory"),
+    RATE_LIMIT_REDIS_URL: optionalUrlEnv,
+    RATE_LIMIT_REDIS_TIMEOUT_MS: z.coerce.number().int().positive().default(500),
     SUPABASE_URL: optionalUrlEnv,
     SUPABASE_PUBLISHABLE_KEY: optionalStringEnv,
     SUPABASE_JWT_SECRET: optionalStringEnv,
@@ -130,6 +173,25 @@ const envSchema = z
     SUPABASE_JWKS_URL: optionalUrlEnv,
     SUPABASE_JWKS_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
     SUPABASE_AUTH_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+    SUPABASE_AUTH_REDIRECT_URL: optionalUrlEnv,
+    SUPABASE_OAUTH_PROVIDERS: z.string().default("google,github"),
+    SESSION_CHECK_INTERVAL_MS: z.coerce.number().int().min(0).max(5_000).default(2_000),
+    SUPABASE_SERVICE_ROLE_KEY: optionalStringEnv,
+    SUPABASE_REST_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+    DATA_STORE_DRIVER: z.enum(["memory", "supabase"]).default("memory"),
+    USAGE_FLUSH_INTERVAL_MS: z.coerce.number().int().positive().default(2000),
+    USAGE_FLUSH_BATCH_SIZE: z.coerce.number().int().positive().default(50),
+    USAGE_FLUSH_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+    USAGE_BUFFER_MAX_EVENTS: z.coerce.number().int().positive().default(5000),
+    QUOTA_ENFORCEMENT: z.string().optional(),
+    QUOTA_FREE_DAILY_REQUESTS: z.coerce.number().int().min(0).default(100),
+    QUOTA_FREE_MONTHLY_REQUESTS: z.coerce.number().int().min(0).default(1000),
+    QUOTA_FREE_DAILY_AUDIO_SECONDS: z.coerce.number().int().min(0).default(30 * 60),
+    QUOTA_FREE_MONTHLY_AUDIO_SECONDS: z.coerce.number().int().min(0).default(5 * 60 * 60),
+    QUOTA_PRO_DAILY_REQUESTS: z.coerce.number().int().min(0).default(2000),
+    QUOTA_PRO_MONTHLY_REQUESTS: z.coerce.number().int().min(0).default(0),
+    QUOTA_PRO_DAILY_AUDIO_SECONDS: z.coerce.number().int().min(0).default(4 * 60 * 60),
+    QUOTA_PRO_MONTHLY_AUDIO_SECONDS: z.coerce.number().int().min(0).default(40 * 60 * 60),
     AUTH_ROUTE_RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
     AUTH_ROUTE_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(20)
   })
@@ -145,6 +207,43 @@ const envSchema = z
       }
     }
 
+    if (value.BILLING_PROVIDER !== "none" && !value.BILLING_WEBHOOK_SECRET) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["BILLING_WEBHOOK_SECRET"],
+        message: "BILLING_WEBHOOK_SECRET is required when BILLING_PROVIDER is set"
+      });
+    }
+
+    if (value.RATE_LIMIT_STORE === "redis") {
+      const redisUrl = trimToUndefined(value.RATE_LIMIT_REDIS_URL);
+      if (!redisUrl || !/^rediss?:\/\//i.test(redisUrl)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["RATE_LIMIT_REDIS_URL"],
+          message: "RATE_LIMIT_REDIS_URL (redis:// or rediss://) is required when RATE_LIMIT_STORE is redis"
+        });
+      }
+    }
+
+    if (value.DATA_STORE_DRIVER === "supabase") {
+      if (!trimToUndefined(value.SUPABASE_URL)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["SUPABASE_URL"],
+          message: "SUPABASE_URL is required when DATA_STORE_DRIVER is supabase"
+        });
+      }
+
+      if (!trimToUndefined(value.SUPABASE_SERVICE_ROLE_KEY)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["SUPABASE_SERVICE_ROLE_KEY"],
+          message: "SUPABASE_SERVICE_ROLE_KEY is required when DATA_STORE_DRIVER is supabase"
+        });
+      }
+    }
+
     if (value.USER_AUTH_MODE === "off") {
       return;
     }
@@ -214,10 +313,22 @@ export const env = {
     false,
     "ALLOW_UNAUTHENTICATED_BYOK"
   ),
+  QUOTA_ENFORCEMENT: parseEnvBoolean(parsedEnv.QUOTA_ENFORCEMENT, true, "QUOTA_ENFORCEMENT"),
+  SILENCE_DETECTION: parseEnvBoolean(parsedEnv.SILENCE_DETECTION, true, "SILENCE_DETECTION"),
+  TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE: parseEnvBoolean(
+    parsedEnv.TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE,
+    false,
+    "TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE"
+  ),
+  OPENAI_TRANSCRIPTION_BASE_URL: trimToUndefined(parsedEnv.OPENAI_TRANSCRIPTION_BASE_URL),
+  TRANSCRIPTION_JOB_CALLBACK_SECRET: trimToUndefined(parsedEnv.TRANSCRIPTION_JOB_CALLBACK_SECRET),
   SUPABASE_URL: supabaseUrl,
   SUPABASE_PUBLISHABLE_KEY: trimToUndefined(parsedEnv.SUPABASE_PUBLISHABLE_KEY),
+  SUPABASE_SERVICE_ROLE_KEY: trimToUndefined(parsedEnv.SUPABASE_SERVICE_ROLE_KEY),
   SUPABASE_JWT_SECRET: trimToUndefined(parsedEnv.SUPABASE_JWT_SECRET),
   SUPABASE_JWT_ISSUER: supabaseJwtIssuer,
+  SUPABASE_AUTH_REDIRECT_URL: trimToUndefined(parsedEnv.SUPABASE_AUTH_REDIRECT_URL),
+  SUPABASE_OAUTH_PROVIDERS: parseEnvList(parsedEnv.SUPABASE_OAUTH_PROVIDERS),
   SUPABASE_JWKS_URL: supabaseJwksUrl,
   LOG_PRETTY: parseEnvBoolean(parsedEnv.LOG_PRETTY, parsedEnv.NODE_ENV === "development", "LOG_PRETTY"),
   LOG_PIPELINE_TEXT: parseEnvBoolean(
@@ -0,0 +1,105 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import { env } from "./env";
+
+const sttModelPriceSchema = z.object({
+  usd_per_audio_minute: z.number().min(0)
+});
+
+const rewriteModelPriceSchema = z.object({
+  usd_per_million_input_tokens: z.number().min(0),
+  usd_per_million_output_tokens: z.number().min(0)
+});
+
+// Prices are keyed by provider, then model id; `*` matches any model of that
+// provider without its own entry.
+const pricingSchema = z.object({
+  stt: z.record(z.record(sttModelPriceSchema)).default({}),
+  rewrite: z.record(z.record(rewriteModelPriceSchema)).default({})
+});
+
+export type ProviderPricing = z.infer<typeof pricingSchema>;
+export type SttModelPrice = z.infer<typeof sttModelPriceSchema>;
+export type RewriteModelPrice = z.infer<typeof rewriteModelPriceSchema>;
+
+const openAIRewritePrices: Record<string, RewriteModelPrice> = {
+  "gpt-5": { usd_per_million_input_tokens: 1.25, usd_per_million_output_tokens: 10 },
+  "gpt-5-mini": { usd_per_million_input_tokens: 0.25, usd_per_million_output_tokens: 2 },
+  "gpt-5-nano": { usd_per_million_input_tokens: 0.05, usd_per_million_output_tokens: 0.4 }
+};
+
+// Public list prices; deployments with negotiated rates override them with
+// PROVIDER_PRICING_FILE.
+const DEFAULT_PRICING: ProviderPricing = {
+  stt: {
+    elevenlabs: {
+      "*": { usd_per_audio_minute: 0.0067 }
+    },
+    openai: {
+      "whisper-1": { usd_per_audio_minute: 0.006 },
+      "gpt-4o-transcribe": { usd_per_audio_minute: 0.006 },
+      "gpt-4o-mini-transcribe": { usd_per_audio_minute: 0.003 }
+    }
+  },
+  rewrite: {
+    openai_responses: openAIRewritePrices,
+    // Chat Completions may point at a self-hosted gateway, so only OpenAI model
+    // names are priced by default.
+    chat_completions: openAIRewritePrices
+  }
+};
+
+export const providerPricing = loadProviderPricing();
+
+export function findSttModelPrice(provider: string, modelId: string): SttModelPrice | undefined {
+  const prices = providerPricing.stt[provider];
+  return prices?.[modelId] ?? prices?.["*"];
+}
+
+export function findRewriteModelPrice(provider: string, model: string): RewriteModelPrice | undefined {
+  const prices = providerPricing.rewrite[provider];
+  return prices?.[model] ?? prices?.["*"];
+}
+
+// Entries in the file are merged over the defaults per provider, so a file only
+// needs the models whose prices differ.
+function loadProviderPricing(): ProviderPricing {
+  const path = env.PROVIDER_PRICING_FILE;
+  if (!path) {
+    return DEFAULT_PRICING;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid API pricing configuration: cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = pricingSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "pricing"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid API pricing configuration: ${issues}`);
+  }
+
+  return {
+    stt: mergeByProvider(DEFAULT_PRICING.stt, parsed.data.stt),
+    rewrite: mergeByProvider(DEFAULT_PRICING.rewrite, parsed.data.rewrite)
+  };
+}
+
+function mergeByProvider<T>(
+  defaults: Record<string, Record<string, T>>,
+  overrides: Record<string, Record<string, T>>
+): Record<string, Record<string, T>> {
+  const merged: Record<string, Record<string, T>> = { ...defaults };
+  for (const [provider, prices] of Object.entries(overrides)) {
+    merged[provider] = { ...defaults[provider], ...prices };
+  }
+
+  return merged;
+}
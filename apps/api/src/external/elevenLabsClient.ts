@@ -1,5 +1,12 @@
 import { env } from "../config/env";
 import { HttpError } from "../lib/httpError";
+import {
+  buildTranscriptSegments,
+  readTimestampSeconds,
+  type TranscriptAudioEvent,
+  type TranscriptTimeline,
+  type TranscriptWord
+} from "../lib/transcriptTimeline";
 
 export type ElevenLabsRequestOptions = {
   modelId?: string;
@@ -7,7 +14,8 @@ export type ElevenLabsRequestOptions = {
   temperature?: number;
   diarize?: boolean;
   tagAudioEvents?: boolean;
-  keyterms?: string;
+  keyterms?: string[];
+  timestampsGranularity?: "none" | "word" | "character";
 };
 
 export type ElevenLabsTranscriptionInput = {
@@ -17,12 +25,16 @@ export type ElevenLabsTranscriptionInput = {
   options?: ElevenLabsRequestOptions;
   apiKey?: string;
   baseUrl?: string;
+  // Per-attempt timeout; defaults to TRANSCRIPTION_REQUEST_TIMEOUT_MS.
+  timeoutMs?: number;
 };
 
 export type ElevenLabsTranscriptionResult = {
   rawText: string;
   providerPayload: unknown;
   modelId: string;
+  audioDurationSeconds?: number;
+  timeline: TranscriptTimeline;
 };
 
 const TEXT_KEYS = ["text", "transcript", "result", "output", "content"] as const;
@@ -81,8 +93,9 @@ async function sendTranscriptionRequest(input: {
     options: input.input.options
   });
 
+  const timeoutMs = input.input.timeoutMs ?? env.TRANSCRIPTION_REQUEST_TIMEOUT_MS;
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), env.TRANSCRIPTION_REQUEST_TIMEOUT_MS);
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const response = await fetch(input.endpoint, {
@@ -114,7 +127,9 @@ async function sendTranscriptionRequest(input: {
     return {
       rawText,
       providerPayload: payload,
-      modelId: input.modelId
+      modelId: input.modelId,
+      audioDurationSeconds: extractAudioDurationSeconds(payload),
+      timeline: extractTranscriptTimeline(payload)
     };
   } catch (error) {
     if (error instanceof HttpError) {
@@ -123,7 +138,7 @@ async function sendTranscriptionRequest(input: {
 
     if (error instanceof Error && error.name === "AbortError") {
       throw new HttpError(504, "ElevenLabs transcription request timed out", {
-        timeoutMs: env.TRANSCRIPTION_REQUEST_TIMEOUT_MS
+        timeoutMs
       });
     }
 
@@ -157,7 +172,11 @@ function createTranscriptionFormData(input: {
   appendIfDefined(formData, "temperature", input.options?.temperature);
   appendIfDefined(formData, "diarize", input.options?.diarize);
   appendIfDefined(formData, "tag_audio_events", input.options?.tagAudioEvents);
-  appendIfDefined(formData, "keyterms", input.options?.keyterms);
+  appendIfDefined(formData, "timestamps_granularity", input.options?.timestampsGranularity);
+  // Multipart list fields are sent as one `keyterms` entry per term.
+  for (const keyterm of input.options?.keyterms ?? []) {
+    appendIfDefined(formData, "keyterms", keyterm);
+  }
 
   return formData;
 }
@@ -272,3 +291,69 @@ function extractTranscriptText(payload: unknown): string | null {
 
   return sawTranscriptField ? "" : null;
 }
+
+// ElevenLabs does not report the clip length directly; the end time of the last
+// timed token is the closest available approximation.
+function extractAudioDurationSeconds(payload: unknown): number | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+
+  const words = (payload as Record<string, unknown>).words;
+  if (!Array.isArray(words)) {
+    return undefined;
+  }
+
+  let maxEnd: number | undefined;
+  for (const word of words) {
+    if (!word || typeof word !== "object") {
+      continue;
+    }
+
+    const end = (word as Record<string, unknown>).end;
+    if (typeof end === "number" && Number.isFinite(end) && end >= 0) {
+      maxEnd = maxEnd === undefined ? end : Math.max(maxEnd, end);
+    }
+  }
+
+  return maxEnd;
+}
+
+// Scribe returns one `words[]` list that mixes `word`, `spacing` and
+// `audio_event` tokens; `speaker_id` is present when diarization is enabled.
+function extractTranscriptTimeline(payload: unknown): TranscriptTimeline {
+  const tokens =
+    payload && typeof payload === "object" ? (payload as Record<string, unknown>).words : undefined;
+  const words: TranscriptWord[] = [];
+  const audioEvents: TranscriptAudioEvent[] = [];
+
+  if (Array.isArray(tokens)) {
+    for (const token of tokens) {
+      if (!token || typeof token !== "object") {
+        continue;
+      }
+
+      const data = token as Record<string, unknown>;
+      const text = typeof data.text === "string" ? data.text.trim() : "";
+      const start = readTimestampSeconds(data.start);
+      const end = readTimestampSeconds(data.end);
+      if (!text || start === undefined || end === undefined) {
+        continue;
+      }
+
+      const speaker = typeof data.speaker_id === "string" && data.speaker_id ? data.speaker_id : undefined;
+      const type = data.type ?? "word";
+      if (type === "word") {
+        words.push({ text, start, end, speaker });
+      } else if (type === "audio_event") {
+        audioEvents.push({ text, start, end, speaker });
+      }
+    }
+  }
+
+  return {
+    words,
+    segments: buildTranscriptSegments(words),
+    audioEvents
+  };
+}
@@ -4,17 +4,30 @@ import { HttpError } from "../lib/httpError";
 export type OpenAIRewriteResult = {
   cleanText: string;
   model: string;
+  // Billed token counts from the provider's `usage` block, when it sends one.
+  usage?: OpenAITokenUsage;
   providerPayload: unknown;
 };
 
+export type OpenAITokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
 export type OpenAIRewriteOptions = {
   apiKey?: string;
   baseUrl?: string;
   model?: string;
   timeoutMs?: number;
+  // System prompt for the rewrite; defaults to the general cleanup prompt.
+  instructions?: string;
+  // Ceiling for the output cap; defaults to DEFAULT_MAX_OUTPUT_TOKENS.
+  maxOutputTokens?: number;
 };
 
-const CLEANUP_INSTRUCTIONS = [
+export const DEFAULT_MAX_OUTPUT_TOKENS = 1_000;
+
+export const CLEANUP_INSTRUCTIONS = [
   "You are a transcript cleanup engine.",
   "Rewrite spoken transcript into clean written text.",
   "Fix punctuation, capitalization, and grammar.",
@@ -32,6 +45,7 @@ export async function rewriteTranscriptWithOpenAI(
   const apiKey = normalizeOptional(options?.apiKey) ?? env.OPENAI_API_KEY;
   const timeoutMs = options?.timeoutMs ?? env.OPENAI_REWRITE_TIMEOUT_MS;
   const baseUrl = normalizeOptional(options?.baseUrl) ?? env.OPENAI_API_BASE_URL;
+  const instructions = normalizeOptional(options?.instructions) ?? CLEANUP_INSTRUCTIONS;
 
   if (!apiKey) {
     throw new HttpError(400, "OpenAI API key is required");
@@ -58,9 +72,9 @@ export async function rewriteTranscriptWithOpenAI(
       },
       body: JSON.stringify({
         model,
-        instructions: CLEANUP_INSTRUCTIONS,
+        instructions,
         input: transcript,
-        max_output_tokens: Math.min(Math.max(transcript.length * 2, 120), 1_000),
+        max_output_tokens: outputTokenLimit(transcript, options?.maxOutputTokens),
         reasoning: {
           effort: "minimal"
         },
@@ -89,6 +103,7 @@ export async function rewriteTranscriptWithOpenAI(
     return {
       cleanText,
       model,
+      usage: extractTokenUsage(payload, "input_tokens", "output_tokens"),
       providerPayload: payload
     };
   } catch (error) {
@@ -110,6 +125,116 @@ export async function rewriteTranscriptWithOpenAI(
   }
 }
 
+// Chat Completions variant for OpenAI-compatible gateways (vLLM, Ollama, LiteLLM)
+// that do not implement the Responses API.
+export async function rewriteTranscriptWithChatCompletions(
+  rawText: string,
+  options?: OpenAIRewriteOptions
+): Promise<OpenAIRewriteResult> {
+  const transcript = rawText.trim();
+  const model = normalizeOptional(options?.model) ?? env.OPENAI_MODEL;
+  const apiKey = normalizeOptional(options?.apiKey) ?? env.OPENAI_API_KEY;
+  const timeoutMs = options?.timeoutMs ?? env.OPENAI_REWRITE_TIMEOUT_MS;
+  const baseUrl = normalizeOptional(options?.baseUrl) ?? env.OPENAI_API_BASE_URL;
+  const instructions = normalizeOptional(options?.instructions) ?? CLEANUP_INSTRUCTIONS;
+
+  if (!apiKey) {
+    throw new HttpError(400, "OpenAI API key is required");
+  }
+
+  if (!transcript) {
+    return {
+      cleanText: "",
+      model,
+      providerPayload: { skipped: true }
+    };
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: instructions },
+          { role: "user", content: transcript }
+        ],
+        [completionTokenLimitField(baseUrl)]: outputTokenLimit(transcript, options?.maxOutputTokens),
+        stream: false
+      }),
+      signal: controller.signal
+    });
+
+    const payload = await parseProviderPayload(response);
+
+    if (!response.ok) {
+      throw new HttpError(response.status, "Chat completions rewrite request failed", {
+        endpoint,
+        status: response.status,
+        payload
+      });
+    }
+
+    const cleanText = extractChatCompletionText(payload);
+    if (!cleanText) {
+      throw new HttpError(502, "Chat completions response did not include rewritten text", {
+        payload
+      });
+    }
+
+    return {
+      cleanText,
+      model,
+      usage: extractTokenUsage(payload, "prompt_tokens", "completion_tokens"),
+      providerPayload: payload
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HttpError(504, "Chat completions rewrite request timed out", {
+        timeoutMs
+      });
+    }
+
+    throw new HttpError(502, "Unexpected failure while calling chat completions", {
+      cause: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Grows with the transcript (two tokens per character leaves room for reasoning
+// tokens) so long recordings are not cut off, within [120, ceiling].
+function outputTokenLimit(transcript: string, ceiling = DEFAULT_MAX_OUTPUT_TOKENS): number {
+  return Math.min(Math.max(transcript.length * 2, 120), Math.max(ceiling, 120));
+}
+
+// OpenAI rejects `max_tokens` for reasoning models in favour of
+// `max_completion_tokens`, which many compatible gateways do not know yet.
+function completionTokenLimitField(baseUrl: string): "max_completion_tokens" | "max_tokens" {
+  let hostname: string;
+  try {
+    hostname = new URL(baseUrl).hostname;
+  } catch {
+    return "max_tokens";
+  }
+
+  const isOpenAI = hostname === "api.openai.com" || hostname.endsWith(".openai.azure.com");
+  return isOpenAI ? "max_completion_tokens" : "max_tokens";
+}
+
 function normalizeOptional(value: string | undefined): string | undefined {
   if (value === undefined) {
     return undefined;
@@ -130,6 +255,31 @@ async function parseProviderPayload(response: Response): Promise<unknown> {
   };
 }
 
+// Responses reports `input_tokens`/`output_tokens`; Chat Completions reports
+// `prompt_tokens`/`completion_tokens`.
+function extractTokenUsage(
+  payload: unknown,
+  inputField: string,
+  outputField: string
+): OpenAITokenUsage | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+
+  const usage = (payload as Record<string, unknown>).usage;
+  if (!usage || typeof usage !== "object") {
+    return undefined;
+  }
+
+  const inputTokens = (usage as Record<string, unknown>)[inputField];
+  const outputTokens = (usage as Record<string, unknown>)[outputField];
+  if (typeof inputTokens !== "number" || typeof outputTokens !== "number") {
+    return undefined;
+  }
+
+  return { inputTokens, outputTokens };
+}
+
 function extractOutputText(payload: unknown): string | null {
   if (!payload || typeof payload !== "object") {
     return null;
@@ -176,5 +326,39 @@ function extractOutputText(payload: unknown): string | null {
     return null;
   }
 
-  return parts.join(" ").replace(/\s+/g, " ").trim();
+  // Keep line breaks: bullet lists and paragraphs depend on them.
+  return parts
+    .join("\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .trim();
+}
+
+function extractChatCompletionText(payload: unknown): string | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const choices = (payload as Record<string, unknown>).choices;
+  if (!Array.isArray(choices)) {
+    return null;
+  }
+
+  for (const choice of choices) {
+    if (!choice || typeof choice !== "object") {
+      continue;
+    }
+
+    const message = (choice as Record<string, unknown>).message;
+    if (!message || typeof message !== "object") {
+      continue;
+    }
+
+    const content = (message as Record<string, unknown>).content;
+    if (typeof content === "string" && content.trim()) {
+      return content.trim();
+    }
+  }
+
+  return null;
 }
@@ -0,0 +1,239 @@
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import {
+  buildTranscriptSegments,
+  emptyTranscriptTimeline,
+  readTimestampSeconds,
+  type TranscriptSegment,
+  type TranscriptTimeline,
+  type TranscriptWord
+} from "../lib/transcriptTimeline";
+
+export type OpenAITranscriptionOptions = {
+  modelId?: string;
+  languageCode?: string;
+  temperature?: number;
+  prompt?: string;
+};
+
+export type OpenAITranscriptionInput = {
+  fileBuffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  options?: OpenAITranscriptionOptions;
+  apiKey?: string;
+  baseUrl?: string;
+  // Defaults to TRANSCRIPTION_REQUEST_TIMEOUT_MS.
+  timeoutMs?: number;
+};
+
+export type OpenAITranscriptionResult = {
+  rawText: string;
+  providerPayload: unknown;
+  modelId: string;
+  audioDurationSeconds?: number;
+  timeline: TranscriptTimeline;
+};
+
+// Speaks the OpenAI-compatible `/audio/transcriptions` API, which is also exposed
+// by most self-hosted Whisper gateways.
+export async function transcribeWithOpenAI(input: OpenAITranscriptionInput): Promise<OpenAITranscriptionResult> {
+  const modelId = normalizeOptional(input.options?.modelId) ?? env.OPENAI_TRANSCRIPTION_MODEL;
+  const apiKey = normalizeOptional(input.apiKey) ?? env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new HttpError(400, "OpenAI API key is required");
+  }
+
+  const baseUrl =
+    normalizeOptional(input.baseUrl) ?? env.OPENAI_TRANSCRIPTION_BASE_URL ?? env.OPENAI_API_BASE_URL;
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/audio/transcriptions`;
+
+  const timeoutMs = input.timeoutMs ?? env.TRANSCRIPTION_REQUEST_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: createTranscriptionFormData({
+        fileBuffer: input.fileBuffer,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        modelId,
+        options: input.options
+      }),
+      signal: controller.signal
+    });
+
+    const payload = await parseProviderPayload(response);
+
+    if (!response.ok) {
+      throw new HttpError(response.status, "OpenAI transcription request failed", {
+        endpoint,
+        status: response.status,
+        payload
+      });
+    }
+
+    const rawText = extractTranscriptText(payload);
+    if (rawText === null) {
+      throw new HttpError(502, "OpenAI transcription response did not include transcript text", {
+        payload
+      });
+    }
+
+    return {
+      rawText,
+      providerPayload: payload,
+      modelId,
+      audioDurationSeconds: extractDurationSeconds(payload),
+      timeline: extractTranscriptTimeline(payload)
+    };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HttpError(504, "OpenAI transcription request timed out", {
+        timeoutMs
+      });
+    }
+
+    throw new HttpError(502, "Unexpected failure while calling OpenAI transcription", {
+      cause: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function createTranscriptionFormData(input: {
+  fileBuffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  modelId: string;
+  options?: OpenAITranscriptionOptions;
+}): FormData {
+  const formData = new FormData();
+  const safeFileName = input.fileName || `audio-${Date.now()}.wav`;
+  const mimeType = input.mimeType || "application/octet-stream";
+  const fileArrayBuffer = input.fileBuffer.buffer.slice(
+    input.fileBuffer.byteOffset,
+    input.fileBuffer.byteOffset + input.fileBuffer.byteLength
+  ) as ArrayBuffer;
+
+  formData.append("file", new Blob([fileArrayBuffer], { type: mimeType }), safeFileName);
+  formData.append("model", input.modelId);
+  // Only Whisper models return timestamps (`verbose_json`); the gpt-4o
+  // transcription models accept plain `json` only.
+  if (input.modelId.startsWith("whisper")) {
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "word");
+    formData.append("timestamp_granularities[]", "segment");
+  } else {
+    formData.append("response_format", "json");
+  }
+
+  appendIfDefined(formData, "language", input.options?.languageCode);
+  appendIfDefined(formData, "temperature", input.options?.temperature);
+  appendIfDefined(formData, "prompt", input.options?.prompt);
+
+  return formData;
+}
+
+function normalizeOptional(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const normalized = value.trim();
+  return normalized.length > 0 ? normalized : undefined;
+}
+
+function appendIfDefined(formData: FormData, key: string, value: string | number | undefined): void {
+  if (value === undefined || value === "") {
+    return;
+  }
+
+  formData.append(key, String(value));
+}
+
+async function parseProviderPayload(response: Response): Promise<unknown> {
+  const rawText = await response.text();
+  if (!rawText) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(rawText);
+  } catch {
+    return { text: rawText };
+  }
+}
+
+function extractTranscriptText(payload: unknown): string | null {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const text = (payload as Record<string, unknown>).text;
+  return typeof text === "string" ? text.trim() : null;
+}
+
+function extractDurationSeconds(payload: unknown): number | undefined {
+  if (!payload || typeof payload !== "object") {
+    return undefined;
+  }
+
+  const duration = (payload as Record<string, unknown>).duration;
+  return typeof duration === "number" && Number.isFinite(duration) && duration >= 0 ? duration : undefined;
+}
+
+// `verbose_json` has no speaker labels. Provider segments are kept as-is; when
+// only words are present, segments are derived from them.
+function extractTranscriptTimeline(payload: unknown): TranscriptTimeline {
+  if (!payload || typeof payload !== "object") {
+    return emptyTranscriptTimeline();
+  }
+
+  const data = payload as Record<string, unknown>;
+  const words = readTimedEntries(data.words, "word").map(
+    (entry): TranscriptWord => ({ text: entry.text, start: entry.start, end: entry.end })
+  );
+  const segments = readTimedEntries(data.segments, "text").map(
+    (entry): TranscriptSegment => ({ start: entry.start, end: entry.end, text: entry.text })
+  );
+
+  return {
+    words,
+    segments: segments.length > 0 ? segments : buildTranscriptSegments(words),
+    audioEvents: []
+  };
+}
+
+function readTimedEntries(value: unknown, textKey: string): Array<{ text: string; start: number; end: number }> {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const entries: Array<{ text: string; start: number; end: number }> = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") {
+      continue;
+    }
+
+    const data = entry as Record<string, unknown>;
+    const text = typeof data[textKey] === "string" ? String(data[textKey]).trim() : "";
+    const start = readTimestampSeconds(data.start);
+    const end = readTimestampSeconds(data.end);
+    if (text && start !== undefined && end !== undefined) {
+      entries.push({ text, start, end });
+    }
+  }
+
+  return entries;
+}
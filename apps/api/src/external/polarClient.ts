@@ -0,0 +1,117 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+
+export type PolarWebhookHeaders = {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+};
+
+export type PolarUsageEvent = {
+  name: string;
+  externalCustomerId: string;
+  metadata: Record<string, string | number | boolean>;
+  timestamp: string;
+};
+
+// Polar signs deliveries with the Standard Webhooks scheme: `webhook-signature`
+// holds space-separated `v1,<base64 HMAC-SHA256>` entries over
+// "<webhook-id>.<webhook-timestamp>.<body>", keyed with the secret's UTF-8 bytes.
+export function verifyPolarWebhook(input: {
+  headers: PolarWebhookHeaders;
+  rawBody: Buffer;
+  secret: string;
+  toleranceSeconds: number;
+  nowMs?: number;
+}): unknown {
+  const { id, timestamp, signature } = input.headers;
+  if (!id || !timestamp || !signature) {
+    throw new HttpError(401, "Missing webhook signature");
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const nowSeconds = Math.floor((input.nowMs ?? Date.now()) / 1000);
+  if (!Number.isInteger(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > input.toleranceSeconds) {
+    throw new HttpError(401, "Webhook signature timestamp is outside the allowed tolerance");
+  }
+
+  const expected = createHmac("sha256", Buffer.from(input.secret, "utf8"))
+    .update(`${id}.${timestamp}.`)
+    .update(input.rawBody)
+    .digest();
+  const matches = signature.split(" ").some((entry) => {
+    const [version, value] = entry.split(",", 2);
+    if (version !== "v1" || !value) {
+      return false;
+    }
+
+    const candidate = Buffer.from(value, "base64");
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matches) {
+    throw new HttpError(401, "Invalid webhook signature");
+  }
+
+  try {
+    return JSON.parse(input.rawBody.toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Billing webhook body is not valid JSON");
+  }
+}
+
+// Polar's usage-based billing ingests named events per customer; meters on the
+// Polar side aggregate them (for example the sum of `audio_seconds`).
+export async function ingestPolarUsageEvents(events: readonly PolarUsageEvent[]): Promise<void> {
+  const accessToken = env.POLAR_ACCESS_TOKEN;
+  if (!accessToken) {
+    throw new HttpError(500, "Polar configuration is incomplete");
+  }
+
+  const endpoint = `${env.POLAR_API_BASE_URL.replace(/\/+$/, "")}/v1/events/ingest`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), env.POLAR_REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        events: events.map((event) => ({
+          name: event.name,
+          external_customer_id: event.externalCustomerId,
+          metadata: event.metadata,
+          timestamp: event.timestamp
+        }))
+      }),
+      signal: controller.signal
+    });
+    await response.arrayBuffer().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new HttpError(502, "Polar usage ingestion failed", {
+        status: response.status
+      });
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HttpError(504, "Polar usage ingestion timed out", {
+        timeoutMs: env.POLAR_REQUEST_TIMEOUT_MS
+      });
+    }
+
+    throw new HttpError(502, "Unexpected failure while calling Polar", {
+      cause: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,234 @@
+import net from "node:net";
+import tls from "node:tls";
+import { logger } from "../lib/logger";
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export type RedisClient = {
+  // Sends the commands in one write and resolves with their replies in order.
+  pipeline(commands: readonly (readonly string[])[]): Promise<RedisReply[]>;
+  close(): void;
+};
+
+type PendingPipeline = {
+  expected: number;
+  replies: RedisReply[];
+  error?: Error;
+  // AUTH and SELECT: if they fail, later commands on the connection must not run.
+  isSetup?: boolean;
+  resolve: (replies: RedisReply[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+type ParsedReply = {
+  value: RedisReply | Error;
+  offset: number;
+};
+
+const redisLogger = logger.child({ component: "redis" });
+
+// Minimal RESP2 client: enough for Redis, Valkey or any Redis-protocol server.
+// `redis://` and `rediss://` URLs may carry a username, password and database
+// (`/1`). A timed out or failed connection is dropped and reopened by the next
+// call, so callers only need to handle rejected promises. If AUTH or SELECT
+// fails, the connection is dropped and its pipelines reject with that error.
+export function createRedisClient(url: string, timeoutMs: number): RedisClient {
+  const target = new URL(url);
+  if (target.protocol !== "redis:" && target.protocol !== "rediss:") {
+    throw new Error("Redis URL must use the redis:// or rediss:// scheme");
+  }
+
+  let socket: net.Socket | undefined;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: PendingPipeline[] = [];
+  let setupFailureLogged = false;
+
+  const failPending = (error: Error): void => {
+    for (const entry of pending.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  };
+
+  const dropConnection = (error: Error): void => {
+    socket?.destroy();
+    socket = undefined;
+    buffer = Buffer.alloc(0);
+    failPending(error);
+  };
+
+  const handleData = (chunk: Buffer): void => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    let offset = 0;
+
+    while (pending.length > 0) {
+      let parsed: ParsedReply | undefined;
+      try {
+        parsed = parseReply(buffer, offset);
+      } catch (error) {
+        dropConnection(error instanceof Error ? error : new Error("Invalid Redis reply"));
+        return;
+      }
+      if (!parsed) {
+        break;
+      }
+
+      offset = parsed.offset;
+      const entry = pending[0];
+      if (parsed.value instanceof Error) {
+        entry.error ??= parsed.value;
+        entry.replies.push(null);
+      } else {
+        entry.replies.push(parsed.value);
+      }
+
+      if (entry.replies.length === entry.expected) {
+        pending.shift();
+        clearTimeout(entry.timer);
+        if (entry.error && entry.isSetup) {
+          entry.reject(entry.error);
+          dropConnection(entry.error);
+          return;
+        }
+        if (entry.error) {
+          entry.reject(entry.error);
+        } else {
+          entry.resolve(entry.replies);
+        }
+      }
+    }
+
+    buffer = buffer.subarray(offset);
+  };
+
+  const connect = (): net.Socket => {
+    const port = Number(target.port || 6379);
+    const host = target.hostname;
+    const connection =
+      target.protocol === "rediss:" ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    connection.setNoDelay(true);
+    connection.unref();
+    connection.on("data", handleData);
+    connection.on("error", (error) => {
+      if (socket === connection) {
+        dropConnection(error);
+      }
+    });
+    connection.on("close", () => {
+      if (socket === connection) {
+        dropConnection(new Error("Redis connection closed"));
+      }
+    });
+
+    const setup: string[][] = [];
+    if (target.password) {
+      const password = decodeURIComponent(target.password);
+      setup.push(target.username ? ["AUTH", decodeURIComponent(target.username), password] : ["AUTH", password]);
+    }
+    const database = target.pathname.replace(/^\//, "");
+    if (database) {
+      setup.push(["SELECT", database]);
+    }
+    if (setup.length > 0) {
+      send(connection, setup, true).then(
+        () => {
+          setupFailureLogged = false;
+        },
+        (error: Error) => {
+          // Every reconnect repeats the setup; one log line until it succeeds again.
+          if (!setupFailureLogged) {
+            setupFailureLogged = true;
+            redisLogger.error({ err: error }, "Redis connection setup (AUTH/SELECT) failed");
+          }
+        }
+      );
+    }
+
+    return connection;
+  };
+
+  const send = (
+    connection: net.Socket,
+    commands: readonly (readonly string[])[],
+    isSetup = false
+  ): Promise<RedisReply[]> =>
+    new Promise<RedisReply[]>((resolve, reject) => {
+      const timer = setTimeout(() => dropConnection(new Error("Redis request timed out")), timeoutMs);
+      pending.push({ expected: commands.length, replies: [], isSetup, resolve, reject, timer });
+      connection.write(commands.map(encodeCommand).join(""));
+    });
+
+  return {
+    pipeline(commands) {
+      if (commands.length === 0) {
+        return Promise.resolve([]);
+      }
+
+      socket ??= connect();
+      return send(socket, commands);
+    },
+
+    close() {
+      dropConnection(new Error("Redis client closed"));
+    }
+  };
+}
+
+function encodeCommand(args: readonly string[]): string {
+  return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join("")}`;
+}
+
+// Returns undefined until the buffer holds a complete reply.
+function parseReply(buffer: Buffer, offset: number): ParsedReply | undefined {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new Error(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let index = 0; index < count; index += 1) {
+        const item = parseReply(buffer, cursor);
+        if (!item) {
+          return undefined;
+        }
+
+        items.push(item.value instanceof Error ? null : item.value);
+        cursor = item.offset;
+      }
+
+      return { value: items, offset: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
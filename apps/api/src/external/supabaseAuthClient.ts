@@ -1,16 +1,20 @@
+import { createHash, randomBytes } from "node:crypto";
 import jwt, { type JwtPayload } from "jsonwebtoken";
 import jwksClient, { type JwksClient } from "jwks-rsa";
 import { env } from "../config/env";
 import { HttpError } from "../lib/httpError";
 
+export type AccountTier = "free" | "pro";
+
 export type SupabaseUser = {
   userId: string;
   email?: string;
   role?: string;
+  tier: AccountTier;
+  // The token's `session_id` (or `jti`), shared by every token refreshed from one sign-in.
+  sessionId?: string;
 };
 
-export type AccountTier = "free" | "pro";
-
 export type SupabaseAccount = {
   userId: string;
   email?: string;
@@ -22,6 +26,15 @@ export type SupabaseAccountSession = SupabaseAccount & {
   accessToken: string;
   refreshToken: string;
   accessTokenExpiresAtEpochSeconds?: number;
+  sessionId?: string;
+};
+
+// A one-time token from an email: the link's `token_hash`, or the emailed code with its email.
+export type SupabaseEmailToken = { tokenHash: string } | { email: string; token: string };
+
+export type SupabaseOAuthAuthorization = {
+  authorizeUrl: string;
+  codeVerifier: string;
 };
 
 export type SupabaseSignUpResult = {
@@ -123,15 +136,212 @@ export async function refreshSupabaseAccountSession(refreshToken: string): Promi
   return session;
 }
 
-export async function signOutSupabaseAccount(accessToken: string): Promise<void> {
+// `local` signs out only the token's own session; `others` every session of the
+// user except the token's own.
+export async function signOutSupabaseAccount(
+  accessToken: string,
+  scope: "local" | "others" = "local"
+): Promise<void> {
   await performSupabaseAuthRequest({
     operation: "logout",
     method: "POST",
     path: "/auth/v1/logout",
+    query: `scope=${scope}`,
     bearerToken: accessToken
   });
 }
 
+// Reads the user and session ids without verifying the signature. Only use it
+// on tokens Supabase has just issued or accepted.
+export function readSupabaseTokenSession(accessToken: string): { userId: string; sessionId: string } | undefined {
+  const payload = jwt.decode(accessToken);
+  if (!payload || typeof payload !== "object" || typeof payload.sub !== "string") {
+    return undefined;
+  }
+
+  const sessionId = readSessionIdClaim(payload);
+  return sessionId ? { userId: payload.sub, sessionId } : undefined;
+}
+
+// Supabase answers these without revealing whether the email has an account.
+export async function requestSupabasePasswordRecovery(email: string): Promise<void> {
+  await performSupabaseAuthRequest({
+    operation: "recover",
+    method: "POST",
+    path: "/auth/v1/recover",
+    query: buildRedirectQuery(),
+    body: {
+      email
+    }
+  });
+}
+
+export async function resendSupabaseSignupConfirmation(email: string): Promise<void> {
+  await performSupabaseAuthRequest({
+    operation: "resend",
+    method: "POST",
+    path: "/auth/v1/resend",
+    query: buildRedirectQuery(),
+    body: {
+      type: "signup",
+      email
+    }
+  });
+}
+
+// Exchanges a recovery token for a session, then sets the new password with it.
+export async function resetSupabasePassword(input: {
+  recovery: SupabaseEmailToken;
+  newPassword: string;
+}): Promise<SupabaseAccountSession> {
+  const session = await verifySupabaseEmailToken("verify_recovery", "recovery", input.recovery);
+  const account = await updateSupabaseAccount(session.accessToken, { password: input.newPassword });
+  return { ...session, ...account };
+}
+
+// Sends a magic link that also carries a one-time code; Supabase creates the
+// account on first use.
+export async function requestSupabaseEmailOtp(email: string): Promise<void> {
+  await performSupabaseAuthRequest({
+    operation: "otp",
+    method: "POST",
+    path: "/auth/v1/otp",
+    query: buildRedirectQuery(),
+    body: {
+      email
+    }
+  });
+}
+
+export async function verifySupabaseEmailOtp(emailToken: SupabaseEmailToken): Promise<SupabaseAccountSession> {
+  return verifySupabaseEmailToken("verify_otp", "email", emailToken);
+}
+
+// PKCE: the verifier goes back to the caller, which sends it with the
+// authorization code once the provider redirects to SUPABASE_AUTH_REDIRECT_URL.
+export function createSupabaseOAuthAuthorization(provider: string): SupabaseOAuthAuthorization {
+  const { baseUrl } = getSupabaseAuthClientConfiguration();
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+
+  const authorizeUrl = new URL(`${baseUrl}/auth/v1/authorize`);
+  authorizeUrl.searchParams.set("provider", provider);
+  authorizeUrl.searchParams.set("code_challenge", codeChallenge);
+  authorizeUrl.searchParams.set("code_challenge_method", "s256");
+  if (env.SUPABASE_AUTH_REDIRECT_URL) {
+    authorizeUrl.searchParams.set("redirect_to", env.SUPABASE_AUTH_REDIRECT_URL);
+  }
+
+  return {
+    authorizeUrl: authorizeUrl.toString(),
+    codeVerifier
+  };
+}
+
+export async function exchangeSupabaseOAuthCode(input: {
+  authCode: string;
+  codeVerifier: string;
+}): Promise<SupabaseAccountSession> {
+  const payload = await performSupabaseAuthRequest({
+    operation: "pkce_exchange",
+    method: "POST",
+    path: "/auth/v1/token",
+    query: "grant_type=pkce",
+    body: {
+      auth_code: input.authCode,
+      code_verifier: input.codeVerifier
+    }
+  });
+
+  const session = extractSession(payload, extractAccount(payload));
+  if (!session) {
+    throw new HttpError(502, "Supabase code exchange response did not include a session");
+  }
+
+  return session;
+}
+
+export async function getSupabaseAccount(accessToken: string): Promise<SupabaseAccount> {
+  const payload = await performSupabaseAuthRequest({
+    operation: "get_user",
+    method: "GET",
+    path: "/auth/v1/user",
+    bearerToken: accessToken
+  });
+
+  return extractAccount(payload);
+}
+
+// Updates the signed-in user's own record; `profileName` is stored in user_metadata.
+export async function updateSupabaseAccount(
+  accessToken: string,
+  changes: { profileName?: string; password?: string }
+): Promise<SupabaseAccount> {
+  const payload = await performSupabaseAuthRequest({
+    operation: "update_user",
+    method: "PUT",
+    path: "/auth/v1/user",
+    body: {
+      ...(changes.password ? { password: changes.password } : {}),
+      ...(changes.profileName ? { data: { name: changes.profileName } } : {})
+    },
+    bearerToken: accessToken
+  });
+
+  return extractAccount(payload);
+}
+
+export async function deleteSupabaseUser(userId: string): Promise<void> {
+  await performSupabaseAuthRequest({
+    operation: "admin_delete_user",
+    method: "DELETE",
+    path: `/auth/v1/admin/users/${encodeURIComponent(userId)}`,
+    useServiceRole: true
+  });
+}
+
+// Tokens issued after the update carry the new app_metadata; already issued
+// access tokens keep the old values until they are refreshed.
+export async function updateSupabaseUserAppMetadata(
+  userId: string,
+  appMetadata: Record<string, unknown>
+): Promise<void> {
+  await performSupabaseAuthRequest({
+    operation: "admin_update_user",
+    method: "PUT",
+    path: `/auth/v1/admin/users/${encodeURIComponent(userId)}`,
+    body: {
+      app_metadata: appMetadata
+    },
+    useServiceRole: true
+  });
+}
+
+async function verifySupabaseEmailToken(
+  operation: "verify_recovery" | "verify_otp",
+  type: "recovery" | "email",
+  emailToken: SupabaseEmailToken
+): Promise<SupabaseAccountSession> {
+  const payload = await performSupabaseAuthRequest({
+    operation,
+    method: "POST",
+    path: "/auth/v1/verify",
+    body: {
+      type,
+      ...("tokenHash" in emailToken
+        ? { token_hash: emailToken.tokenHash }
+        : { email: emailToken.email, token: emailToken.token })
+    }
+  });
+
+  const session = extractSession(payload, extractAccount(payload));
+  if (!session) {
+    throw new HttpError(502, "Supabase verify response did not include a session");
+  }
+
+  return session;
+}
+
 function verifyWithSymmetricSecret(token: string, jwtSecret: string): JwtPayload {
   const decoded = jwt.verify(token, jwtSecret, {
     algorithms: ["HS256"],
@@ -200,14 +410,27 @@ function mapPayloadToUser(payload: JwtPayload): SupabaseUser {
 
   const email = typeof payload.email === "string" ? payload.email : undefined;
   const role = typeof payload.role === "string" ? payload.role : undefined;
+  const appMetadata =
+    payload.app_metadata && typeof payload.app_metadata === "object" && !Array.isArray(payload.app_metadata)
+      ? (payload.app_metadata as Record<string, unknown>)
+      : undefined;
+  // Same rule as extractAccount: only app_metadata is trusted for the tier.
+  const tier = normalizeTier(findMetadataString(appMetadata, ["tier", "plan", "subscription_tier"])) ?? "free";
 
   return {
     userId: subject,
     email,
-    role
+    role,
+    tier,
+    sessionId: readSessionIdClaim(payload)
   };
 }
 
+function readSessionIdClaim(payload: JwtPayload): string | undefined {
+  const sessionId = typeof payload.session_id === "string" ? payload.session_id : payload.jti;
+  return sessionId?.trim() || undefined;
+}
+
 function normalizeVerificationError(error: unknown): HttpError {
   if (error instanceof HttpError) {
     return error;
@@ -261,17 +484,37 @@ function getOrCreateJwksClient(): JwksClient {
   return cachedJwksClient;
 }
 
+type SupabaseAuthOperation =
+  | "signup"
+  | "login"
+  | "refresh"
+  | "logout"
+  | "recover"
+  | "resend"
+  | "verify_recovery"
+  | "otp"
+  | "verify_otp"
+  | "pkce_exchange"
+  | "get_user"
+  | "update_user"
+  | "admin_update_user"
+  | "admin_delete_user";
+
 type SupabaseAuthRequestInput = {
-  operation: "signup" | "login" | "refresh" | "logout";
-  method: "POST";
+  operation: SupabaseAuthOperation;
+  method: "GET" | "POST" | "PUT" | "DELETE";
   path: string;
   query?: string;
   body?: Record<string, unknown>;
   bearerToken?: string;
+  // Admin endpoints authenticate with the service role key instead of the publishable key.
+  useServiceRole?: boolean;
 };
 
+const EMPTY_RESPONSE_OPERATIONS: ReadonlySet<SupabaseAuthOperation> = new Set(["logout", "recover", "resend", "otp"]);
+
 async function performSupabaseAuthRequest(input: SupabaseAuthRequestInput): Promise<Record<string, unknown>> {
-  const { baseUrl, publishableKey } = getSupabaseAuthClientConfiguration();
+  const { baseUrl, apiKey } = getSupabaseAuthClientConfiguration(input.useServiceRole);
   const endpoint = `${baseUrl}${input.path}${input.query ? `?${input.query}` : ""}`;
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), env.SUPABASE_AUTH_TIMEOUT_MS);
@@ -282,8 +525,8 @@ async function performSupabaseAuthRequest(input: SupabaseAuthRequestInput): Prom
       headers: {
         "Content-Type": "application/json",
         Accept: "application/json",
-        apikey: publishableKey,
-        Authorization: `Bearer ${input.bearerToken ?? publishableKey}`
+        apikey: apiKey,
+        Authorization: `Bearer ${input.bearerToken ?? apiKey}`
       },
       body: input.body ? JSON.stringify(input.body) : undefined,
       signal: controller.signal
@@ -295,7 +538,7 @@ async function performSupabaseAuthRequest(input: SupabaseAuthRequestInput): Prom
       throw mapSupabaseAuthRequestError(response.status, payload, input.operation);
     }
 
-    if (input.path === "/auth/v1/logout") {
+    if (EMPTY_RESPONSE_OPERATIONS.has(input.operation)) {
       return {};
     }
 
@@ -323,14 +566,14 @@ async function performSupabaseAuthRequest(input: SupabaseAuthRequestInput): Prom
   }
 }
 
-function getSupabaseAuthClientConfiguration(): {
+function getSupabaseAuthClientConfiguration(useServiceRole = false): {
   baseUrl: string;
-  publishableKey: string;
+  apiKey: string;
 } {
   const supabaseUrl = env.SUPABASE_URL?.trim();
-  const publishableKey = env.SUPABASE_PUBLISHABLE_KEY?.trim();
+  const apiKey = (useServiceRole ? env.SUPABASE_SERVICE_ROLE_KEY : env.SUPABASE_PUBLISHABLE_KEY)?.trim();
 
-  if (!supabaseUrl || !publishableKey) {
+  if (!supabaseUrl || !apiKey) {
     throw new HttpError(500, "Supabase auth configuration is incomplete");
   }
 
@@ -341,10 +584,17 @@ function getSupabaseAuthClientConfiguration(): {
 
   return {
     baseUrl: normalizedBaseUrl,
-    publishableKey
+    apiKey
   };
 }
 
+// Where the emailed links send the user; Supabase only accepts URLs on its allow list.
+function buildRedirectQuery(): string | undefined {
+  return env.SUPABASE_AUTH_REDIRECT_URL
+    ? `redirect_to=${encodeURIComponent(env.SUPABASE_AUTH_REDIRECT_URL)}`
+    : undefined;
+}
+
 function isSecureSupabaseUrl(rawUrl: string): boolean {
   try {
     const parsed = new URL(rawUrl);
@@ -367,7 +617,7 @@ function isSecureSupabaseUrl(rawUrl: string): boolean {
 function mapSupabaseAuthRequestError(
   statusCode: number,
   payload: unknown,
-  operation: "signup" | "login" | "refresh" | "logout"
+  operation: SupabaseAuthOperation
 ): HttpError {
   const message = extractSupabaseErrorMessage(payload);
 
@@ -384,10 +634,62 @@ function mapSupabaseAuthRequestError(
       return new HttpError(401, "Invalid or expired refresh token");
     }
 
-    if (operation === "logout") {
+    if (operation === "recover") {
+      return new HttpError(400, "Unable to send password recovery email", {
+        reason: message
+      });
+    }
+
+    if (operation === "resend") {
+      return new HttpError(400, "Unable to resend confirmation email", {
+        reason: message
+      });
+    }
+
+    if (operation === "verify_recovery") {
+      return new HttpError(401, "Invalid or expired recovery token");
+    }
+
+    if (operation === "otp") {
+      return new HttpError(400, "Unable to send sign-in email", {
+        reason: message
+      });
+    }
+
+    if (operation === "verify_otp") {
+      return new HttpError(401, "Invalid or expired sign-in code");
+    }
+
+    if (operation === "pkce_exchange") {
+      return new HttpError(401, "Invalid or expired authorization code");
+    }
+
+    if (operation === "logout" || operation === "get_user") {
       return new HttpError(401, "Invalid or expired access token");
     }
 
+    if (operation === "update_user") {
+      if (statusCode === 401 || statusCode === 403) {
+        return new HttpError(401, "Invalid or expired access token");
+      }
+
+      return new HttpError(400, "Unable to update account", {
+        reason: message
+      });
+    }
+
+    if (operation === "admin_update_user") {
+      return new HttpError(statusCode === 404 ? 404 : 502, "Unable to update Supabase user", {
+        reason: message
+      });
+    }
+
+    if (operation === "admin_delete_user") {
+      return new HttpError(statusCode === 404 ? 404 : 502, "Unable to delete Supabase user", {
+        reason: message
+      });
+    }
+
     return new HttpError(statusCode, "Unable to create account");
   }
 
@@ -467,7 +769,8 @@ function extractSession(
     ...account,
     accessToken,
     refreshToken,
-    accessTokenExpiresAtEpochSeconds
+    accessTokenExpiresAtEpochSeconds,
+    sessionId: readSupabaseTokenSession(accessToken)?.sessionId
   };
 }
 
@@ -0,0 +1,366 @@
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+
+export type SupabaseRowValue = string | number | boolean | null;
+
+export type SupabaseRowFilter = {
+  column: string;
+  operator: "eq" | "neq" | "gte" | "lt" | "in" | "is";
+  value: SupabaseRowValue | readonly SupabaseRowValue[];
+};
+
+export type SupabaseRowOrder = {
+  column: string;
+  ascending: boolean;
+};
+
+export type SupabaseSelectQuery = {
+  filters?: readonly SupabaseRowFilter[];
+  columns?: readonly string[];
+  orderBy?: SupabaseRowOrder | readonly SupabaseRowOrder[];
+  // Keyset cursor for rows ordered by `(created_at, id)`: only rows after this
+  // pair are returned.
+  after?: { createdAt: string; id: string };
+  limit?: number;
+  offset?: number;
+};
+
+export type SupabaseRowAggregate = {
+  count: number;
+  sums: Record<string, number>;
+};
+
+export type SupabaseRowAggregateGroup = SupabaseRowAggregate & {
+  group: Record<string, SupabaseRowValue>;
+};
+
+type SupabaseRestRequestInput = {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  table: string;
+  searchParams?: URLSearchParams;
+  body?: unknown;
+  prefer?: string;
+};
+
+export async function selectSupabaseRows(
+  table: string,
+  query: SupabaseSelectQuery = {}
+): Promise<Record<string, unknown>[]> {
+  const searchParams = buildFilterSearchParams(query.filters);
+  searchParams.set("select", query.columns && query.columns.length > 0 ? query.columns.join(",") : "*");
+
+  if (query.orderBy) {
+    const orders: readonly SupabaseRowOrder[] = Array.isArray(query.orderBy) ? query.orderBy : [query.orderBy];
+    searchParams.set("order", orders.map((order) => `${order.column}.${order.ascending ? "asc" : "desc"}`).join(","));
+  }
+
+  if (query.after) {
+    const createdAt = quoteFilterValue(query.after.createdAt);
+    searchParams.append(
+      "or",
+      `(created_at.gt.${createdAt},and(created_at.eq.${createdAt},id.gt.${quoteFilterValue(query.after.id)}))`
+    );
+  }
+
+  if (query.limit !== undefined) {
+    searchParams.set("limit", String(query.limit));
+  }
+
+  if (query.offset !== undefined) {
+    searchParams.set("offset", String(query.offset));
+  }
+
+  return performSupabaseRestRequest({
+    method: "GET",
+    table,
+    searchParams
+  });
+}
+
+// PostgREST reports the total in `Content-Range` (`*/<count>`) when asked for
+// an exact count; `limit=0` keeps the rows themselves out of the response.
+export async function countSupabaseRows(table: string, filters: readonly SupabaseRowFilter[] = []): Promise<number> {
+  const searchParams = buildFilterSearchParams(filters);
+  searchParams.set("select", "*");
+  searchParams.set("limit", "0");
+
+  const { headers } = await sendSupabaseRestRequest({
+    method: "GET",
+    table,
+    searchParams,
+    prefer: "count=exact"
+  });
+  const count = Number(headers.get("content-range")?.split("/")[1]);
+  if (!Number.isInteger(count)) {
+    throw new HttpError(502, "Supabase data response payload is invalid", { table, method: "GET" });
+  }
+
+  return count;
+}
+
+// Counts the matching rows and sums `sumColumns` in the database, using
+// PostgREST aggregate functions (see docs/data-model.md). Sums over no rows are 0.
+export async function aggregateSupabaseRows(
+  table: string,
+  filters: readonly SupabaseRowFilter[] = [],
+  sumColumns: readonly string[] = []
+): Promise<SupabaseRowAggregate> {
+  const [aggregate] = await aggregateSupabaseRowGroups(table, filters, [], sumColumns);
+  if (!aggregate) {
+    throw new HttpError(502, "Supabase data response payload is invalid", { table, method: "GET" });
+  }
+
+  return { count: aggregate.count, sums: aggregate.sums };
+}
+
+// One aggregate per distinct combination of the `groupBy` columns: PostgREST
+// groups by the plain columns selected next to the aggregate functions.
+export async function aggregateSupabaseRowGroups(
+  table: string,
+  filters: readonly SupabaseRowFilter[],
+  groupBy: readonly string[],
+  sumColumns: readonly string[]
+): Promise<SupabaseRowAggregateGroup[]> {
+  const searchParams = buildFilterSearchParams(filters);
+  searchParams.set(
+    "select",
+    [...groupBy, "count()", ...sumColumns.map((column) => `${column}:${column}.sum()`)].join(",")
+  );
+
+  const rows = await performSupabaseRestRequest({
+    method: "GET",
+    table,
+    searchParams
+  });
+
+  return rows.map((row) => {
+    const count = Number(row.count);
+    const sums: Record<string, number> = {};
+    for (const column of sumColumns) {
+      sums[column] = Number(row[column] ?? 0);
+    }
+    if (!Number.isInteger(count) || Object.values(sums).some((sum) => !Number.isFinite(sum))) {
+      throw new HttpError(502, "Supabase data response payload is invalid", { table, method: "GET" });
+    }
+
+    const group: Record<string, SupabaseRowValue> = {};
+    for (const column of groupBy) {
+      const value = row[column];
+      group[column] =
+        typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? value : null;
+    }
+
+    return { group, count, sums };
+  });
+}
+
+export async function insertSupabaseRows(
+  table: string,
+  rows: readonly Record<string, unknown>[]
+): Promise<Record<string, unknown>[]> {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  return performSupabaseRestRequest({
+    method: "POST",
+    table,
+    body: rows,
+    prefer: "return=representation"
+  });
+}
+
+export async function updateSupabaseRows(
+  table: string,
+  filters: readonly SupabaseRowFilter[],
+  patch: Record<string, unknown>
+): Promise<Record<string, unknown>[]> {
+  assertHasFilters(filters, "update");
+
+  return performSupabaseRestRequest({
+    method: "PATCH",
+    table,
+    searchParams: buildFilterSearchParams(filters),
+    body: patch,
+    prefer: "return=representation"
+  });
+}
+
+export async function deleteSupabaseRows(
+  table: string,
+  filters: readonly SupabaseRowFilter[]
+): Promise<Record<string, unknown>[]> {
+  assertHasFilters(filters, "delete");
+
+  return performSupabaseRestRequest({
+    method: "DELETE",
+    table,
+    searchParams: buildFilterSearchParams(filters),
+    prefer: "return=representation"
+  });
+}
+
+async function performSupabaseRestRequest(input: SupabaseRestRequestInput): Promise<Record<string, unknown>[]> {
+  const { payload } = await sendSupabaseRestRequest(input);
+  if (payload === null) {
+    return [];
+  }
+
+  if (!Array.isArray(payload)) {
+    throw new HttpError(502, "Supabase data response payload is invalid", {
+      table: input.table,
+      method: input.method
+    });
+  }
+
+  return payload.filter(
+    (row): row is Record<string, unknown> => Boolean(row) && typeof row === "object" && !Array.isArray(row)
+  );
+}
+
+async function sendSupabaseRestRequest(
+  input: SupabaseRestRequestInput
+): Promise<{ payload: unknown; headers: Headers }> {
+  const { baseUrl, serviceRoleKey } = getSupabaseRestClientConfiguration();
+  const query = input.searchParams?.toString();
+  const endpoint = `${baseUrl}/rest/v1/${encodeURIComponent(input.table)}${query ? `?${query}` : ""}`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), env.SUPABASE_REST_TIMEOUT_MS);
+
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    apikey: serviceRoleKey,
+    Authorization: `Bearer ${serviceRoleKey}`
+  };
+  if (input.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+  if (input.prefer) {
+    headers.Prefer = input.prefer;
+  }
+
+  try {
+    const response = await fetch(endpoint, {
+      method: input.method,
+      headers,
+      body: input.body !== undefined ? JSON.stringify(input.body) : undefined,
+      signal: controller.signal
+    });
+
+    const payload = await parseSupabaseRestPayload(response);
+
+    if (!response.ok) {
+      throw new HttpError(response.status >= 500 ? 502 : response.status, "Supabase data request failed", {
+        table: input.table,
+        method: input.method,
+        status: response.status,
+        reason: extractSupabaseRestErrorMessage(payload)
+      });
+    }
+
+    return { payload, headers: response.headers };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HttpError(504, "Supabase data request timed out", {
+        table: input.table,
+        timeout_ms: env.SUPABASE_REST_TIMEOUT_MS
+      });
+    }
+
+    throw new HttpError(502, "Unexpected failure while calling Supabase data API", {
+      table: input.table,
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function getSupabaseRestClientConfiguration(): {
+  baseUrl: string;
+  serviceRoleKey: string;
+} {
+  const supabaseUrl = env.SUPABASE_URL?.trim();
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY?.trim();
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new HttpError(500, "Supabase data configuration is incomplete");
+  }
+
+  return {
+    baseUrl: supabaseUrl.replace(/\/+$/, ""),
+    serviceRoleKey
+  };
+}
+
+function buildFilterSearchParams(filters: readonly SupabaseRowFilter[] | undefined): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const filter of filters ?? []) {
+    searchParams.append(filter.column, `${filter.operator}.${formatFilterValue(filter)}`);
+  }
+
+  return searchParams;
+}
+
+function formatFilterValue(filter: SupabaseRowFilter): string {
+  if (filter.operator === "in") {
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    return `(${values.map((value) => quoteFilterValue(value)).join(",")})`;
+  }
+
+  if (Array.isArray(filter.value)) {
+    throw new HttpError(500, `Supabase filter operator ${filter.operator} does not accept a list value`);
+  }
+
+  const value = filter.value as SupabaseRowValue;
+  return value === null ? "null" : String(value);
+}
+
+function quoteFilterValue(value: SupabaseRowValue): string {
+  if (value === null) {
+    return "null";
+  }
+
+  const serialized = String(value);
+  return /[,()"]/.test(serialized) ? `"${serialized.replace(/"/g, '\\"')}"` : serialized;
+}
+
+function assertHasFilters(filters: readonly SupabaseRowFilter[], operation: "update" | "delete"): void {
+  if (filters.length === 0) {
+    throw new HttpError(500, `Refusing to ${operation} Supabase rows without filters`);
+  }
+}
+
+async function parseSupabaseRestPayload(response: Response): Promise<unknown> {
+  const rawText = await response.text();
+  if (!rawText) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(rawText);
+  } catch {
+    return { message: rawText };
+  }
+}
+
+function extractSupabaseRestErrorMessage(payload: unknown): string {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return "Unknown Supabase data error";
+  }
+
+  const record = payload as Record<string, unknown>;
+  const possibleKeys = ["message", "details", "hint", "error"] as const;
+  for (const key of possibleKeys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+
+  return "Unknown Supabase data error";
+}
@@ -0,0 +1,170 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { HttpError } from "../lib/httpError";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-presstospeak-signature";
+
+export type WebhookDeliveryInput = {
+  url: string;
+  payload: unknown;
+  timeoutMs: number;
+  // When set, the body is signed so receivers can verify the sender.
+  secret?: string;
+  // Skips checkWebhookTarget, for local development against http://localhost.
+  allowPrivateNetwork?: boolean;
+};
+
+export type WebhookDeliveryResult = {
+  statusCode: number;
+};
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+// carrier-grade NAT, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// are checked against the IPv4 ranges.
+const nonPublicAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4]
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8]
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Returns why `url` may not receive webhooks, or undefined when it may: only
+// https URLs whose host resolves exclusively to public addresses are allowed.
+export async function checkWebhookTarget(url: URL): Promise<string | undefined> {
+  if (url.protocol !== "https:") {
+    return "callback URLs must use https";
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+  } catch {
+    return "callback host could not be resolved";
+  }
+
+  const blocked = addresses.some(({ address, family }) =>
+    nonPublicAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+  return addresses.length === 0 || blocked ? "callback host must resolve to public addresses" : undefined;
+}
+
+export async function deliverWebhook(input: WebhookDeliveryInput): Promise<WebhookDeliveryResult> {
+  // Checked again on every delivery in case the host's DNS changed since it was accepted.
+  if (!input.allowPrivateNetwork) {
+    const problem = await checkWebhookTarget(new URL(input.url));
+    if (problem) {
+      throw new HttpError(502, "Webhook target is not allowed", { reason: problem });
+    }
+  }
+
+  const body = JSON.stringify(input.payload);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "PressToSpeak-Webhooks/1"
+  };
+  if (input.secret) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(body, input.secret);
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), input.timeoutMs);
+
+  try {
+    const response = await fetch(input.url, {
+      method: "POST",
+      headers,
+      body,
+      // A redirect could point the delivery at an address checkWebhookTarget would refuse.
+      redirect: "error",
+      signal: controller.signal
+    });
+    // The receiver's body is irrelevant; drain it so the socket can be reused.
+    await response.arrayBuffer().catch(() => undefined);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpError(502, "Webhook receiver rejected the delivery", {
+        status: response.status
+      });
+    }
+
+    return { statusCode: response.status };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      throw error;
+    }
+
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HttpError(504, "Webhook delivery timed out", {
+        timeoutMs: input.timeoutMs
+      });
+    }
+
+    throw new HttpError(502, "Unexpected failure while delivering webhook", {
+      cause: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, so receivers can
+// reject replays by checking the timestamp.
+export function signWebhookBody(body: string, secret: string, timestampSeconds = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", secret).update(`${timestampSeconds}.${body}`).digest("hex");
+  return `t=${timestampSeconds},v1=${signature}`;
+}
+
+// Receiving side of signWebhookBody, for senders that use the same scheme.
+export function verifyWebhookSignature(input: {
+  body: Buffer;
+  signatureHeader: string | undefined;
+  secret: string;
+  toleranceSeconds: number;
+  nowMs?: number;
+}): void {
+  const parts = new Map(
+    (input.signatureHeader ?? "").split(",").map((part) => {
+      const separator = part.indexOf("=");
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()] as const;
+    })
+  );
+  const timestamp = parts.get("t");
+  const signature = parts.get("v1");
+  if (!timestamp || !signature) {
+    throw new HttpError(401, "Missing webhook signature");
+  }
+
+  const timestampSeconds = Number(timestamp);
+  const nowSeconds = Math.floor((input.nowMs ?? Date.now()) / 1000);
+  if (!Number.isInteger(timestampSeconds) || Math.abs(nowSeconds - timestampSeconds) > input.toleranceSeconds) {
+    throw new HttpError(401, "Webhook signature timestamp is outside the allowed tolerance");
+  }
+
+  const expected = createHmac("sha256", input.secret).update(`${timestamp}.`).update(input.body).digest();
+  const candidate = Buffer.from(signature, "hex");
+  if (candidate.length !== expected.length || !timingSafeEqual(candidate, expected)) {
+    throw new HttpError(401, "Invalid webhook signature");
+  }
+}
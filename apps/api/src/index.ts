@@ -1,6 +1,9 @@
 import { env } from "./config/env";
 import { createApp } from "./app";
 import { logger } from "./lib/logger";
+import { flushMeteredUsage } from "./services/billingService";
+import { failUnfinishedTranscriptionJobs } from "./services/transcriptionJobService";
+import { flushUsageEvents } from "./services/usageMeteringService";
 
 const app = createApp();
 const startupLogger = logger.child({ component: "server" });
@@ -12,7 +15,22 @@ const server = app.listen(env.PORT, () => {
 const shutdown = (signal: NodeJS.Signals) => {
   startupLogger.info({ signal }, "Shutting down API server");
   server.close(() => {
-    process.exit(0);
+    void failUnfinishedTranscriptionJobs("Transcription job interrupted by server shutdown")
+      .then((failedJobs) => {
+        if (failedJobs > 0) {
+          startupLogger.warn({ failedJobs }, "Marked unfinished transcription jobs as failed");
+        }
+      })
+      .catch((error: unknown) => {
+        startupLogger.error(
+          { errorMessage: error instanceof Error ? error.message : String(error) },
+          "Failed to mark unfinished transcription jobs as failed"
+        );
+      })
+      .then(() => Promise.all([flushUsageEvents(), flushMeteredUsage()]))
+      .finally(() => {
+        process.exit(0);
+      });
   });
 };
 
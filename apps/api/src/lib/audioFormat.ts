@@ -0,0 +1,314 @@
+import { HttpError } from "./httpError";
+
+export const SUPPORTED_AUDIO_FORMATS = ["wav", "mp3", "m4a", "aac", "ogg", "flac", "webm"] as const;
+
+export type AudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
+
+export type InspectedAudio = {
+  format: AudioFormat;
+  mimeType: string;
+  extension: string;
+  // Read from the container header when the format records it (WAV, FLAC).
+  durationSeconds?: number;
+  // Compressed formats only: the size at a typical speech bitrate, to price
+  // transcriptions whose provider reports no duration.
+  estimatedDurationSeconds?: number;
+  // Sample layout of uncompressed WAV data; absent for compressed formats.
+  pcm?: PcmLayout;
+};
+
+export type PcmLayout = {
+  encoding: "int" | "float";
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataBytes: number;
+};
+
+type Mp4Box = {
+  type: string;
+  start: number;
+  end: number;
+};
+
+// Generous for dictation (voice codecs often run lower), so the estimate errs
+// towards overcounting spend rather than hiding it.
+const TYPICAL_SPEECH_BITRATES_BPS: Partial<Record<AudioFormat, number>> = {
+  mp3: 64_000,
+  m4a: 64_000,
+  aac: 64_000,
+  ogg: 24_000,
+  webm: 24_000
+};
+
+// ISO base media (MP4) brands. Audio brands are accepted as they are; generic
+// brands are shared with video, so those files must hold an audio track and no
+// video track. Anything else (QuickTime `qt  `, `M4V `, HEIC/AVIF images) is not audio.
+const MP4_AUDIO_BRANDS = new Set(["M4A ", "M4B ", "M4P ", "F4A ", "F4B "]);
+const MP4_GENERIC_BRANDS = new Set(["isom", "iso2", "iso4", "iso5", "iso6", "mp41", "mp42", "dash"]);
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const AUDIO_FORMAT_DETAILS: Record<AudioFormat, { mimeType: string; extension: string }> = {
+  wav: { mimeType: "audio/wav", extension: "wav" },
+  mp3: { mimeType: "audio/mpeg", extension: "mp3" },
+  m4a: { mimeType: "audio/mp4", extension: "m4a" },
+  aac: { mimeType: "audio/aac", extension: "aac" },
+  ogg: { mimeType: "audio/ogg", extension: "ogg" },
+  flac: { mimeType: "audio/flac", extension: "flac" },
+  webm: { mimeType: "audio/webm", extension: "webm" }
+};
+
+// Identifies the upload from its leading bytes instead of trusting the client's
+// mimetype, so unsupported or corrupt files are rejected before any provider spend.
+export function inspectAudioUpload(buffer: Buffer): InspectedAudio {
+  const format = detectAudioFormat(buffer);
+  if (!format) {
+    throw new HttpError(415, "Unsupported audio format", {
+      supported: SUPPORTED_AUDIO_FORMATS
+    });
+  }
+
+  if (format === "wav") {
+    return { format, ...AUDIO_FORMAT_DETAILS[format], ...readWavLayout(buffer) };
+  }
+
+  if (format === "flac") {
+    return { format, ...AUDIO_FORMAT_DETAILS[format], durationSeconds: readFlacDurationSeconds(buffer) };
+  }
+
+  const bitrate = TYPICAL_SPEECH_BITRATES_BPS[format];
+  return {
+    format,
+    ...AUDIO_FORMAT_DETAILS[format],
+    estimatedDurationSeconds: bitrate ? Math.round(((buffer.length * 8) / bitrate) * 10) / 10 : undefined
+  };
+}
+
+export function detectAudioFormat(buffer: Buffer): AudioFormat | undefined {
+  if (buffer.length < 12) {
+    return undefined;
+  }
+
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WAVE") {
+    return "wav";
+  }
+
+  if (buffer.toString("latin1", 0, 4) === "fLaC") {
+    return "flac";
+  }
+
+  if (buffer.toString("latin1", 0, 4) === "OggS") {
+    return "ogg";
+  }
+
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return "webm";
+  }
+
+  if (buffer.toString("latin1", 4, 8) === "ftyp") {
+    return isMp4Audio(buffer) ? "m4a" : undefined;
+  }
+
+  if (buffer.toString("latin1", 0, 3) === "ID3") {
+    return "mp3";
+  }
+
+  if (buffer[0] === 0xff && (buffer[1] & 0xf6) === 0xf0) {
+    return "aac";
+  }
+
+  if (isMpegAudioFrameHeader(buffer)) {
+    return "mp3";
+  }
+
+  return undefined;
+}
+
+// 11-bit frame sync, a defined MPEG version and layer, and valid bitrate and
+// sample-rate indexes; checking all of them keeps random bytes from passing.
+function isMpegAudioFrameHeader(buffer: Buffer): boolean {
+  if (buffer[0] !== 0xff || (buffer[1] & 0xe0) !== 0xe0) {
+    return false;
+  }
+
+  const version = (buffer[1] >> 3) & 0x03;
+  const layer = (buffer[1] >> 1) & 0x03;
+  const bitrateIndex = buffer[2] >> 4;
+  const sampleRateIndex = (buffer[2] >> 2) & 0x03;
+
+  return version !== 0x01 && layer !== 0x00 && bitrateIndex !== 0x0f && sampleRateIndex !== 0x03;
+}
+
+function isMp4Audio(buffer: Buffer): boolean {
+  const majorBrand = buffer.toString("latin1", 8, 12);
+  if (MP4_AUDIO_BRANDS.has(majorBrand)) {
+    return true;
+  }
+
+  if (!MP4_GENERIC_BRANDS.has(majorBrand)) {
+    return false;
+  }
+
+  const handlers = readMp4TrackHandlers(buffer);
+  return handlers.includes("soun") && !handlers.includes("vide");
+}
+
+// Returns the handler type (`soun`, `vide`, ...) of every track in the `moov` box.
+// `hdlr` is a full box: version and flags, pre_defined, then the handler type.
+function readMp4TrackHandlers(buffer: Buffer): string[] {
+  const moov = readMp4Boxes(buffer, 0, buffer.length).find((box) => box.type === "moov");
+  if (!moov) {
+    return [];
+  }
+
+  return readMp4Boxes(buffer, moov.start, moov.end)
+    .filter((box) => box.type === "trak")
+    .flatMap((trak) => readMp4Boxes(buffer, trak.start, trak.end).filter((box) => box.type === "mdia"))
+    .flatMap((mdia) => readMp4Boxes(buffer, mdia.start, mdia.end).filter((box) => box.type === "hdlr"))
+    .filter((hdlr) => hdlr.start + 12 <= hdlr.end)
+    .map((hdlr) => buffer.toString("latin1", hdlr.start + 8, hdlr.start + 12));
+}
+
+// Lists the boxes between `start` and `end`; a box's own `start` and `end` bound its payload.
+function readMp4Boxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    const size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+    let boxSize = size;
+    if (size === 1) {
+      if (offset + 16 > end) {
+        break;
+      }
+      headerSize = 16;
+      boxSize = Number(buffer.readBigUInt64BE(offset + 8));
+    } else if (size === 0) {
+      // The last box may extend to the end of the file.
+      boxSize = end - offset;
+    }
+
+    if (boxSize < headerSize || offset + boxSize > end) {
+      break;
+    }
+
+    boxes.push({ type, start: offset + headerSize, end: offset + boxSize });
+    offset += boxSize;
+  }
+
+  return boxes;
+}
+
+// Walks the RIFF chunks for `fmt ` and `data`. Recorders that stream WAV often
+// leave the data size at 0 or 0xFFFFFFFF, so it is capped at the bytes present.
+// The duration is metered, so the header's byte rate must agree with its sample
+// rate and block size: exactly for PCM and float, and at most that for
+// compressed codecs, which pack several samples into a block.
+function readWavLayout(buffer: Buffer): { durationSeconds: number; pcm?: PcmLayout } {
+  let byteRate: number | undefined;
+  let blockAlign = 0;
+  let fmt: { formatTag: number; channels: number; sampleRate: number; bitsPerSample: number } | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("latin1", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const dataOffset = offset + 8;
+
+    if (chunkId === "fmt ") {
+      if (chunkSize < 16 || dataOffset + 16 > buffer.length) {
+        break;
+      }
+
+      byteRate = buffer.readUInt32LE(dataOffset + 8);
+      blockAlign = buffer.readUInt16LE(dataOffset + 12);
+      const formatTag = buffer.readUInt16LE(dataOffset);
+      fmt = {
+        // Extensible headers carry the real format tag at the start of the sub-format GUID.
+        formatTag:
+          formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26 && dataOffset + 26 <= buffer.length
+            ? buffer.readUInt16LE(dataOffset + 24)
+            : formatTag,
+        channels: buffer.readUInt16LE(dataOffset + 2),
+        sampleRate: buffer.readUInt32LE(dataOffset + 4),
+        bitsPerSample: buffer.readUInt16LE(dataOffset + 14)
+      };
+    } else if (chunkId === "data") {
+      if (!byteRate || !fmt) {
+        break;
+      }
+
+      const maxByteRate = fmt.sampleRate * blockAlign;
+      const isUncompressed = fmt.formatTag === WAVE_FORMAT_PCM || fmt.formatTag === WAVE_FORMAT_IEEE_FLOAT;
+      if (isUncompressed ? byteRate !== maxByteRate : byteRate > maxByteRate) {
+        throw new HttpError(415, "Corrupt audio file", {
+          format: "wav",
+          reason: "byte rate does not match sample rate and block size"
+        });
+      }
+
+      const available = buffer.length - dataOffset;
+      const dataBytes = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+      return {
+        durationSeconds: Math.round((dataBytes / byteRate) * 1000) / 1000,
+        pcm: toPcmLayout(fmt, dataOffset, dataBytes)
+      };
+    }
+
+    // Chunks are padded to an even size.
+    offset = dataOffset + chunkSize + (chunkSize % 2);
+  }
+
+  throw new HttpError(415, "Corrupt audio file", {
+    format: "wav",
+    reason: byteRate ? "missing data chunk" : "missing or invalid fmt chunk"
+  });
+}
+
+function toPcmLayout(
+  fmt: { formatTag: number; channels: number; sampleRate: number; bitsPerSample: number },
+  dataOffset: number,
+  dataBytes: number
+): PcmLayout | undefined {
+  const isInt = fmt.formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(fmt.bitsPerSample);
+  const isFloat = fmt.formatTag === WAVE_FORMAT_IEEE_FLOAT && fmt.bitsPerSample === 32;
+  if ((!isInt && !isFloat) || fmt.channels === 0 || fmt.sampleRate === 0) {
+    return undefined;
+  }
+
+  return {
+    encoding: isFloat ? "float" : "int",
+    sampleRate: fmt.sampleRate,
+    channels: fmt.channels,
+    bitsPerSample: fmt.bitsPerSample,
+    dataOffset,
+    dataBytes
+  };
+}
+
+// STREAMINFO is always the first metadata block; a total sample count of 0
+// means the encoder did not know the length, which is not an error.
+function readFlacDurationSeconds(buffer: Buffer): number | undefined {
+  const blockType = buffer.length > 4 ? buffer[4] & 0x7f : undefined;
+  if (blockType !== 0 || buffer.length < 26) {
+    throw new HttpError(415, "Corrupt audio file", {
+      format: "flac",
+      reason: "missing STREAMINFO block"
+    });
+  }
+
+  const info = buffer.subarray(8);
+  const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+  const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+  if (sampleRate === 0 || totalSamples === 0) {
+    return undefined;
+  }
+
+  return Math.round((totalSamples / sampleRate) * 1000) / 1000;
+}
@@ -0,0 +1,113 @@
+import { joinWordTexts, type TranscriptWord } from "./transcriptTimeline";
+
+export type CaptionCue = {
+  start: number;
+  end: number;
+  lines: string[];
+};
+
+// Common broadcast/streaming caption limits: two lines of at most 42
+// characters, on screen for 1-7 seconds.
+const MAX_LINE_CHARS = 42;
+const MAX_LINES = 2;
+const MAX_CUE_SECONDS = 7;
+const MIN_CUE_SECONDS = 1;
+const CUE_PAUSE_SECONDS = 1;
+// A sentence end only closes a cue once it holds this much text, so short
+// sentences are still grouped.
+const SENTENCE_BREAK_MIN_CHARS = 20;
+
+export function buildCaptionCues(words: readonly TranscriptWord[]): CaptionCue[] {
+  const groups: Array<{ start: number; end: number; speaker?: string; texts: string[] }> = [];
+
+  for (const word of words) {
+    const current = groups[groups.length - 1];
+    if (current && !shouldStartNewCue(current, word)) {
+      current.end = Math.max(current.end, word.end);
+      current.texts.push(word.text);
+      continue;
+    }
+
+    groups.push({ start: word.start, end: word.end, speaker: word.speaker, texts: [word.text] });
+  }
+
+  return groups.map((group, index) => {
+    const next = groups[index + 1];
+    // Stretch very short cues so they stay readable, without overlapping the next one.
+    const minimumEnd = group.start + MIN_CUE_SECONDS;
+    const end = group.end >= minimumEnd ? group.end : Math.min(minimumEnd, next ? next.start : minimumEnd);
+
+    return {
+      start: group.start,
+      end: Math.max(end, group.end),
+      lines: wrapCaptionText(joinWordTexts(group.texts))
+    };
+  });
+}
+
+export function formatSrt(cues: readonly CaptionCue[]): string {
+  return cues.map((cue, index) => `${index + 1}\n${formatCueBlock(cue, ",")}`).join("\n");
+}
+
+export function formatWebVtt(cues: readonly CaptionCue[]): string {
+  const body = cues.map((cue) => formatCueBlock(cue, ".")).join("\n");
+
+  return body ? `WEBVTT\n\n${body}` : "WEBVTT\n";
+}
+
+function shouldStartNewCue(
+  current: { start: number; end: number; speaker?: string; texts: string[] },
+  word: TranscriptWord
+): boolean {
+  const currentText = joinWordTexts(current.texts);
+  const candidateText = joinWordTexts([...current.texts, word.text]);
+
+  return (
+    current.speaker !== word.speaker ||
+    word.start - current.end >= CUE_PAUSE_SECONDS ||
+    word.end - current.start > MAX_CUE_SECONDS ||
+    candidateText.length > MAX_LINE_CHARS * MAX_LINES ||
+    (/[.!?]$/.test(currentText) && currentText.length >= SENTENCE_BREAK_MIN_CHARS)
+  );
+}
+
+// Splits at the space that best balances the two lines; text that fits on one
+// line stays on one line.
+function wrapCaptionText(text: string): string[] {
+  if (text.length <= MAX_LINE_CHARS) {
+    return [text];
+  }
+
+  let bestBreak = -1;
+  for (let index = text.indexOf(" "); index !== -1; index = text.indexOf(" ", index + 1)) {
+    if (bestBreak === -1 || Math.abs(text.length / 2 - index) < Math.abs(text.length / 2 - bestBreak)) {
+      bestBreak = index;
+    }
+  }
+
+  if (bestBreak === -1) {
+    return [text];
+  }
+
+  return [text.slice(0, bestBreak), text.slice(bestBreak + 1)];
+}
+
+function formatCueBlock(cue: CaptionCue, millisecondSeparator: "," | "."): string {
+  const start = formatCueTimestamp(cue.start, millisecondSeparator);
+  const end = formatCueTimestamp(cue.end, millisecondSeparator);
+  return `${start} --> ${end}\n${cue.lines.join("\n")}\n`;
+}
+
+function formatCueTimestamp(seconds: number, millisecondSeparator: "," | "."): string {
+  const totalMilliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMilliseconds / 3_600_000);
+  const minutes = Math.floor((totalMilliseconds % 3_600_000) / 60_000);
+  const wholeSeconds = Math.floor((totalMilliseconds % 60_000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(wholeSeconds, 2)}${millisecondSeparator}${pad(milliseconds, 3)}`;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, "0");
+}
@@ -0,0 +1,36 @@
+const WORD_START = "(?<![\\p{L}\\p{N}])";
+const WORD_END = "(?![\\p{L}\\p{N}])";
+
+// Replaces spoken phrases in a single pass, so replacement text is never matched
+// again by another phrase. Matching is case-insensitive, only matches whole words
+// and tolerates the punctuation STT or a rewrite may put between them ("Sig,
+// block" matches "sig block"). Where phrases overlap the earlier one wins, so
+// callers list longer phrases first; `replace` gets the index of the matched phrase.
+export function replacePhrases(
+  text: string,
+  phrases: readonly string[],
+  replace: (phraseIndex: number) => string
+): string {
+  if (phrases.length === 0) {
+    return text;
+  }
+
+  const alternatives = phrases.map((phrase) => `(${buildPhraseSource(phrase)})`);
+  const pattern = new RegExp(`${WORD_START}(?:${alternatives.join("|")})${WORD_END}`, "giu");
+  return text.replace(pattern, (...args: unknown[]) =>
+    replace(args.slice(1, phrases.length + 1).findIndex((group) => group !== undefined))
+  );
+}
+
+// Lowercases and collapses whitespace so phrases compare equal however they were typed.
+export function normalizePhrase(phrase: string): string {
+  return phrase.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function buildPhraseSource(phrase: string): string {
+  return phrase.trim().split(/\s+/).map(escapeRegExp).join("[\\s,;:.!?-]+");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
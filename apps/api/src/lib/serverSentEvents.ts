@@ -0,0 +1,35 @@
+import type { Request, Response } from "express";
+import { parseBoolean } from "./parse";
+
+export function wantsEventStream(req: Request): boolean {
+  const streamField = parseBoolean(req.body?.stream);
+  if (streamField !== undefined) {
+    return streamField;
+  }
+
+  const accept = req.header("accept") ?? "";
+  return accept.toLowerCase().includes("text/event-stream");
+}
+
+export function openEventStream(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (Render/nginx) so events reach the client immediately.
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+export function writeEvent(res: Response, event: string, data: unknown): void {
+  if (res.writableEnded) {
+    return;
+  }
+
+  const serialized = JSON.stringify(data) ?? "null";
+  res.write(`event: ${event}\n`);
+  for (const line of serialized.split("\n")) {
+    res.write(`data: ${line}\n`);
+  }
+  res.write("\n");
+}
@@ -0,0 +1,88 @@
+// Provider-neutral timing data for a transcript. Times are seconds from the
+// start of the audio; `speaker` is only set when the provider diarized.
+export type TranscriptWord = {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+};
+
+export type TranscriptSegment = {
+  speaker?: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type TranscriptAudioEvent = {
+  text: string;
+  start: number;
+  end: number;
+  speaker?: string;
+};
+
+export type TranscriptTimeline = {
+  words: TranscriptWord[];
+  segments: TranscriptSegment[];
+  audioEvents: TranscriptAudioEvent[];
+};
+
+// A silence this long starts a new segment even when the speaker is unchanged,
+// which keeps single-speaker recordings from collapsing into one segment.
+const SEGMENT_PAUSE_SECONDS = 1.5;
+
+export function emptyTranscriptTimeline(): TranscriptTimeline {
+  return { words: [], segments: [], audioEvents: [] };
+}
+
+// Groups consecutive words into segments, splitting on speaker changes and on
+// long pauses.
+export function buildTranscriptSegments(words: readonly TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: { speaker?: string; start: number; end: number; texts: string[] } | undefined;
+
+  for (const word of words) {
+    const startsNewSegment =
+      !current || current.speaker !== word.speaker || word.start - current.end >= SEGMENT_PAUSE_SECONDS;
+
+    if (startsNewSegment) {
+      if (current) {
+        segments.push(toSegment(current));
+      }
+
+      current = { speaker: word.speaker, start: word.start, end: word.end, texts: [word.text] };
+      continue;
+    }
+
+    if (current) {
+      current.end = Math.max(current.end, word.end);
+      current.texts.push(word.text);
+    }
+  }
+
+  if (current) {
+    segments.push(toSegment(current));
+  }
+
+  return segments;
+}
+
+// Joins word tokens with single spaces without leaving a space before
+// punctuation that the provider emitted as its own token.
+export function joinWordTexts(texts: readonly string[]): string {
+  return texts.join(" ").replace(/\s+([,.!?;:])/g, "$1").trim();
+}
+
+// Reads a provider timestamp, rejecting missing, negative or non-numeric values.
+export function readTimestampSeconds(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function toSegment(input: { speaker?: string; start: number; end: number; texts: string[] }): TranscriptSegment {
+  return {
+    speaker: input.speaker,
+    start: input.start,
+    end: input.end,
+    text: joinWordTexts(input.texts)
+  };
+}
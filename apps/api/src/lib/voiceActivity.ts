@@ -0,0 +1,70 @@
+import type { PcmLayout } from "./audioFormat";
+
+export type VoiceActivity = {
+  // Total length of frames at or above the threshold.
+  activeSeconds: number;
+  // Loudest frame, for logging and tuning the threshold.
+  peakDbfs: number;
+};
+
+const FRAME_SECONDS = 0.02;
+
+// Energy-based check: the PCM data is cut into 20 ms frames and a frame counts
+// as active when its RMS level reaches `thresholdDbfs`. Scanning stops as soon
+// as `stopAfterSeconds` of activity is found, so real speech costs little.
+export function measureVoiceActivity(
+  buffer: Buffer,
+  pcm: PcmLayout,
+  options: { thresholdDbfs: number; stopAfterSeconds: number }
+): VoiceActivity {
+  const bytesPerSample = pcm.bitsPerSample / 8;
+  const frameBytes = Math.max(1, Math.round(pcm.sampleRate * FRAME_SECONDS)) * pcm.channels * bytesPerSample;
+  const dataEnd = Math.min(buffer.length, pcm.dataOffset + pcm.dataBytes);
+  const readSample = createSampleReader(pcm);
+
+  let activeFrames = 0;
+  let peakDbfs = -Infinity;
+
+  for (let frameStart = pcm.dataOffset; frameStart + frameBytes <= dataEnd; frameStart += frameBytes) {
+    let sumOfSquares = 0;
+    for (let offset = frameStart; offset < frameStart + frameBytes; offset += bytesPerSample) {
+      const sample = readSample(buffer, offset);
+      sumOfSquares += sample * sample;
+    }
+
+    const rms = Math.sqrt(sumOfSquares / (frameBytes / bytesPerSample));
+    const dbfs = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+    peakDbfs = Math.max(peakDbfs, dbfs);
+
+    if (dbfs >= options.thresholdDbfs) {
+      activeFrames += 1;
+      if (activeFrames * FRAME_SECONDS >= options.stopAfterSeconds) {
+        break;
+      }
+    }
+  }
+
+  return {
+    activeSeconds: Math.round(activeFrames * FRAME_SECONDS * 1000) / 1000,
+    peakDbfs: Number.isFinite(peakDbfs) ? Math.round(peakDbfs * 10) / 10 : peakDbfs
+  };
+}
+
+// Returns samples scaled to [-1, 1].
+function createSampleReader(pcm: PcmLayout): (buffer: Buffer, offset: number) => number {
+  if (pcm.encoding === "float") {
+    return (buffer, offset) => buffer.readFloatLE(offset);
+  }
+
+  switch (pcm.bitsPerSample) {
+    case 8:
+      // 8-bit WAV is unsigned with silence at 128.
+      return (buffer, offset) => (buffer[offset] - 128) / 128;
+    case 16:
+      return (buffer, offset) => buffer.readInt16LE(offset) / 32768;
+    case 24:
+      return (buffer, offset) => buffer.readIntLE(offset, 3) / 8388608;
+    default:
+      return (buffer, offset) => buffer.readInt32LE(offset) / 2147483648;
+  }
+}
@@ -1,10 +1,14 @@
 import { timingSafeEqual } from "node:crypto";
 import type { NextFunction, Request, Response } from "express";
 import { env } from "../config/env";
-import { verifySupabaseAccessToken } from "../external/supabaseAuthClient";
+import { verifySupabaseAccessToken, type AccountTier } from "../external/supabaseAuthClient";
 import { HttpError } from "../lib/httpError";
+import { getAccountPlan } from "../services/accountService";
+import { isApiKeyToken, verifyApiKey, type ApiKeyScope } from "../services/apiKeyService";
+import { resolveActiveOrganization, type ActiveOrganization } from "../services/organizationService";
+import { assertSessionActive } from "../services/sessionService";
 
-export type AuthSource = "supabase" | "legacy_header" | "byok_open" | "anonymous";
+export type AuthSource = "supabase" | "api_key" | "legacy_header" | "byok_open" | "anonymous";
 
 export type RequestUserContext = {
   userId: string;
@@ -12,6 +16,11 @@ export type RequestUserContext = {
   authSource: AuthSource;
   email?: string;
   role?: string;
+  tier?: AccountTier;
+  sessionId?: string;
+  apiKeyId?: string;
+  apiKeyScopes?: ApiKeyScope[];
+  organization?: ActiveOrganization;
 };
 
 const ANONYMOUS_USER_CONTEXT: RequestUserContext = {
@@ -29,6 +38,11 @@ export async function authenticateRequest(req: Request, res: Response, next: Nex
       env.USER_AUTH_MODE === "off" ? tryExtractBearerToken(rawAuthorization) : extractBearerToken(rawAuthorization);
     const legacyUserId = extractLegacyUserId(req.header("x-user-id"));
     const hasByokProviderKeys = hasBringYourOwnProviderKeys(req);
+    const organizationId = normalizeHeader(req.header("x-organization-id"));
+
+    if (organizationId && (env.USER_AUTH_MODE === "off" || !bearerToken || isSharedProxyKeyBearerToken(bearerToken))) {
+      throw new HttpError(401, "Organization context requires an authenticated account");
+    }
 
     if (env.USER_AUTH_MODE === "off") {
       setUserContext(res, buildUnauthenticatedContext(legacyUserId, hasByokProviderKeys));
@@ -52,20 +66,25 @@ export async function authenticateRequest(req: Request, res: Response, next: Nex
       return;
     }
 
-    const verifiedUser = await verifySupabaseAccessToken(bearerToken);
-    setUserContext(res, {
-      userId: verifiedUser.userId,
-      email: verifiedUser.email,
-      role: verifiedUser.role,
-      isAuthenticated: true,
-      authSource: "supabase"
-    });
+    const accountContext = isApiKeyToken(bearerToken)
+      ? await buildApiKeyContext(bearerToken)
+      : await buildSupabaseContext(bearerToken, normalizeHeader(req.header("user-agent")));
+    const organization = organizationId
+      ? await resolveActiveOrganization({ organizationId, userId: accountContext.userId })
+      : undefined;
+
+    setUserContext(res, { ...accountContext, organization });
     next();
   } catch (error) {
     next(error);
   }
 }
 
+// Supabase sessions and personal API keys both act for a verified account.
+export function isAccountUser(user: RequestUserContext): boolean {
+  return user.isAuthenticated && (user.authSource === "supabase" || user.authSource === "api_key");
+}
+
 export function getRequestUserContext(res: Response): RequestUserContext {
   const candidate = res.locals.user as RequestUserContext | undefined;
 
@@ -80,6 +99,41 @@ function setUserContext(res: Response, context: RequestUserContext): void {
   res.locals.user = context;
 }
 
+async function buildSupabaseContext(accessToken: string, userAgent: string | undefined): Promise<RequestUserContext> {
+  const verifiedUser = await verifySupabaseAccessToken(accessToken);
+  if (verifiedUser.sessionId) {
+    await assertSessionActive({
+      userId: verifiedUser.userId,
+      sessionId: verifiedUser.sessionId,
+      userAgent
+    });
+  }
+
+  return {
+    userId: verifiedUser.userId,
+    email: verifiedUser.email,
+    role: verifiedUser.role,
+    tier: verifiedUser.tier,
+    sessionId: verifiedUser.sessionId,
+    isAuthenticated: true,
+    authSource: "supabase"
+  };
+}
+
+// API keys carry no claims, so the tier is read from the account's profile.
+async function buildApiKeyContext(key: string): Promise<RequestUserContext> {
+  const verifiedKey = await verifyApiKey(key);
+
+  return {
+    userId: verifiedKey.userId,
+    tier: await getAccountPlan(verifiedKey.userId),
+    apiKeyId: verifiedKey.keyId,
+    apiKeyScopes: verifiedKey.scopes,
+    isAuthenticated: true,
+    authSource: "api_key"
+  };
+}
+
 function buildUnauthenticatedContext(legacyUserId: string | undefined, hasByokProviderKeys: boolean): RequestUserContext {
   if (hasByokProviderKeys) {
     return {
@@ -193,7 +247,7 @@ export function hasBringYourOwnProviderKeys(req: Request): boolean {
   return hasElevenLabsKey || hasOpenAIKey;
 }
 
-function safeEqualsSecret(input: string, expected: string): boolean {
+export function safeEqualsSecret(input: string, expected: string): boolean {
   const inputBuffer = Buffer.from(input, "utf8");
   const expectedBuffer = Buffer.from(expected, "utf8");
 
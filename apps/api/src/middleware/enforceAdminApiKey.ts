@@ -0,0 +1,24 @@
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import { safeEqualsSecret } from "./authenticateRequest";
+
+// Operator-only routes stay closed unless ADMIN_API_KEY is configured.
+export function enforceAdminApiKey(req: Request, _res: Response, next: NextFunction): void {
+  try {
+    const expectedKey = env.ADMIN_API_KEY;
+    if (!expectedKey) {
+      throw new HttpError(403, "Admin API is disabled");
+    }
+
+    const inboundApiKey = req.header("x-admin-api-key")?.trim();
+    if (inboundApiKey && safeEqualsSecret(inboundApiKey, expectedKey)) {
+      next();
+      return;
+    }
+
+    throw new HttpError(401, "Missing or invalid admin API key");
+  } catch (error) {
+    next(error);
+  }
+}
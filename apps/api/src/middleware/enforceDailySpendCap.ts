@@ -0,0 +1,17 @@
+import type { NextFunction, Request, Response } from "express";
+import { assertDailySpendAvailable } from "../services/spendService";
+import { hasBringYourOwnProviderKeys } from "./authenticateRequest";
+
+// BYOK requests spend the caller's provider credits, so the platform cap does
+// not apply to them.
+export async function enforceDailySpendCap(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    if (!hasBringYourOwnProviderKeys(req)) {
+      await assertDailySpendAvailable(res.locals.requestId);
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
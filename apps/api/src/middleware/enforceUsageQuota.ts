@@ -0,0 +1,68 @@
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { evaluateUsageQuota, resolveQuotaScope } from "../services/quotaService";
+import { getRequestUserContext, isAccountUser } from "./authenticateRequest";
+
+const quotaLogger = logger.child({ component: "usage-quota" });
+
+export async function enforceUsageQuota(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = getRequestUserContext(res);
+    if (!env.QUOTA_ENFORCEMENT || !isAccountUser(user)) {
+      next();
+      return;
+    }
+
+    let status: Awaited<ReturnType<typeof evaluateUsageQuota>>;
+    try {
+      const scope = await resolveQuotaScope({
+        userId: user.userId,
+        tier: user.tier,
+        organization: user.organization
+      });
+      status = await evaluateUsageQuota({ userId: user.userId, scope });
+    } catch (error) {
+      // Quota lookups fail open: a usage store outage should not block dictation.
+      quotaLogger.error(
+        {
+          requestId: res.locals.requestId,
+          userId: user.userId,
+          organizationId: user.organization?.id,
+          errorMessage: error instanceof Error ? error.message : String(error)
+        },
+        "usage quota lookup failed; allowing request"
+      );
+      next();
+      return;
+    }
+
+    const violation = status.violation;
+    if (!violation) {
+      next();
+      return;
+    }
+
+    const retryAfterSeconds = Math.max(1, Math.ceil((violation.resetsAt.getTime() - Date.now()) / 1000));
+    const details = {
+      code: "QUOTA_EXCEEDED",
+      tier: status.tier,
+      window: violation.window,
+      metric: violation.metric,
+      limit: violation.limit,
+      used: violation.used,
+      resets_at: violation.resetsAt.toISOString()
+    };
+
+    // Daily caps are temporary throttles; exhausting the billing period requires an upgrade.
+    if (violation.window === "daily") {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      throw new HttpError(429, "Daily usage quota exceeded", details);
+    }
+
+    throw new HttpError(402, "Monthly usage quota exceeded", details);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getRequestUserContext, isAccountUser } from "./authenticateRequest";
+
+type RecordedResponse = {
+  statusCode: number;
+  contentType?: string;
+  body: Buffer;
+};
+
+type IdempotencyEntry = {
+  fingerprint: string;
+  expiresAtMs: number;
+  response?: RecordedResponse;
+  // Settles when the original request finishes (with its response) or is
+  // aborted before responding (with undefined).
+  settled: Promise<RecordedResponse | undefined>;
+};
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+const HARD_ENTRY_LIMIT = 10_000;
+
+const idempotencyLogger = logger.child({ component: "idempotency" });
+const idempotencyEntries = new Map<string, IdempotencyEntry>();
+
+// Runs after the multipart upload so the fingerprint covers the audio and
+// form fields. Requests without the header are not affected, and neither are
+// callers without an account: their user ids are not unique to one client.
+export async function enforceIdempotencyKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const idempotencyKey = req.header("idempotency-key");
+    if (idempotencyKey === undefined) {
+      next();
+      return;
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      throw new HttpError(400, "Invalid Idempotency-Key header", {
+        reason: "must be 1-255 visible ASCII characters"
+      });
+    }
+
+    const user = getRequestUserContext(res);
+    if (!isAccountUser(user)) {
+      next();
+      return;
+    }
+
+    const entryKey = `${user.userId}:${req.method}:${req.path}:${idempotencyKey}`;
+    const fingerprint = fingerprintRequest(req);
+
+    for (;;) {
+      const nowMs = Date.now();
+      cleanupEntries(nowMs);
+
+      const existing = idempotencyEntries.get(entryKey);
+      if (!existing || existing.expiresAtMs <= nowMs) {
+        recordResponse(res, entryKey, fingerprint, nowMs);
+        next();
+        return;
+      }
+
+      if (existing.fingerprint !== fingerprint) {
+        throw new HttpError(422, "Idempotency-Key was already used with a different request payload");
+      }
+
+      const response = existing.response ?? (await existing.settled);
+      if (response) {
+        idempotencyLogger.info(
+          { requestId: res.locals.requestId, statusCode: response.statusCode },
+          "replaying response for repeated Idempotency-Key"
+        );
+        replayResponse(res, response);
+        return;
+      }
+
+      // The original request was aborted, rate limited or failed; the next iteration
+      // lets this request take over the key.
+    }
+  } catch (error) {
+    next(error);
+  }
+}
+
+function fingerprintRequest(req: Request): string {
+  const hash = createHash("sha256");
+  hash.update(req.header("accept") ?? "");
+  const fields = Object.entries((req.body ?? {}) as Record<string, unknown>).sort(([left], [right]) =>
+    left.localeCompare(right)
+  );
+  hash.update(JSON.stringify(fields));
+  if (req.file) {
+    hash.update(req.file.buffer);
+  }
+
+  return hash.digest("hex");
+}
+
+// Tees everything written to the response so it can be replayed byte for byte,
+// including streamed (SSE) responses.
+function recordResponse(res: Response, entryKey: string, fingerprint: string, nowMs: number): void {
+  const chunks: Buffer[] = [];
+  let settle: (response: RecordedResponse | undefined) => void = () => undefined;
+  const entry: IdempotencyEntry = {
+    fingerprint,
+    expiresAtMs: nowMs + env.IDEMPOTENCY_KEY_TTL_MS,
+    settled: new Promise((resolve) => {
+      settle = resolve;
+    })
+  };
+  idempotencyEntries.set(entryKey, entry);
+
+  const originalWrite = res.write.bind(res) as (...args: unknown[]) => boolean;
+  const originalEnd = res.end.bind(res) as (...args: unknown[]) => Response;
+  res.write = ((...args: unknown[]) => {
+    captureChunk(chunks, args);
+    return originalWrite(...args);
+  }) as Response["write"];
+  res.end = ((...args: unknown[]) => {
+    if (typeof args[0] !== "function") {
+      captureChunk(chunks, args);
+    }
+    return originalEnd(...args);
+  }) as Response["end"];
+
+  res.on("finish", () => {
+    // Rate-limit rejections did no work and server errors may be transient, so
+    // a retry should run again.
+    if (res.statusCode === 429 || res.statusCode >= 500) {
+      idempotencyEntries.delete(entryKey);
+      settle(undefined);
+      return;
+    }
+
+    const contentType = res.getHeader("content-type");
+    entry.response = {
+      statusCode: res.statusCode,
+      contentType: typeof contentType === "string" ? contentType : undefined,
+      body: Buffer.concat(chunks)
+    };
+    settle(entry.response);
+  });
+  res.on("close", () => {
+    if (!entry.response && idempotencyEntries.get(entryKey) === entry) {
+      idempotencyEntries.delete(entryKey);
+      settle(undefined);
+    }
+  });
+}
+
+function captureChunk(chunks: Buffer[], args: unknown[]): void {
+  const [chunk, encoding] = args;
+  if (chunk === undefined || chunk === null || typeof chunk === "function") {
+    return;
+  }
+
+  if (Buffer.isBuffer(chunk)) {
+    chunks.push(chunk);
+  } else if (chunk instanceof Uint8Array) {
+    chunks.push(Buffer.from(chunk));
+  } else {
+    chunks.push(Buffer.from(String(chunk), typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"));
+  }
+}
+
+function replayResponse(res: Response, response: RecordedResponse): void {
+  res.status(response.statusCode);
+  res.setHeader("Idempotent-Replayed", "true");
+  if (response.contentType) {
+    res.setHeader("Content-Type", response.contentType);
+  }
+
+  res.end(response.body);
+}
+
+function cleanupEntries(nowMs: number): void {
+  for (const [key, entry] of idempotencyEntries.entries()) {
+    if (entry.response && entry.expiresAtMs <= nowMs) {
+      idempotencyEntries.delete(key);
+    }
+  }
+
+  // Beyond the hard limit, the oldest completed entries go first.
+  for (const [key, entry] of idempotencyEntries.entries()) {
+    if (idempotencyEntries.size <= HARD_ENTRY_LIMIT) {
+      break;
+    }
+
+    if (entry.response) {
+      idempotencyEntries.delete(key);
+    }
+  }
+}
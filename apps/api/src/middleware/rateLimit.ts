@@ -0,0 +1,113 @@
+import type { NextFunction, Request, Response } from "express";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getRateLimitStore, type RateLimitWindowCounts } from "../stores/rateLimitStore";
+
+export type RateLimitRule = {
+  // Identifies the caller within the policy, e.g. `ip:<address>` or `user:<id>`.
+  key: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitPolicy = {
+  name: string;
+  message: string;
+  // Returns undefined to let the request through without counting it.
+  resolveRule(req: Request, res: Response): RateLimitRule | undefined;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number;
+  resetMs: number;
+  retryAfterMs: number;
+};
+
+const rateLimitLogger = logger.child({ component: "rate-limit" });
+
+// Sliding window counter: the previous fixed window's hits are weighted by how
+// much of it still overlaps the sliding window. Rejected requests count too, so
+// clients have to back off rather than retry in a tight loop. If the store
+// cannot be reached, requests are let through.
+export function createRateLimit(policy: RateLimitPolicy) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rule = policy.resolveRule(req, res);
+      if (!rule) {
+        next();
+        return;
+      }
+
+      const now = Date.now();
+      const window = Math.floor(now / rule.windowMs);
+      let counts: RateLimitWindowCounts;
+      try {
+        counts = await getRateLimitStore().hit(`${policy.name}:${rule.key}`, window, rule.windowMs);
+      } catch (error) {
+        rateLimitLogger.warn({ err: error, policy: policy.name }, "rate limit store unavailable; allowing request");
+        next();
+        return;
+      }
+
+      const decision = evaluateSlidingWindow(counts, rule.limit, rule.windowMs, now - window * rule.windowMs);
+      setRateLimitHeaders(res, rule, decision);
+      if (!decision.allowed) {
+        res.setHeader("Retry-After", String(Math.ceil(decision.retryAfterMs / 1000)));
+        throw new HttpError(429, policy.message, {
+          retry_after_ms: decision.retryAfterMs,
+          window_ms: rule.windowMs,
+          max_requests: rule.limit
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// `counts.current` includes the request being evaluated.
+export function evaluateSlidingWindow(
+  counts: RateLimitWindowCounts,
+  limit: number,
+  windowMs: number,
+  elapsedMs: number
+): RateLimitDecision {
+  const untilWindowEndMs = windowMs - elapsedMs;
+  const previousWeight = untilWindowEndMs / windowMs;
+  const estimated = counts.previous * previousWeight + counts.current;
+  const allowed = estimated <= limit;
+  const remaining = Math.max(0, Math.floor(limit - estimated));
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (counts.current < limit) {
+      // Wait for the previous window's weight to leave room for one request.
+      retryAfterMs = untilWindowEndMs - ((limit - counts.current - 1) * windowMs) / counts.previous;
+    } else {
+      // Wait for the next window, then for this window's weight to drop.
+      retryAfterMs = untilWindowEndMs + Math.max(0, windowMs * (1 - (limit - 1) / counts.current));
+    }
+  }
+
+  return {
+    allowed,
+    remaining,
+    resetMs: allowed ? untilWindowEndMs : Math.max(untilWindowEndMs, retryAfterMs),
+    retryAfterMs: Math.max(0, Math.ceil(retryAfterMs))
+  };
+}
+
+// IETF RateLimit header fields; RateLimit-Reset is in seconds.
+function setRateLimitHeaders(res: Response, rule: RateLimitRule, decision: RateLimitDecision): void {
+  res.setHeader("RateLimit-Policy", `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`);
+  res.setHeader("RateLimit-Limit", String(rule.limit));
+  res.setHeader("RateLimit-Remaining", String(decision.remaining));
+  res.setHeader("RateLimit-Reset", String(Math.ceil(decision.resetMs / 1000)));
+}
+
+export function getClientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
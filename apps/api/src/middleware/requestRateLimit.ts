@@ -0,0 +1,34 @@
+import { env } from "../config/env";
+import type { AccountTier } from "../external/supabaseAuthClient";
+import { getRequestUserContext } from "./authenticateRequest";
+import { createRateLimit, getClientIp, type RateLimitRule } from "./rateLimit";
+
+// Runs after authenticateRequest. Personal API keys are limited per key so a
+// busy integration does not starve the owner's apps; other verified callers per
+// user id, at their tier's (or active organization's plan's) limit; everything
+// else per IP.
+export const enforceRequestRateLimit = createRateLimit({
+  name: "requests",
+  message: "Rate limit exceeded",
+  resolveRule: (req, res): RateLimitRule => {
+    const user = getRequestUserContext(res);
+    if (!user.isAuthenticated) {
+      return {
+        key: `ip:${getClientIp(req)}`,
+        limit: env.UNAUTH_RATE_LIMIT_MAX_REQUESTS,
+        windowMs: env.UNAUTH_RATE_LIMIT_WINDOW_MS
+      };
+    }
+
+    const key = user.authSource === "api_key" && user.apiKeyId ? `api_key:${user.apiKeyId}` : `user:${user.userId}`;
+    return {
+      key,
+      limit: getTierRequestLimit(user.organization?.plan ?? user.tier ?? "free"),
+      windowMs: env.USER_RATE_LIMIT_WINDOW_MS
+    };
+  }
+});
+
+function getTierRequestLimit(tier: AccountTier): number {
+  return tier === "pro" ? env.USER_RATE_LIMIT_PRO_MAX_REQUESTS : env.USER_RATE_LIMIT_FREE_MAX_REQUESTS;
+}
@@ -0,0 +1,24 @@
+import type { NextFunction, Request, Response } from "express";
+import { HttpError } from "../lib/httpError";
+import type { ApiKeyScope } from "../services/apiKeyService";
+import { getRequestUserContext, type RequestUserContext } from "./authenticateRequest";
+
+// Runs after authenticateRequest; see assertApiKeyScope.
+export function requireApiKeyScope(scope: ApiKeyScope) {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    try {
+      assertApiKeyScope(getRequestUserContext(res), scope);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Requests authenticated with a personal API key must hold `scope`; other
+// credentials pass unchanged.
+export function assertApiKeyScope(user: RequestUserContext, scope: ApiKeyScope): void {
+  if (user.authSource === "api_key" && !user.apiKeyScopes?.includes(scope)) {
+    throw new HttpError(403, "API key is missing a required scope", { scope });
+  }
+}
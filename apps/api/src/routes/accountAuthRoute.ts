@@ -1,16 +1,46 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import { z } from "zod";
+import { env } from "../config/env";
 import {
+  createSupabaseOAuthAuthorization,
+  exchangeSupabaseOAuthCode,
+  readSupabaseTokenSession,
   refreshSupabaseAccountSession,
+  requestSupabaseEmailOtp,
+  requestSupabasePasswordRecovery,
+  resendSupabaseSignupConfirmation,
+  resetSupabasePassword,
   signInWithSupabaseAccount,
   signOutSupabaseAccount,
   signUpWithSupabaseAccount,
+  verifySupabaseEmailOtp,
   type SupabaseAccount,
-  type SupabaseAccountSession
+  type SupabaseAccountSession,
+  type SupabaseEmailToken
 } from "../external/supabaseAuthClient";
 import { HttpError } from "../lib/httpError";
+import {
+  authenticateRequest,
+  getRequestUserContext,
+  type RequestUserContext
+} from "../middleware/authenticateRequest";
 import { enforceProxyApiKey } from "../middleware/enforceProxyApiKey";
 import { enforceAuthRouteRateLimit } from "../middleware/authRouteRateLimit";
+import {
+  changeAccountPassword,
+  deleteAccount,
+  getAccountProfile,
+  signOutSessionsAfterPasswordReset,
+  updateAccountProfile,
+  type AccountProfile
+} from "../services/accountService";
+import {
+  assertSessionActive,
+  listActiveSessions,
+  revokeSession,
+  revokeSignedOutSession,
+  type ApiSession
+} from "../services/sessionService";
 
 const emailSchema = z.string().trim().email().max(254);
 const passwordSchema = z.string().min(8).max(256);
@@ -35,6 +65,70 @@ const signOutSchema = z.object({
   access_token: z.string().trim().min(1).max(4096).optional()
 });
 
+const emailOnlySchema = z.object({
+  email: emailSchema
+});
+
+const emailTokenFields = {
+  token_hash: z.string().trim().min(1).max(4096).optional(),
+  email: emailSchema.optional(),
+  token: z.string().trim().min(1).max(64).optional()
+};
+
+const hasEmailToken = (value: { token_hash?: string; email?: string; token?: string }): boolean =>
+  value.token_hash !== undefined || (value.email !== undefined && value.token !== undefined);
+
+const passwordResetSchema = z
+  .object({
+    ...emailTokenFields,
+    new_password: passwordSchema
+  })
+  .refine(hasEmailToken, { message: "Provide token_hash, or email and token" });
+
+const otpVerifySchema = z
+  .object(emailTokenFields)
+  .refine(hasEmailToken, { message: "Provide token_hash, or email and token" });
+
+const oauthProviderSchema = z.string().trim().toLowerCase().regex(/^[a-z0-9_-]{1,32}$/);
+
+const oauthCallbackSchema = z.object({
+  auth_code: z.string().trim().min(1).max(4096),
+  code_verifier: z.string().trim().min(43).max(128)
+});
+
+const languageCodeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z]{2,3}$/, "Use an ISO 639-1 or 639-3 language code");
+const rewriteModeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, "Use a built-in rewrite mode or a saved style name");
+
+const updateAccountSchema = z
+  .object({
+    profile_name: profileNameSchema.optional(),
+    default_language: languageCodeSchema.nullable().optional(),
+    rewrite_mode: rewriteModeSchema.nullable().optional()
+  })
+  .refine(
+    (value) =>
+      value.profile_name !== undefined || value.default_language !== undefined || value.rewrite_mode !== undefined,
+    { message: "Provide profile_name, default_language or rewrite_mode" }
+  );
+
+const changePasswordSchema = z
+  .object({
+    current_password: z.string().min(1).max(256),
+    new_password: passwordSchema
+  })
+  .refine((value) => value.current_password !== value.new_password, {
+    message: "new_password must differ from current_password",
+    path: ["new_password"]
+  });
+
 export const accountAuthRouter = Router();
 
 accountAuthRouter.post(
@@ -93,6 +187,14 @@ accountAuthRouter.post(
     try {
       const input = parseBody(refreshSchema, req.body, "refresh");
       const session = await refreshSupabaseAccountSession(input.refresh_token);
+      // Refreshed tokens keep their session id, so a revoked device cannot refresh its way back in.
+      if (session.sessionId) {
+        await assertSessionActive({
+          userId: session.userId,
+          sessionId: session.sessionId,
+          userAgent: req.header("user-agent")
+        });
+      }
 
       res.status(200).json({
         request_id: res.locals.requestId,
@@ -119,6 +221,31 @@ accountAuthRouter.post(
 
       await signOutSupabaseAccount(accessToken);
 
+      // Supabase accepted the token, so its claims can be trusted here.
+      const tokenSession = readSupabaseTokenSession(accessToken);
+      if (tokenSession) {
+        await revokeSignedOutSession(tokenSession);
+      }
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.post(
+  "/v1/auth/password/recover",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const input = parseBody(emailOnlySchema, req.body, "password recovery");
+      await requestSupabasePasswordRecovery(input.email);
+
       res.status(200).json({
         request_id: res.locals.requestId,
         success: true
@@ -129,6 +256,288 @@ accountAuthRouter.post(
   }
 );
 
+accountAuthRouter.post(
+  "/v1/auth/password/reset",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const input = parseBody(passwordResetSchema, req.body, "password reset");
+      const session = await resetSupabasePassword({
+        recovery: toEmailToken(input),
+        newPassword: input.new_password
+      });
+      await signOutSessionsAfterPasswordReset(session);
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        account: mapAccount(session),
+        session: mapSession(session)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.post(
+  "/v1/auth/confirmation/resend",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const input = parseBody(emailOnlySchema, req.body, "confirmation resend");
+      await resendSupabaseSignupConfirmation(input.email);
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.post(
+  "/v1/auth/otp",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const input = parseBody(emailOnlySchema, req.body, "sign-in email");
+      await requestSupabaseEmailOtp(input.email);
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.post(
+  "/v1/auth/otp/verify",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const input = parseBody(otpVerifySchema, req.body, "sign-in code");
+      const session = await verifySupabaseEmailOtp(toEmailToken(input));
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        account: mapAccount(session),
+        session: mapSession(session)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.get(
+  "/v1/auth/oauth/:provider/start",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const provider = parseOAuthProvider(req.params.provider);
+      const authorization = createSupabaseOAuthAuthorization(provider);
+
+      res.set("Cache-Control", "no-store");
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        provider,
+        authorize_url: authorization.authorizeUrl,
+        code_verifier: authorization.codeVerifier
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.post(
+  "/v1/auth/oauth/:provider/callback",
+  enforceProxyApiKey,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      parseOAuthProvider(req.params.provider);
+      const input = parseBody(oauthCallbackSchema, req.body, "OAuth callback");
+      const session = await exchangeSupabaseOAuthCode({
+        authCode: input.auth_code,
+        codeVerifier: input.code_verifier
+      });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        account: mapAccount(session),
+        session: mapSession(session)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.get("/v1/account", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const profile = await getAccountProfile({
+      accessToken: requireAccessToken(req.header("authorization")),
+      userId: user.userId
+    });
+
+    res.set("Cache-Control", "no-store");
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      ...mapAccountProfile(profile)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+accountAuthRouter.patch("/v1/account", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const input = parseBody(updateAccountSchema, req.body, "account update");
+    const profile = await updateAccountProfile({
+      accessToken: requireAccessToken(req.header("authorization")),
+      userId: user.userId,
+      profileName: input.profile_name,
+      defaultLanguage: input.default_language,
+      rewriteMode: input.rewrite_mode
+    });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      ...mapAccountProfile(profile)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rate limited like login because it checks the current password.
+accountAuthRouter.post(
+  "/v1/account/password",
+  authenticateRequest,
+  enforceAuthRouteRateLimit,
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = requireAccountUser(res);
+      const input = parseBody(changePasswordSchema, req.body, "password change");
+      await changeAccountPassword({
+        userId: user.userId,
+        sessionId: user.sessionId,
+        accessToken: requireAccessToken(req.header("authorization")),
+        email: user.email,
+        currentPassword: input.current_password,
+        newPassword: input.new_password
+      });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        success: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+accountAuthRouter.delete("/v1/account", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const summary = await deleteAccount(user.userId);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      deleted: true,
+      purged: {
+        usage_records: summary.usageRecords,
+        transcription_jobs: summary.transcriptionJobs
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+accountAuthRouter.get("/v1/auth/sessions", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const sessions = await listActiveSessions(user.userId);
+
+    res.set("Cache-Control", "no-store");
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      sessions: sessions.map((session) => mapApiSession(session, user.sessionId))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+accountAuthRouter.delete(
+  "/v1/auth/sessions/:sessionId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = requireAccountUser(res);
+      await revokeSession({ userId: user.userId, sessionId: req.params.sessionId });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        revoked: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+function parseOAuthProvider(rawProvider: string): string {
+  const parsed = oauthProviderSchema.safeParse(rawProvider);
+  if (!parsed.success || !env.SUPABASE_OAUTH_PROVIDERS.includes(parsed.data)) {
+    throw new HttpError(404, "OAuth provider is not enabled", {
+      supported: env.SUPABASE_OAUTH_PROVIDERS
+    });
+  }
+
+  return parsed.data;
+}
+
+// The schemas guarantee either token_hash or both email and token.
+function toEmailToken(input: { token_hash?: string; email?: string; token?: string }): SupabaseEmailToken {
+  return input.token_hash
+    ? { tokenHash: input.token_hash }
+    : { email: input.email as string, token: input.token as string };
+}
+
+function requireAccountUser(res: Response): RequestUserContext {
+  const user = getRequestUserContext(res);
+  if (!user.isAuthenticated || user.authSource !== "supabase") {
+    throw new HttpError(401, "Account endpoints require an authenticated account");
+  }
+
+  return user;
+}
+
+function requireAccessToken(rawAuthorization: string | undefined): string {
+  const accessToken = extractBearerToken(rawAuthorization);
+  if (!accessToken) {
+    throw new HttpError(401, "Missing Supabase Bearer access token");
+  }
+
+  return accessToken;
+}
+
 function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown, operation: string): z.infer<T> {
   const parsed = schema.safeParse(body);
   if (parsed.success) {
@@ -157,6 +566,41 @@ function mapAccount(account: SupabaseAccount): {
   };
 }
 
+function mapAccountProfile(profile: AccountProfile): {
+  account: ReturnType<typeof mapAccount>;
+  preferences: {
+    default_language: string | null;
+    rewrite_mode: string | null;
+  };
+} {
+  return {
+    account: mapAccount(profile),
+    preferences: {
+      default_language: profile.preferences.defaultLanguage ?? null,
+      rewrite_mode: profile.preferences.rewriteMode ?? null
+    }
+  };
+}
+
+function mapApiSession(
+  session: ApiSession,
+  currentSessionId: string | undefined
+): {
+  id: string;
+  current: boolean;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+} {
+  return {
+    id: session.id,
+    current: session.id === currentSessionId,
+    user_agent: session.userAgent ?? null,
+    created_at: session.createdAt,
+    last_seen_at: session.lastSeenAt
+  };
+}
+
 function mapSession(session: SupabaseAccountSession): {
   access_token: string;
   refresh_token: string;
@@ -0,0 +1,112 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import {
+  authenticateRequest,
+  getRequestUserContext,
+  type RequestUserContext
+} from "../middleware/authenticateRequest";
+import { API_KEY_SCOPES, createApiKey, listApiKeys, revokeApiKey, type ApiKey } from "../services/apiKeyService";
+
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).default(["transcribe"]),
+  expires_in_days: z.number().int().min(1).max(365).optional()
+});
+
+export const apiKeyRouter = Router();
+
+apiKeyRouter.post("/v1/api-keys", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = requireSessionUser(res);
+    const input = parseBody(req.body);
+    const { apiKey, key } = await createApiKey({
+      userId: user.userId,
+      name: input.name,
+      scopes: input.scopes,
+      expiresInDays: input.expires_in_days
+    });
+
+    // The key is only ever shown in this response.
+    res.set("Cache-Control", "no-store");
+    res.status(201).json({
+      request_id: res.locals.requestId,
+      api_key: mapApiKey(apiKey),
+      key
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+apiKeyRouter.get("/v1/api-keys", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const user = requireSessionUser(res);
+    const apiKeys = await listApiKeys(user.userId);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      api_keys: apiKeys.map(mapApiKey)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+apiKeyRouter.delete("/v1/api-keys/:keyId", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = requireSessionUser(res);
+    await revokeApiKey({ userId: user.userId, keyId: req.params.keyId });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      revoked: true
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Keys are managed from a signed-in session so a leaked key cannot mint more.
+function requireSessionUser(res: Response): RequestUserContext {
+  const user = getRequestUserContext(res);
+  if (!user.isAuthenticated || user.authSource !== "supabase") {
+    throw new HttpError(401, "API keys require a signed-in account");
+  }
+
+  return user;
+}
+
+function parseBody(body: unknown): z.infer<typeof apiKeySchema> {
+  const parsed = apiKeySchema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid API key payload", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapApiKey(apiKey: ApiKey): {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+} {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    expires_at: apiKey.expiresAt ?? null,
+    last_used_at: apiKey.lastUsedAt ?? null,
+    created_at: apiKey.createdAt
+  };
+}
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import { handleBillingWebhook } from "../services/billingService";
+
+export const billingWebhookRouter = Router();
+
+// The body arrives unparsed (see createApp) because the signature covers the
+// exact bytes the provider sent.
+billingWebhookRouter.post("/v1/webhooks/billing", async (req, res, next): Promise<void> => {
+  try {
+    const outcome = await handleBillingWebhook({
+      header: (name) => req.header(name),
+      rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+    });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      status: outcome.status,
+      ...(outcome.status === "applied"
+        ? { user_id: outcome.userId, organization_id: outcome.organizationId ?? null, plan: outcome.plan }
+        : { reason: outcome.reason ?? null })
+    });
+  } catch (error) {
+    next(error);
+  }
+});
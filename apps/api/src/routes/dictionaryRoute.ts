@@ -0,0 +1,139 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { authenticateRequest, getRequestUserContext, isAccountUser } from "../middleware/authenticateRequest";
+import { assertApiKeyScope } from "../middleware/requireApiKeyScope";
+import { resolveResourceOwner, type ResourceAccess, type ResourceOwner } from "../services/organizationService";
+import {
+  createDictionaryEntry,
+  deleteDictionaryEntry,
+  listDictionaryEntries,
+  updateDictionaryEntry,
+  type DictionaryEntry
+} from "../services/dictionaryService";
+
+const termSchema = z.string().trim().min(1).max(100);
+const aliasesSchema = z.array(z.string().trim().min(2).max(100)).max(10);
+
+const createEntrySchema = z.object({
+  term: termSchema,
+  aliases: aliasesSchema.optional()
+});
+
+const updateEntrySchema = z
+  .object({
+    term: termSchema.optional(),
+    aliases: aliasesSchema.optional()
+  })
+  .refine((value) => value.term !== undefined || value.aliases !== undefined, {
+    message: "Provide term or aliases"
+  });
+
+export const dictionaryRouter = Router();
+
+dictionaryRouter.get("/v1/dictionary", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "read");
+    const entries = await listDictionaryEntries([owner]);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      entries: entries.map(mapEntry)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+dictionaryRouter.post("/v1/dictionary", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    const input = parseBody(createEntrySchema, req.body);
+    const entry = await createDictionaryEntry({
+      owner,
+      term: input.term,
+      aliases: input.aliases
+    });
+
+    res.status(201).json({
+      request_id: res.locals.requestId,
+      entry: mapEntry(entry)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+dictionaryRouter.patch("/v1/dictionary/:entryId", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    const input = parseBody(updateEntrySchema, req.body);
+    const entry = await updateDictionaryEntry({
+      owner,
+      entryId: req.params.entryId,
+      term: input.term,
+      aliases: input.aliases
+    });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      entry: mapEntry(entry)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+dictionaryRouter.delete("/v1/dictionary/:entryId", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    await deleteDictionaryEntry({ owner, entryId: req.params.entryId });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      deleted: true
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function requireResourceOwner(res: Response, access: ResourceAccess): ResourceOwner {
+  const user = getRequestUserContext(res);
+  if (!isAccountUser(user)) {
+    throw new HttpError(401, "Dictionary requires an authenticated account");
+  }
+
+  assertApiKeyScope(user, access === "read" ? "settings:read" : "settings:write");
+  return resolveResourceOwner(user, access);
+}
+
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid dictionary payload", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapEntry(entry: DictionaryEntry): {
+  id: string;
+  term: string;
+  aliases: string[];
+  created_at: string;
+  updated_at: string;
+} {
+  return {
+    id: entry.id,
+    term: entry.term,
+    aliases: entry.aliases,
+    created_at: entry.createdAt,
+    updated_at: entry.updatedAt
+  };
+}
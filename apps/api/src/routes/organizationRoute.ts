@@ -0,0 +1,348 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import {
+  authenticateRequest,
+  getRequestUserContext,
+  type RequestUserContext
+} from "../middleware/authenticateRequest";
+import {
+  ORGANIZATION_ROLES,
+  acceptInvitation,
+  assertOrganizationRole,
+  createInvitation,
+  createOrganization,
+  getOrganization,
+  listInvitations,
+  listInvitationsForEmail,
+  listMembers,
+  listOrganizations,
+  removeMember,
+  renameOrganization,
+  resolveActiveOrganization,
+  revokeInvitation,
+  updateMemberRole,
+  type ActiveOrganization,
+  type Organization,
+  type OrganizationInvitation,
+  type OrganizationMember,
+  type OrganizationRole
+} from "../services/organizationService";
+
+const organizationNameSchema = z.string().trim().min(1).max(100);
+
+const organizationSchema = z.object({
+  name: organizationNameSchema
+});
+
+const invitationSchema = z.object({
+  email: z.string().trim().email().max(320),
+  role: z.enum(["admin", "member"]).default("member")
+});
+
+const memberRoleSchema = z.object({
+  role: z.enum(ORGANIZATION_ROLES)
+});
+
+export const organizationRouter = Router();
+
+organizationRouter.post("/v1/organizations", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const input = parseBody(organizationSchema, req.body);
+    const organization = await createOrganization({ userId: user.userId, email: user.email, name: input.name });
+
+    res.status(201).json({
+      request_id: res.locals.requestId,
+      organization: mapOrganization(organization, organization.role)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+organizationRouter.get("/v1/organizations", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const organizations = await listOrganizations(user.userId);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      organizations: organizations.map((organization) => mapOrganization(organization, organization.role))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+organizationRouter.get(
+  "/v1/organizations/:organizationId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const membership = await requireMembership(res, req.params.organizationId);
+      const [organization, members] = await Promise.all([
+        getOrganization(membership.id),
+        listMembers(membership.id)
+      ]);
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        organization: mapOrganization(organization, membership.role),
+        members: members.map(mapMember)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.patch(
+  "/v1/organizations/:organizationId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const membership = await requireMembership(res, req.params.organizationId);
+      assertOrganizationRole(membership, ["owner", "admin"]);
+      const input = parseBody(organizationSchema, req.body);
+      const organization = await renameOrganization({ organizationId: membership.id, name: input.name });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        organization: mapOrganization(organization, membership.role)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.patch(
+  "/v1/organizations/:organizationId/members/:userId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const membership = await requireMembership(res, req.params.organizationId);
+      const input = parseBody(memberRoleSchema, req.body);
+      const member = await updateMemberRole({
+        organization: membership,
+        userId: req.params.userId,
+        role: input.role
+      });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        member: mapMember(member)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.delete(
+  "/v1/organizations/:organizationId/members/:userId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = requireAccountUser(res);
+      const membership = await requireMembership(res, req.params.organizationId);
+      await removeMember({ organization: membership, actorUserId: user.userId, userId: req.params.userId });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        removed: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.get(
+  "/v1/organizations/:organizationId/invitations",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const membership = await requireMembership(res, req.params.organizationId);
+      assertOrganizationRole(membership, ["owner", "admin"]);
+      const invitations = await listInvitations(membership.id);
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        invitations: invitations.map(mapInvitation)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.post(
+  "/v1/organizations/:organizationId/invitations",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = requireAccountUser(res);
+      const membership = await requireMembership(res, req.params.organizationId);
+      const input = parseBody(invitationSchema, req.body);
+      const invitation = await createInvitation({
+        organization: membership,
+        invitedBy: user.userId,
+        email: input.email,
+        role: input.role
+      });
+
+      res.status(201).json({
+        request_id: res.locals.requestId,
+        invitation: mapInvitation(invitation)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+organizationRouter.delete(
+  "/v1/organizations/:organizationId/invitations/:invitationId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const membership = await requireMembership(res, req.params.organizationId);
+      await revokeInvitation({ organization: membership, invitationId: req.params.invitationId });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        revoked: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Pending invitations addressed to the caller's verified email.
+organizationRouter.get("/v1/organization-invitations", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const user = requireAccountUser(res);
+    const invitations = user.email ? await listInvitationsForEmail(user.email) : [];
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      invitations: invitations.map(mapInvitation)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+organizationRouter.post(
+  "/v1/organization-invitations/:invitationId/accept",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = requireAccountUser(res);
+      const organization = await acceptInvitation({
+        invitationId: req.params.invitationId,
+        userId: user.userId,
+        email: user.email
+      });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        organization: mapOrganization(organization, organization.role)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+function requireAccountUser(res: Response): RequestUserContext {
+  const user = getRequestUserContext(res);
+  if (!user.isAuthenticated || user.authSource !== "supabase") {
+    throw new HttpError(401, "Organizations require an authenticated account");
+  }
+
+  return user;
+}
+
+async function requireMembership(res: Response, organizationId: string): Promise<ActiveOrganization> {
+  const user = requireAccountUser(res);
+  if (user.organization?.id === organizationId) {
+    return user.organization;
+  }
+
+  return resolveActiveOrganization({ organizationId, userId: user.userId });
+}
+
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid organization payload", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapOrganization(
+  organization: Organization,
+  role: OrganizationRole
+): {
+  id: string;
+  name: string;
+  plan: string;
+  role: string;
+  created_at: string;
+  updated_at: string;
+} {
+  return {
+    id: organization.id,
+    name: organization.name,
+    plan: organization.plan,
+    role,
+    created_at: organization.createdAt,
+    updated_at: organization.updatedAt
+  };
+}
+
+function mapMember(member: OrganizationMember): {
+  user_id: string;
+  email: string | null;
+  role: string;
+  joined_at: string;
+} {
+  return {
+    user_id: member.userId,
+    email: member.email ?? null,
+    role: member.role,
+    joined_at: member.joinedAt
+  };
+}
+
+function mapInvitation(invitation: OrganizationInvitation): {
+  id: string;
+  organization_id: string;
+  organization_name?: string;
+  email: string;
+  role: string;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+} {
+  return {
+    id: invitation.id,
+    organization_id: invitation.organizationId,
+    organization_name: invitation.organizationName,
+    email: invitation.email,
+    role: invitation.role,
+    invited_by: invitation.invitedBy,
+    created_at: invitation.createdAt,
+    expires_at: invitation.expiresAt
+  };
+}
@@ -0,0 +1,152 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { authenticateRequest, getRequestUserContext, isAccountUser } from "../middleware/authenticateRequest";
+import { assertApiKeyScope } from "../middleware/requireApiKeyScope";
+import { resolveResourceOwner, type ResourceAccess, type ResourceOwner } from "../services/organizationService";
+import {
+  BUILT_IN_REWRITE_MODES,
+  createRewriteStyle,
+  deleteRewriteStyle,
+  listRewriteStyles,
+  updateRewriteStyle,
+  type RewriteStyle
+} from "../services/rewriteStyleService";
+
+const styleNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, "Use 1-40 lowercase letters, digits, '_' or '-'");
+const styleInstructionsSchema = z.string().trim().min(1).max(2000);
+
+const createStyleSchema = z.object({
+  name: styleNameSchema,
+  instructions: styleInstructionsSchema
+});
+
+const updateStyleSchema = z
+  .object({
+    name: styleNameSchema.optional(),
+    instructions: styleInstructionsSchema.optional()
+  })
+  .refine((value) => value.name !== undefined || value.instructions !== undefined, {
+    message: "Provide name or instructions"
+  });
+
+export const rewriteStyleRouter = Router();
+
+rewriteStyleRouter.get("/v1/rewrite-styles", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "read");
+    const styles = await listRewriteStyles(owner);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      built_in_modes: BUILT_IN_REWRITE_MODES,
+      styles: styles.map(mapStyle)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+rewriteStyleRouter.post("/v1/rewrite-styles", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    const input = parseBody(createStyleSchema, req.body);
+    const style = await createRewriteStyle({
+      owner,
+      name: input.name,
+      instructions: input.instructions
+    });
+
+    res.status(201).json({
+      request_id: res.locals.requestId,
+      style: mapStyle(style)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+rewriteStyleRouter.patch(
+  "/v1/rewrite-styles/:styleId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const owner = requireResourceOwner(res, "write");
+      const input = parseBody(updateStyleSchema, req.body);
+      const style = await updateRewriteStyle({
+        owner,
+        styleId: req.params.styleId,
+        name: input.name,
+        instructions: input.instructions
+      });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        style: mapStyle(style)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+rewriteStyleRouter.delete(
+  "/v1/rewrite-styles/:styleId",
+  authenticateRequest,
+  async (req, res, next): Promise<void> => {
+    try {
+      const owner = requireResourceOwner(res, "write");
+      await deleteRewriteStyle({ owner, styleId: req.params.styleId });
+
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        deleted: true
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+function requireResourceOwner(res: Response, access: ResourceAccess): ResourceOwner {
+  const user = getRequestUserContext(res);
+  if (!isAccountUser(user)) {
+    throw new HttpError(401, "Rewrite styles require an authenticated account");
+  }
+
+  assertApiKeyScope(user, access === "read" ? "settings:read" : "settings:write");
+  return resolveResourceOwner(user, access);
+}
+
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid rewrite style payload", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapStyle(style: RewriteStyle): {
+  id: string;
+  name: string;
+  instructions: string;
+  created_at: string;
+  updated_at: string;
+} {
+  return {
+    id: style.id,
+    name: style.name,
+    instructions: style.instructions,
+    created_at: style.createdAt,
+    updated_at: style.updatedAt
+  };
+}
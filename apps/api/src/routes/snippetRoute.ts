@@ -0,0 +1,142 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { authenticateRequest, getRequestUserContext, isAccountUser } from "../middleware/authenticateRequest";
+import { assertApiKeyScope } from "../middleware/requireApiKeyScope";
+import { resolveResourceOwner, type ResourceAccess, type ResourceOwner } from "../services/organizationService";
+import { createSnippet, deleteSnippet, listSnippets, updateSnippet, type Snippet } from "../services/snippetService";
+
+const triggerSchema = z.string().trim().min(2).max(80);
+const expansionSchema = z.string().min(1).max(5000);
+
+const createSnippetSchema = z.object({
+  trigger: triggerSchema,
+  expansion: expansionSchema,
+  enabled: z.boolean().optional()
+});
+
+const updateSnippetSchema = z
+  .object({
+    trigger: triggerSchema.optional(),
+    expansion: expansionSchema.optional(),
+    enabled: z.boolean().optional()
+  })
+  .refine(
+    (value) => value.trigger !== undefined || value.expansion !== undefined || value.enabled !== undefined,
+    { message: "Provide trigger, expansion or enabled" }
+  );
+
+export const snippetRouter = Router();
+
+snippetRouter.get("/v1/snippets", authenticateRequest, async (_req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "read");
+    const snippets = await listSnippets([owner]);
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      snippets: snippets.map(mapSnippet)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+snippetRouter.post("/v1/snippets", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    const input = parseBody(createSnippetSchema, req.body);
+    const snippet = await createSnippet({
+      owner,
+      trigger: input.trigger,
+      expansion: input.expansion,
+      enabled: input.enabled
+    });
+
+    res.status(201).json({
+      request_id: res.locals.requestId,
+      snippet: mapSnippet(snippet)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+snippetRouter.patch("/v1/snippets/:snippetId", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    const input = parseBody(updateSnippetSchema, req.body);
+    const snippet = await updateSnippet({
+      owner,
+      snippetId: req.params.snippetId,
+      trigger: input.trigger,
+      expansion: input.expansion,
+      enabled: input.enabled
+    });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      snippet: mapSnippet(snippet)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+snippetRouter.delete("/v1/snippets/:snippetId", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const owner = requireResourceOwner(res, "write");
+    await deleteSnippet({ owner, snippetId: req.params.snippetId });
+
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      deleted: true
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function requireResourceOwner(res: Response, access: ResourceAccess): ResourceOwner {
+  const user = getRequestUserContext(res);
+  if (!isAccountUser(user)) {
+    throw new HttpError(401, "Snippets require an authenticated account");
+  }
+
+  assertApiKeyScope(user, access === "read" ? "settings:read" : "settings:write");
+  return resolveResourceOwner(user, access);
+}
+
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid snippet payload", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapSnippet(snippet: Snippet): {
+  id: string;
+  scope: string;
+  trigger: string;
+  expansion: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+} {
+  return {
+    id: snippet.id,
+    scope: snippet.scope,
+    trigger: snippet.trigger,
+    expansion: snippet.expansion,
+    enabled: snippet.enabled,
+    created_at: snippet.createdAt,
+    updated_at: snippet.updatedAt
+  };
+}
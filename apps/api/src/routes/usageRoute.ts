@@ -0,0 +1,152 @@
+import { Router } from "express";
+import { z } from "zod";
+import { HttpError } from "../lib/httpError";
+import { authenticateRequest, getRequestUserContext, isAccountUser } from "../middleware/authenticateRequest";
+import { enforceAdminApiKey } from "../middleware/enforceAdminApiKey";
+import { assertApiKeyScope } from "../middleware/requireApiKeyScope";
+import { resolveQuotaScope, type QuotaUsage, type QuotaWindowStatus } from "../services/quotaService";
+import { getGlobalDailySpend } from "../services/spendService";
+import { buildGlobalDailyUsage, buildUsageSummary, type UsageTotals } from "../services/usageSummaryService";
+
+const querySchema = z.object({
+  days: z.coerce.number().int().min(1).max(92).default(30)
+});
+
+export const usageRouter = Router();
+
+usageRouter.get("/v1/usage", authenticateRequest, async (req, res, next): Promise<void> => {
+  try {
+    const user = getRequestUserContext(res);
+    if (!isAccountUser(user)) {
+      throw new HttpError(401, "Usage summary requires an authenticated account");
+    }
+
+    assertApiKeyScope(user, "usage:read");
+
+    const input = parseQuery(req.query);
+    const organization = user.organization;
+    const scope = await resolveQuotaScope({ userId: user.userId, tier: user.tier, organization });
+    const summary = await buildUsageSummary({
+      userId: user.userId,
+      organizationId: organization?.id,
+      scope,
+      days: input.days
+    });
+    // Only owners and admins see how the pooled usage splits across members.
+    const members = organization && organization.role !== "member" ? summary.members : undefined;
+
+    res.set("Cache-Control", "no-store");
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      user_id: user.userId,
+      organization_id: organization?.id ?? null,
+      tier: scope.tier,
+      billing_period: {
+        starts_at: summary.billingPeriod.startsAt.toISOString(),
+        ends_at: summary.billingPeriod.endsAt.toISOString(),
+        totals: mapTotals(summary.billingPeriod.totals)
+      },
+      daily: summary.daily.map((day) => ({
+        date: day.date,
+        totals: mapTotals(day.totals)
+      })),
+      quota: {
+        daily: mapQuotaWindow(summary.quota.daily),
+        monthly: mapQuotaWindow(summary.quota.monthly),
+        exceeded: summary.quota.violation !== undefined
+      },
+      ...(members
+        ? {
+            members: members.map((member) => ({
+              user_id: member.userId,
+              totals: mapTotals(member.totals)
+            }))
+          }
+        : {})
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Spend across all callers, transcription jobs included. `today` also counts
+// usage events still buffered in this process; `daily` is built from persisted ones.
+usageRouter.get("/v1/admin/spend", enforceAdminApiKey, async (req, res, next): Promise<void> => {
+  try {
+    const input = parseQuery(req.query);
+    const [today, daily] = await Promise.all([getGlobalDailySpend(), buildGlobalDailyUsage({ days: input.days })]);
+
+    res.set("Cache-Control", "no-store");
+    res.status(200).json({
+      request_id: res.locals.requestId,
+      today: {
+        date: today.date,
+        spend_usd: today.spendUsd,
+        cap_usd: today.capUsd,
+        remaining_usd: today.remainingUsd,
+        resets_at: today.resetsAt.toISOString()
+      },
+      daily: daily.map((day) => ({
+        date: day.date,
+        totals: mapTotals(day.totals)
+      }))
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function parseQuery(query: unknown): z.infer<typeof querySchema> {
+  const parsed = querySchema.safeParse(query);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  throw new HttpError(400, "Invalid usage query parameters", {
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message
+    }))
+  });
+}
+
+function mapTotals(totals: UsageTotals): Record<string, number | null> {
+  return {
+    requests: totals.requests,
+    skipped_requests: totals.skippedRequests,
+    audio_bytes: totals.audioBytes,
+    audio_seconds: totals.audioSeconds,
+    raw_characters: totals.rawCharacters,
+    clean_characters: totals.cleanCharacters,
+    average_stt_latency_ms: totals.averageSttLatencyMs,
+    average_rewrite_latency_ms: totals.averageRewriteLatencyMs,
+    estimated_cost_usd: totals.estimatedCostUsd,
+    avoided_cost_usd: totals.avoidedCostUsd
+  };
+}
+
+function mapQuotaWindow(status: QuotaWindowStatus): {
+  starts_at: string;
+  resets_at: string;
+  requests: ReturnType<typeof mapQuotaUsage>;
+  audio_seconds: ReturnType<typeof mapQuotaUsage>;
+} {
+  return {
+    starts_at: status.startsAt.toISOString(),
+    resets_at: status.resetsAt.toISOString(),
+    requests: mapQuotaUsage(status.requests),
+    audio_seconds: mapQuotaUsage(status.audioSeconds)
+  };
+}
+
+function mapQuotaUsage(usage: QuotaUsage): {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+} {
+  return {
+    limit: usage.limit,
+    used: usage.used,
+    remaining: usage.remaining
+  };
+}
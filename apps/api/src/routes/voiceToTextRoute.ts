@@ -1,11 +1,47 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import multer from "multer";
+import { z } from "zod";
 import { env } from "../config/env";
+import { checkWebhookTarget } from "../external/webhookClient";
+import { inspectAudioUpload } from "../lib/audioFormat";
+import { buildCaptionCues, formatSrt, formatWebVtt } from "../lib/captions";
 import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
 import { parseBoolean, parseNumber } from "../lib/parse";
-import { authenticateRequest, getRequestUserContext } from "../middleware/authenticateRequest";
-import { enforceUnauthenticatedRateLimit } from "../middleware/unauthenticatedRateLimit";
-import { processVoiceToText } from "../services/voiceToTextService";
+import { openEventStream, wantsEventStream, writeEvent } from "../lib/serverSentEvents";
+import {
+  authenticateRequest,
+  getRequestUserContext,
+  isAccountUser,
+  type RequestUserContext
+} from "../middleware/authenticateRequest";
+import { enforceDailySpendCap } from "../middleware/enforceDailySpendCap";
+import { enforceIdempotencyKey } from "../middleware/idempotencyKey";
+import { requireApiKeyScope } from "../middleware/requireApiKeyScope";
+import { enforceRequestRateLimit } from "../middleware/requestRateLimit";
+import { enforceUsageQuota } from "../middleware/enforceUsageQuota";
+import {
+  isRewriteProviderName,
+  REWRITE_PROVIDER_NAMES,
+  type RewriteProviderName
+} from "../services/rewriteProviders";
+import { getAccountPreferences, type AccountPreferences } from "../services/accountService";
+import { reportMeteredUsage } from "../services/billingService";
+import { listDictionaryEntries } from "../services/dictionaryService";
+import type { ResourceOwner } from "../services/organizationService";
+import { resolveRewriteMode, type ResolvedRewriteMode } from "../services/rewriteStyleService";
+import { listSnippets } from "../services/snippetService";
+import { isSttProviderName, STT_PROVIDER_NAMES, type SttProviderName } from "../services/sttProviders";
+import {
+  enqueueTranscriptionJob,
+  getTranscriptionJob,
+  toTranscriptionJobPayload
+} from "../services/transcriptionJobService";
+import {
+  processVoiceToText,
+  type VoiceToTextInput,
+  type VoiceToTextResult
+} from "../services/voiceToTextService";
 import { recordUsageEvent } from "../services/usageMeteringService";
 
 const upload = multer({
@@ -15,87 +51,166 @@ const upload = multer({
   }
 });
 
+const streamLogger = logger.child({ component: "voice-to-text-stream" });
+const settingsLogger = logger.child({ component: "voice-to-text-settings" });
+
+const jobIdSchema = z.string().uuid();
+
+const OUTPUT_FORMATS = ["json", "srt", "vtt", "text"] as const;
+
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Media types accepted in `Accept`; JSON comes first so `*/*` and a missing
+// header keep the default response.
+const OUTPUT_FORMAT_MEDIA_TYPES: Record<OutputFormat, string> = {
+  json: "application/json",
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  text: "text/plain"
+};
+
 export const voiceToTextRouter = Router();
 
 voiceToTextRouter.post(
   "/v1/voice-to-text",
   authenticateRequest,
-  enforceUnauthenticatedRateLimit,
+  requireApiKeyScope("transcribe"),
+  enforceRequestRateLimit,
   upload.single("file"),
+  enforceIdempotencyKey,
+  enforceDailySpendCap,
+  enforceUsageQuota,
   async (req, res, next): Promise<void> => {
-    try {
-      if (!req.file) {
-        throw new HttpError(400, "Missing multipart file field 'file'");
-      }
+    let streaming = false;
 
-      const user = getRequestUserContext(res);
-      const userId = user.userId;
-      const providerOverrides = extractProviderOverrides(req);
+    try {
+      const outputFormat = parseOutputFormat(req);
+      const prepared = await prepareVoiceToTextRequest(req, res, outputFormat);
+      const requestId = prepared.requestId;
+      const startedAt = Date.now();
 
-      if (!user.isAuthenticated && providerOverrides && !env.ALLOW_UNAUTHENTICATED_BYOK) {
-        throw new HttpError(403, "Bring-your-own-keys requests require authentication in this environment");
+      res.vary("Accept");
+      streaming = wantsEventStream(req);
+      if (streaming && outputFormat !== "json") {
+        throw new HttpError(400, "output_format is not supported for streaming responses", {
+          output_format: outputFormat
+        });
       }
 
-      const requestId = String(res.locals.requestId ?? "unknown");
-      const startedAt = Date.now();
+      if (streaming) {
+        openEventStream(res);
+      }
 
       const voiceToTextResult = await processVoiceToText({
-        fileBuffer: req.file.buffer,
-        fileName: req.file.originalname || "audio.wav",
-        mimeType: req.file.mimetype,
-        requestId,
-        userId,
-        sttOptions: {
-          modelId: stringOrUndefined(req.body.model_id),
-          languageCode: stringOrUndefined(req.body.language_code),
-          temperature: parseNumber(req.body.temperature),
-          diarize: parseBoolean(req.body.diarize),
-          tagAudioEvents: parseBoolean(req.body.tag_audio_events),
-          keyterms: stringOrUndefined(req.body.keyterms)
-        },
-        providerOverrides
+        ...prepared.input,
+        onRawTranscript: streaming
+          ? (event) => {
+              writeEvent(res, "raw", {
+                request_id: requestId,
+                transcript: {
+                  raw_text: event.rawText
+                },
+                provider: {
+                  stt: {
+                    name: event.sttProvider,
+                    model_id: event.sttModelId
+                  }
+                },
+                timing: {
+                  stt_latency_ms: event.sttLatencyMs
+                }
+              });
+            }
+          : undefined
       });
 
       const totalLatencyMs = Date.now() - startedAt;
+      await recordVoiceToTextUsage(prepared, voiceToTextResult, totalLatencyMs);
 
-      await recordUsageEvent({
-        requestId,
-        userId,
-        audioBytes: req.file.size,
-        rawCharacters: voiceToTextResult.rawText.length,
-        cleanCharacters: voiceToTextResult.cleanText.length,
-        sttLatencyMs: voiceToTextResult.sttLatencyMs,
-        rewriteLatencyMs: voiceToTextResult.rewriteLatencyMs,
-        isAuthenticated: user.isAuthenticated,
-        authSource: user.authSource
-      });
+      if (outputFormat !== "json") {
+        res
+          .status(200)
+          .type(OUTPUT_FORMAT_MEDIA_TYPES[outputFormat])
+          .send(renderTranscript(outputFormat, voiceToTextResult));
+        return;
+      }
 
-      res.status(200).json({
-        request_id: requestId,
-        transcript: {
-          raw_text: voiceToTextResult.rawText,
-          clean_text: voiceToTextResult.cleanText
-        },
-        provider: {
-          stt: {
-            name: "elevenlabs",
-            model_id: voiceToTextResult.sttModelId
+      const responseBody = buildVoiceToTextResponseBody(requestId, voiceToTextResult, totalLatencyMs);
+
+      if (streaming) {
+        writeEvent(res, voiceToTextResult.rewriteStatus === "fallback_raw" ? "fallback" : "clean", {
+          request_id: requestId,
+          transcript: responseBody.transcript,
+          provider: {
+            rewrite: responseBody.provider.rewrite
           },
-          rewrite: {
-            name: "openai",
-            model_id: voiceToTextResult.rewriteModel,
-            status: voiceToTextResult.rewriteStatus
-          }
-        },
-        timing: {
-          stt_latency_ms: voiceToTextResult.sttLatencyMs,
-          rewrite_latency_ms: voiceToTextResult.rewriteLatencyMs,
-          total_latency_ms: totalLatencyMs
+          dictionary_replacements: responseBody.dictionary_replacements,
+          snippets_applied: responseBody.snippets_applied,
+          warnings: responseBody.warnings
+        });
+        writeEvent(res, "done", {
+          request_id: requestId,
+          timing: responseBody.timing
+        });
+        res.end();
+        return;
+      }
+
+      res.status(200).json(responseBody);
+    } catch (error) {
+      if (streaming && res.headersSent) {
+        writeStreamError(res, error);
+        return;
+      }
+
+      next(error);
+    }
+  }
+);
+
+voiceToTextRouter.post(
+  "/v1/transcription-jobs",
+  authenticateRequest,
+  requireApiKeyScope("transcribe"),
+  enforceRequestRateLimit,
+  enforceDailySpendCap,
+  enforceUsageQuota,
+  upload.single("file"),
+  async (req, res, next): Promise<void> => {
+    try {
+      const prepared = await prepareVoiceToTextRequest(req, res);
+      const callbackUrl = await parseCallbackUrl(req.body.callback_url);
+
+      const job = await enqueueTranscriptionJob({
+        ownerId: prepared.user.userId,
+        requestId: prepared.requestId,
+        fileName: prepared.input.fileName,
+        audioBytes: prepared.audioBytes,
+        callbackUrl,
+        usage: {
+          userId: prepared.user.userId,
+          organizationId: prepared.user.organization?.id,
+          audioSeconds: prepared.input.audioDurationSeconds ?? prepared.input.estimatedAudioDurationSeconds ?? 0
         },
-        warnings:
-          voiceToTextResult.rewriteStatus === "fallback_raw" && voiceToTextResult.rewriteError
-            ? [{ code: "OPENAI_REWRITE_FALLBACK", message: voiceToTextResult.rewriteError }]
-            : []
+        run: async () => {
+          const startedAt = Date.now();
+          const voiceToTextResult = await processVoiceToText({
+            ...prepared.input,
+            sttTimeoutMs: env.TRANSCRIPTION_JOB_STT_TIMEOUT_MS,
+            rewriteTimeoutMs: env.TRANSCRIPTION_JOB_REWRITE_TIMEOUT_MS,
+            rewriteMaxOutputTokens: env.TRANSCRIPTION_JOB_REWRITE_MAX_OUTPUT_TOKENS
+          });
+          const totalLatencyMs = Date.now() - startedAt;
+          await recordVoiceToTextUsage(prepared, voiceToTextResult, totalLatencyMs);
+
+          return buildVoiceToTextResponseBody(prepared.requestId, voiceToTextResult, totalLatencyMs);
+        }
+      });
+
+      res.location(`/v1/transcription-jobs/${job.id}`);
+      res.status(202).json({
+        request_id: prepared.requestId,
+        job: toTranscriptionJobPayload(job)
       });
     } catch (error) {
       next(error);
@@ -103,6 +218,311 @@ voiceToTextRouter.post(
   }
 );
 
+voiceToTextRouter.get(
+  "/v1/transcription-jobs/:jobId",
+  authenticateRequest,
+  requireApiKeyScope("transcribe"),
+  async (req, res, next): Promise<void> => {
+    try {
+      const user = getRequestUserContext(res);
+      const jobId = jobIdSchema.safeParse(req.params.jobId);
+      if (!jobId.success) {
+        throw new HttpError(404, "Transcription job not found");
+      }
+
+      const job = await getTranscriptionJob(jobId.data, user.userId);
+
+      res.set("Cache-Control", "no-store");
+      res.status(200).json({
+        request_id: res.locals.requestId,
+        job: toTranscriptionJobPayload(job)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+type PreparedVoiceToTextRequest = {
+  user: RequestUserContext;
+  requestId: string;
+  audioBytes: number;
+  input: VoiceToTextInput;
+};
+
+// Validates the multipart request and loads the caller's saved settings before
+// any provider call, so bad input fails fast in both sync and job mode.
+async function prepareVoiceToTextRequest(
+  req: Request,
+  res: Response,
+  outputFormat: OutputFormat = "json"
+): Promise<PreparedVoiceToTextRequest> {
+  if (!req.file) {
+    throw new HttpError(400, "Missing multipart file field 'file'");
+  }
+
+  const audio = inspectAudioUpload(req.file.buffer);
+  const user = getRequestUserContext(res);
+  const userId = user.userId;
+  const providerOverrides = extractProviderOverrides(req);
+
+  if (!user.isAuthenticated && providerOverrides && !env.ALLOW_UNAUTHENTICATED_BYOK) {
+    throw new HttpError(403, "Bring-your-own-keys requests require authentication in this environment");
+  }
+
+  const sttProvider = parseSttProvider(req.body.stt_provider);
+  const rewriteProvider = parseRewriteProvider(req.body.rewrite_provider);
+  // Saved styles, snippets and dictionaries belong to verified accounts only;
+  // an active organization adds its shared ones.
+  const accountUserId = isAccountUser(user) ? userId : undefined;
+  const owners: ResourceOwner[] = accountUserId ? [{ userId: accountUserId }] : [];
+  if (accountUserId && user.organization) {
+    owners.push({ organizationId: user.organization.id });
+  }
+
+  const requestId = String(res.locals.requestId ?? "unknown");
+  const requestedRewriteMode = stringOrUndefined(req.body.rewrite_mode)?.toLowerCase();
+  const preferencesLookup: Promise<AccountPreferences> = accountUserId
+    ? getAccountPreferences(accountUserId).catch(fallBackOnStoreError(requestId, "preferences", {}))
+    : Promise.resolve({});
+  const [preferences, rewriteMode, snippets, dictionary] = await Promise.all([
+    preferencesLookup,
+    preferencesLookup.then((saved) => resolveRequestRewriteMode(requestedRewriteMode, saved, owners, requestId)),
+    listSnippets(owners).catch(fallBackOnStoreError(requestId, "snippets", [])),
+    listDictionaryEntries(owners).catch(fallBackOnStoreError(requestId, "dictionary", []))
+  ]);
+
+  return {
+    user,
+    requestId,
+    audioBytes: req.file.size,
+    input: {
+      fileBuffer: req.file.buffer,
+      // Providers infer the codec from the name and type, so both follow the sniffed format.
+      fileName: withFileExtension(req.file.originalname, audio.extension),
+      mimeType: audio.mimeType,
+      audioDurationSeconds: audio.durationSeconds,
+      estimatedAudioDurationSeconds: audio.estimatedDurationSeconds,
+      pcm: audio.pcm,
+      requestId,
+      userId,
+      cacheable: accountUserId !== undefined,
+      sttOptions: {
+        modelId: stringOrUndefined(req.body.model_id),
+        languageCode: stringOrUndefined(req.body.language_code) ?? preferences.defaultLanguage,
+        temperature: parseNumber(req.body.temperature),
+        diarize: parseBoolean(req.body.diarize),
+        tagAudioEvents: parseBoolean(req.body.tag_audio_events),
+        keyterms: parseKeyterms(req.body.keyterms),
+        // Captions are cut from word timings, so ask for them explicitly.
+        timestampsGranularity: outputFormat === "srt" || outputFormat === "vtt" ? "word" : undefined
+      },
+      sttProvider,
+      rewriteProvider,
+      rewriteMode,
+      snippets,
+      dictionary,
+      providerOverrides
+    }
+  };
+}
+
+async function recordVoiceToTextUsage(
+  prepared: PreparedVoiceToTextRequest,
+  result: VoiceToTextResult,
+  totalLatencyMs: number
+): Promise<void> {
+  await recordUsageEvent({
+    requestId: prepared.requestId,
+    userId: prepared.user.userId,
+    organizationId: prepared.user.organization?.id,
+    audioBytes: prepared.audioBytes,
+    audioSeconds: result.audioSeconds,
+    rawCharacters: result.rawText.length,
+    cleanCharacters: result.cleanText.length,
+    sttLatencyMs: result.sttLatencyMs,
+    rewriteLatencyMs: result.rewriteLatencyMs,
+    totalLatencyMs,
+    isAuthenticated: prepared.user.isAuthenticated,
+    authSource: prepared.user.authSource,
+    skipReason: result.skipReason,
+    providerCostEstimateUsd: result.providerCostEstimateUsd,
+    avoidedProviderCostEstimateUsd: result.avoidedProviderCostEstimateUsd
+  });
+
+  // Only account holders are billing customers; skipped requests are not billed.
+  // This runs for synchronous requests and when a transcription job completes.
+  if (isAccountUser(prepared.user) && !result.skipReason) {
+    reportMeteredUsage({
+      userId: prepared.user.userId,
+      organizationId: prepared.user.organization?.id,
+      requestId: prepared.requestId,
+      audioSeconds: result.audioSeconds ?? 0,
+      providerCostEstimateUsd: result.providerCostEstimateUsd,
+      occurredAt: new Date()
+    });
+  }
+}
+
+function buildVoiceToTextResponseBody(
+  requestId: string,
+  result: VoiceToTextResult,
+  totalLatencyMs: number
+): {
+  request_id: string;
+  transcript: {
+    raw_text: string;
+    clean_text: string;
+    segments: Array<{ speaker: string | null; start: number; end: number; text: string }>;
+    words: Array<{ text: string; start: number; end: number; speaker: string | null }>;
+    audio_events: Array<{ text: string; start: number; end: number; speaker: string | null }>;
+  };
+  provider: {
+    stt: Record<string, unknown>;
+    rewrite: Record<string, unknown>;
+  };
+  timing: Record<string, number | string>;
+  dictionary_replacements: Array<{ id: string; term: string; count: number }>;
+  snippets_applied: Array<{ id: string; trigger: string; scope: string; count: number }>;
+  warnings: Array<{ code: string; message: string }>;
+} {
+  return {
+    request_id: requestId,
+    transcript: {
+      raw_text: result.rawText,
+      clean_text: result.cleanText,
+      segments: result.timeline.segments.map((segment) => ({
+        speaker: segment.speaker ?? null,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text
+      })),
+      words: result.timeline.words.map((word) => ({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        speaker: word.speaker ?? null
+      })),
+      audio_events: result.timeline.audioEvents.map((audioEvent) => ({
+        text: audioEvent.text,
+        start: audioEvent.start,
+        end: audioEvent.end,
+        speaker: audioEvent.speaker ?? null
+      }))
+    },
+    provider: {
+      stt: {
+        name: result.sttProvider,
+        model_id: result.sttModelId,
+        status: result.skipReason ? "skipped" : "completed",
+        failover_from: result.sttFailover?.from
+      },
+      rewrite: {
+        name: result.rewriteProvider,
+        mode: result.rewriteMode,
+        model_id: result.rewriteModel,
+        status: result.rewriteStatus
+      }
+    },
+    timing: {
+      stt_latency_ms: result.sttLatencyMs,
+      rewrite_latency_ms: result.rewriteLatencyMs,
+      total_latency_ms: totalLatencyMs,
+      cache_status: result.cacheStatus
+    },
+    dictionary_replacements: result.dictionaryReplacements.map((replacement) => ({
+      id: replacement.entryId,
+      term: replacement.term,
+      count: replacement.count
+    })),
+    snippets_applied: result.snippetMatches.map((match) => ({
+      id: match.snippetId,
+      trigger: match.trigger,
+      scope: match.scope,
+      count: match.count
+    })),
+    warnings: buildWarnings(result)
+  };
+}
+
+function buildWarnings(result: VoiceToTextResult): Array<{ code: string; message: string }> {
+  const warnings: Array<{ code: string; message: string }> = [];
+
+  if (result.skipReason === "no_speech") {
+    warnings.push({
+      code: "NO_SPEECH_DETECTED",
+      message: "No speech was detected in the audio; transcription was skipped"
+    });
+  }
+
+  if (result.sttFailover) {
+    warnings.push({
+      code: "STT_PROVIDER_FAILOVER",
+      message: `${result.sttFailover.from} failed (${result.sttFailover.error}); transcribed with ${result.sttProvider}`
+    });
+  }
+
+  if (result.rewriteStatus === "fallback_raw" && result.rewriteError) {
+    warnings.push({ code: "OPENAI_REWRITE_FALLBACK", message: result.rewriteError });
+  }
+
+  return warnings;
+}
+
+// Captions are built from the provider's word timings (segment timings when a
+// provider only returns those); plain text is the clean transcript.
+function renderTranscript(format: Exclude<OutputFormat, "json">, result: VoiceToTextResult): string {
+  if (format === "text") {
+    return result.cleanText ? `${result.cleanText}\n` : "";
+  }
+
+  const timedWords =
+    result.timeline.words.length > 0
+      ? result.timeline.words
+      : result.timeline.segments.map((segment) => ({ ...segment }));
+  if (timedWords.length === 0 && result.rawText.length > 0) {
+    throw new HttpError(502, "STT provider did not return word timestamps", {
+      stt_provider: result.sttProvider,
+      model_id: result.sttModelId,
+      output_format: format
+    });
+  }
+
+  const cues = buildCaptionCues(timedWords);
+  return format === "srt" ? formatSrt(cues) : formatWebVtt(cues);
+}
+
+// Once the event stream is open the status line is already sent, so failures
+// are reported as a terminal `error` event instead of through errorHandler.
+function writeStreamError(res: Response, error: unknown): void {
+  const statusCode = error instanceof HttpError ? error.statusCode : 500;
+  const message = error instanceof Error ? error.message : "Unexpected server error";
+
+  streamLogger.warn(
+    {
+      requestId: res.locals.requestId,
+      statusCode,
+      errorMessage: message
+    },
+    "voice-to-text stream failed"
+  );
+
+  writeEvent(res, "error", {
+    request_id: res.locals.requestId,
+    error: {
+      status_code: statusCode,
+      message,
+      details: error instanceof HttpError ? error.details : undefined
+    }
+  });
+  res.end();
+}
+
+function withFileExtension(fileName: string | undefined, extension: string): string {
+  const baseName = (fileName ?? "").trim().replace(/\.[^./\\]*$/, "") || "audio";
+  return `${baseName}.${extension}`;
+}
+
 function stringOrUndefined(value: unknown): string | undefined {
   if (typeof value !== "string") {
     return undefined;
@@ -112,6 +532,144 @@ function stringOrUndefined(value: unknown): string | undefined {
   return normalized.length > 0 ? normalized : undefined;
 }
 
+// Accepts a JSON array or a comma/newline separated list.
+function parseKeyterms(value: unknown): string[] | undefined {
+  const normalized = stringOrUndefined(value);
+  if (!normalized) {
+    return undefined;
+  }
+
+  let keyterms: unknown[] = normalized.split(/[,\n]/);
+  if (normalized.startsWith("[")) {
+    try {
+      const parsed: unknown = JSON.parse(normalized);
+      keyterms = Array.isArray(parsed) ? parsed : keyterms;
+    } catch {
+      // Not JSON; fall back to the delimited form.
+    }
+  }
+
+  const terms = keyterms.map((keyterm) => String(keyterm).trim()).filter((keyterm) => keyterm.length > 0);
+  return terms.length > 0 ? terms : undefined;
+}
+
+// `output_format` wins over `Accept`; unknown field values are rejected rather
+// than silently answered with JSON.
+function parseOutputFormat(req: Request): OutputFormat {
+  const field = stringOrUndefined(req.body.output_format)?.toLowerCase();
+  if (field) {
+    if (!(OUTPUT_FORMATS as readonly string[]).includes(field)) {
+      throw new HttpError(400, "Unsupported output_format", {
+        output_format: field,
+        supported: OUTPUT_FORMATS
+      });
+    }
+
+    return field as OutputFormat;
+  }
+
+  const accepted = req.accepts(OUTPUT_FORMATS.map((format) => OUTPUT_FORMAT_MEDIA_TYPES[format]));
+  const match = OUTPUT_FORMATS.find((format) => OUTPUT_FORMAT_MEDIA_TYPES[format] === accepted);
+  return match ?? "json";
+}
+
+// Job callbacks must use HTTPS outside local development and tests.
+async function parseCallbackUrl(value: unknown): Promise<string | undefined> {
+  const normalized = stringOrUndefined(value);
+  if (!normalized) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(normalized);
+  } catch {
+    throw new HttpError(400, "Invalid callback_url", { callback_url: normalized });
+  }
+
+  if (env.TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE) {
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new HttpError(400, "Invalid callback_url", {
+        callback_url: normalized,
+        allowed_protocols: ["https:", "http:"]
+      });
+    }
+  } else {
+    const problem = await checkWebhookTarget(url);
+    if (problem) {
+      throw new HttpError(400, "Invalid callback_url", { callback_url: normalized, reason: problem });
+    }
+  }
+
+  return url.toString();
+}
+
+// Saved settings only refine a request, so a store outage falls back to the
+// defaults rather than failing the dictation.
+function fallBackOnStoreError<T>(requestId: string, setting: string, fallback: T): (error: unknown) => T {
+  return (error) => {
+    settingsLogger.warn(
+      { requestId, setting, errorMessage: error instanceof Error ? error.message : String(error) },
+      "saved settings lookup failed; using defaults"
+    );
+    return fallback;
+  };
+}
+
+async function resolveRequestRewriteMode(
+  requestedMode: string | undefined,
+  preferences: AccountPreferences,
+  owners: readonly ResourceOwner[],
+  requestId: string
+): Promise<ResolvedRewriteMode> {
+  try {
+    return await resolveRewriteMode({ mode: requestedMode ?? preferences.rewriteMode, owners });
+  } catch (error) {
+    if (!(error instanceof HttpError) || error.statusCode !== 400) {
+      return fallBackOnStoreError(requestId, "rewrite_style", resolveRewriteMode({}))(error);
+    }
+
+    // A saved default can name a style deleted since; fall back instead of failing every request.
+    if (!requestedMode && preferences.rewriteMode) {
+      return resolveRewriteMode({ owners });
+    }
+
+    throw error;
+  }
+}
+
+function parseSttProvider(value: unknown): SttProviderName | undefined {
+  const normalized = stringOrUndefined(value)?.toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (!isSttProviderName(normalized)) {
+    throw new HttpError(400, "Unsupported stt_provider", {
+      stt_provider: normalized,
+      supported: STT_PROVIDER_NAMES
+    });
+  }
+
+  return normalized;
+}
+
+function parseRewriteProvider(value: unknown): RewriteProviderName | undefined {
+  const normalized = stringOrUndefined(value)?.toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+
+  if (!isRewriteProviderName(normalized)) {
+    throw new HttpError(400, "Unsupported rewrite_provider", {
+      rewrite_provider: normalized,
+      supported: REWRITE_PROVIDER_NAMES
+    });
+  }
+
+  return normalized;
+}
+
 function extractProviderOverrides(req: {
   header(name: string): string | undefined;
 }): {
@@ -0,0 +1,204 @@
+import {
+  deleteSupabaseUser,
+  getSupabaseAccount,
+  signInWithSupabaseAccount,
+  signOutSupabaseAccount,
+  updateSupabaseAccount,
+  type AccountTier,
+  type SupabaseAccount,
+  type SupabaseAccountSession
+} from "../external/supabaseAuthClient";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+import { deleteApiKeysForUser } from "./apiKeyService";
+import { assertOrganizationsCanBeLeft, removeUserFromOrganizations } from "./organizationService";
+import { resolveRewriteMode } from "./rewriteStyleService";
+import { revokeOtherSessions, revokeSessionsForDeletedAccount } from "./sessionService";
+import { deleteTranscriptionJobsForOwner } from "./transcriptionJobService";
+import { purgeUsageRecords } from "./usageMeteringService";
+
+const PROFILES_TABLE = "profiles";
+
+const accountLogger = logger.child({ component: "account" });
+
+// Defaults applied to dictation requests that do not set the field themselves.
+export type AccountPreferences = {
+  defaultLanguage?: string;
+  rewriteMode?: string;
+};
+
+export type AccountProfile = SupabaseAccount & {
+  preferences: AccountPreferences;
+};
+
+export type AccountDeletionSummary = {
+  usageRecords: number;
+  transcriptionJobs: number;
+};
+
+export async function getAccountProfile(input: { accessToken: string; userId: string }): Promise<AccountProfile> {
+  const [account, preferences] = await Promise.all([
+    getSupabaseAccount(input.accessToken),
+    getAccountPreferences(input.userId)
+  ]);
+
+  return { ...account, preferences };
+}
+
+// `null` clears a preference; omitted fields are left unchanged.
+export async function updateAccountProfile(input: {
+  accessToken: string;
+  userId: string;
+  profileName?: string;
+  defaultLanguage?: string | null;
+  rewriteMode?: string | null;
+}): Promise<AccountProfile> {
+  if (input.rewriteMode) {
+    // Rejects names that are neither built in nor one of the caller's saved styles.
+    await resolveRewriteMode({ mode: input.rewriteMode, owners: [{ userId: input.userId }] });
+  }
+
+  const account = input.profileName
+    ? await updateSupabaseAccount(input.accessToken, { profileName: input.profileName })
+    : await getSupabaseAccount(input.accessToken);
+
+  const fields: StoredRow = {};
+  if (input.profileName) {
+    fields.display_name = input.profileName;
+  }
+
+  if (input.defaultLanguage !== undefined) {
+    fields.default_language = input.defaultLanguage;
+  }
+
+  if (input.rewriteMode !== undefined) {
+    fields.rewrite_mode = input.rewriteMode;
+  }
+
+  await saveProfile(input.userId, fields);
+  return { ...account, preferences: await getAccountPreferences(input.userId) };
+}
+
+export async function changeAccountPassword(input: {
+  userId: string;
+  sessionId?: string;
+  accessToken: string;
+  email?: string;
+  currentPassword: string;
+  newPassword: string;
+}): Promise<void> {
+  if (!input.email) {
+    throw new HttpError(400, "Password changes require an account with an email address");
+  }
+
+  let verification: { accessToken: string };
+  try {
+    verification = await signInWithSupabaseAccount({ email: input.email, password: input.currentPassword });
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 401) {
+      throw new HttpError(403, "Current password is incorrect");
+    }
+
+    throw error;
+  }
+
+  // The sign-in only checked the current password; do not leave its session behind.
+  await signOutSupabaseAccount(verification.accessToken).catch((error: unknown) => {
+    accountLogger.warn(
+      { userId: input.userId, errorMessage: error instanceof Error ? error.message : String(error) },
+      "failed to sign out the password verification session"
+    );
+  });
+
+  await updateSupabaseAccount(input.accessToken, { password: input.newPassword });
+  await signOutOtherSessions({ accessToken: input.accessToken, userId: input.userId, sessionId: input.sessionId });
+}
+
+// Whoever knew the old password loses access: other sessions lose their refresh
+// tokens in Supabase and are revoked for API requests. The password has already
+// changed by now, so failures are logged rather than reported to the caller.
+export async function signOutOtherSessions(input: {
+  accessToken: string;
+  userId: string;
+  sessionId?: string;
+}): Promise<void> {
+  try {
+    await signOutSupabaseAccount(input.accessToken, "others");
+    await revokeOtherSessions({ userId: input.userId, keepSessionId: input.sessionId });
+  } catch (error) {
+    accountLogger.error(
+      { userId: input.userId, errorMessage: error instanceof Error ? error.message : String(error) },
+      "failed to sign out other sessions after a password change"
+    );
+  }
+}
+
+// Password resets keep only the session the recovery token was exchanged for.
+export async function signOutSessionsAfterPasswordReset(session: SupabaseAccountSession): Promise<void> {
+  await signOutOtherSessions({ accessToken: session.accessToken, userId: session.userId, sessionId: session.sessionId });
+}
+
+// Deletes the Supabase user first so a failure leaves the account usable rather
+// than half-deleted. Saved styles, snippets and dictionary entries go with the
+// `auth.users` cascade; usage rows and jobs are removed here because buffered
+// usage events and job rows are not covered by it. API keys and organization
+// memberships are removed too so the in-memory store forgets them, and the
+// account's sessions are revoked so its unexpired access tokens stop working.
+export async function deleteAccount(userId: string): Promise<AccountDeletionSummary> {
+  await assertOrganizationsCanBeLeft(userId);
+  await deleteSupabaseUser(userId);
+
+  const [usageRecords, transcriptionJobs] = await Promise.all([
+    purgeUsageRecords(userId),
+    deleteTranscriptionJobsForOwner(userId)
+  ]);
+  await Promise.all([
+    deleteApiKeysForUser(userId),
+    revokeSessionsForDeletedAccount(userId),
+    removeUserFromOrganizations(userId),
+    getTableStore(PROFILES_TABLE).delete([{ column: "id", operator: "eq", value: userId }])
+  ]);
+
+  accountLogger.info({ userId, usageRecords, transcriptionJobs }, "account deleted");
+  return { usageRecords, transcriptionJobs };
+}
+
+export async function getAccountPreferences(userId: string): Promise<AccountPreferences> {
+  const [row] = await getTableStore(PROFILES_TABLE).select({
+    columns: ["default_language", "rewrite_mode"],
+    filters: [{ column: "id", operator: "eq", value: userId }],
+    limit: 1
+  });
+
+  return {
+    defaultLanguage: readOptionalString(row?.default_language),
+    rewriteMode: readOptionalString(row?.rewrite_mode)
+  };
+}
+
+// Plan recorded by the billing webhook, for callers without an access token.
+export async function getAccountPlan(userId: string): Promise<AccountTier> {
+  const [row] = await getTableStore(PROFILES_TABLE).select({
+    columns: ["plan"],
+    filters: [{ column: "id", operator: "eq", value: userId }],
+    limit: 1
+  });
+
+  return row?.plan === "pro" ? "pro" : "free";
+}
+
+// The signup trigger creates the profile row, but it is inserted here when
+// missing (for example with the in-memory store).
+export async function saveProfile(userId: string, fields: StoredRow): Promise<void> {
+  const profiles = getTableStore(PROFILES_TABLE);
+  const patch = { ...fields, updated_at: new Date().toISOString() };
+  const updated = await profiles.update([{ column: "id", operator: "eq", value: userId }], patch);
+  if (updated.length === 0) {
+    await profiles.insert([{ id: userId, ...patch }]);
+  }
+}
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
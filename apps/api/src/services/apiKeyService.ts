@@ -0,0 +1,157 @@
+import { createHash, randomBytes } from "node:crypto";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+
+const API_KEYS_TABLE = "api_keys";
+const MAX_API_KEYS_PER_USER = 25;
+const LAST_USED_UPDATE_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys look like `pts_<43 base64url characters>`; the prefix tells them apart
+// from Supabase access tokens in the Authorization header.
+export const API_KEY_PREFIX = "pts_";
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export const API_KEY_SCOPES = ["transcribe", "usage:read", "settings:read", "settings:write"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  // First characters of the key, shown so users can tell their keys apart.
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+};
+
+export type VerifiedApiKey = {
+  keyId: string;
+  userId: string;
+  scopes: ApiKeyScope[];
+};
+
+const apiKeyLogger = logger.child({ component: "api-keys" });
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// Only the SHA-256 hash of the key is stored; the key itself is returned once.
+export async function createApiKey(input: {
+  userId: string;
+  name: string;
+  scopes: readonly ApiKeyScope[];
+  expiresInDays?: number;
+}): Promise<{ apiKey: ApiKey; key: string }> {
+  const existing = await listApiKeys(input.userId);
+  if (existing.length >= MAX_API_KEYS_PER_USER) {
+    throw new HttpError(409, "API key limit reached", { limit: MAX_API_KEYS_PER_USER });
+  }
+
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const now = new Date();
+  const [row] = await getTableStore(API_KEYS_TABLE).insert([
+    {
+      user_id: input.userId,
+      name: input.name,
+      key_prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+      key_hash: hashApiKey(key),
+      scopes: [...new Set(input.scopes)],
+      expires_at: input.expiresInDays ? new Date(now.getTime() + input.expiresInDays * DAY_MS).toISOString() : null,
+      last_used_at: null,
+      revoked_at: null,
+      created_at: now.toISOString()
+    }
+  ]);
+
+  apiKeyLogger.info({ userId: input.userId, apiKeyId: row.id, scopes: row.scopes }, "api key created");
+  return { apiKey: mapApiKeyRow(row), key };
+}
+
+// Lists keys that have not been revoked, including expired ones.
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const rows = await getTableStore(API_KEYS_TABLE).select({
+    filters: [
+      { column: "user_id", operator: "eq", value: userId },
+      { column: "revoked_at", operator: "is", value: null }
+    ],
+    orderBy: { column: "created_at", ascending: false }
+  });
+
+  return rows.map(mapApiKeyRow);
+}
+
+export async function revokeApiKey(input: { userId: string; keyId: string }): Promise<void> {
+  const revoked = await getTableStore(API_KEYS_TABLE).update(
+    [
+      { column: "id", operator: "eq", value: input.keyId },
+      { column: "user_id", operator: "eq", value: input.userId },
+      { column: "revoked_at", operator: "is", value: null }
+    ],
+    { revoked_at: new Date().toISOString() }
+  );
+  if (revoked.length === 0) {
+    throw new HttpError(404, "API key not found");
+  }
+
+  apiKeyLogger.info({ userId: input.userId, apiKeyId: input.keyId }, "api key revoked");
+}
+
+// Every request reads the key row, so revocations apply immediately.
+export async function verifyApiKey(key: string, now = new Date()): Promise<VerifiedApiKey> {
+  const keys = getTableStore(API_KEYS_TABLE);
+  const [row] = await keys.select({
+    filters: [{ column: "key_hash", operator: "eq", value: hashApiKey(key) }],
+    limit: 1
+  });
+  if (!row || row.revoked_at) {
+    throw new HttpError(401, "Invalid or revoked API key");
+  }
+
+  if (typeof row.expires_at === "string" && row.expires_at <= now.toISOString()) {
+    throw new HttpError(401, "API key has expired");
+  }
+
+  const lastUsedMs = typeof row.last_used_at === "string" ? Date.parse(row.last_used_at) : 0;
+  if (now.getTime() - lastUsedMs >= LAST_USED_UPDATE_INTERVAL_MS) {
+    await keys.update([{ column: "id", operator: "eq", value: String(row.id) }], { last_used_at: now.toISOString() });
+  }
+
+  return {
+    keyId: String(row.id),
+    userId: String(row.user_id),
+    scopes: readScopes(row.scopes)
+  };
+}
+
+export async function deleteApiKeysForUser(userId: string): Promise<void> {
+  await getTableStore(API_KEYS_TABLE).delete([{ column: "user_id", operator: "eq", value: userId }]);
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key, "utf8").digest("hex");
+}
+
+function readScopes(value: unknown): ApiKeyScope[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.filter((scope): scope is ApiKeyScope => (API_KEY_SCOPES as readonly unknown[]).includes(scope));
+}
+
+function mapApiKeyRow(row: StoredRow): ApiKey {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    prefix: String(row.key_prefix),
+    scopes: readScopes(row.scopes),
+    expiresAt: typeof row.expires_at === "string" ? row.expires_at : undefined,
+    lastUsedAt: typeof row.last_used_at === "string" ? row.last_used_at : undefined,
+    createdAt: String(row.created_at)
+  };
+}
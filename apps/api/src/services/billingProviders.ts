@@ -0,0 +1,194 @@
+import { env } from "../config/env";
+import { ingestPolarUsageEvents, verifyPolarWebhook } from "../external/polarClient";
+import type { AccountTier } from "../external/supabaseAuthClient";
+import { verifyWebhookSignature } from "../external/webhookClient";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+
+export const BILLING_PROVIDER_NAMES = ["polar", "local"] as const;
+
+export type BillingProviderName = (typeof BILLING_PROVIDER_NAMES)[number];
+
+export const LOCAL_BILLING_SIGNATURE_HEADER = "x-billing-signature";
+
+export type BillingWebhookRequest = {
+  header(name: string): string | undefined;
+  rawBody: Buffer;
+};
+
+// A change to the plan a user, or an organization when `organizationId` is
+// set, is entitled to, derived from a provider event.
+export type SubscriptionEvent = {
+  // Deliveries repeating an already applied id are ignored.
+  eventId?: string;
+  eventType: string;
+  userId: string;
+  organizationId?: string;
+  plan: AccountTier;
+  subscriptionId?: string;
+  // When the subscription was last changed (ISO 8601), to order late deliveries.
+  modifiedAt?: string;
+};
+
+export type MeteredUsage = {
+  userId: string;
+  // Organization subscriptions are billed to the organization instead of the user.
+  organizationId?: string;
+  requestId: string;
+  audioSeconds: number;
+  providerCostEstimateUsd: number;
+  occurredAt: Date;
+};
+
+export type BillingProvider = {
+  name: BillingProviderName;
+  // Verifies the delivery and returns undefined for events that do not affect a plan.
+  parseWebhook(request: BillingWebhookRequest): SubscriptionEvent | undefined;
+  reportUsage(usage: readonly MeteredUsage[]): Promise<void>;
+};
+
+// Subscription states that still grant the paid plan. Polar keeps a
+// subscription `active` until the end of the period after a cancellation.
+const PAID_SUBSCRIPTION_STATUSES = new Set(["active", "trialing"]);
+
+const billingLogger = logger.child({ component: "billing" });
+
+const polarBillingProvider: BillingProvider = {
+  name: "polar",
+  parseWebhook(request) {
+    const payload = verifyPolarWebhook({
+      headers: {
+        id: request.header("webhook-id"),
+        timestamp: request.header("webhook-timestamp"),
+        signature: request.header("webhook-signature")
+      },
+      rawBody: request.rawBody,
+      secret: requireWebhookSecret(),
+      toleranceSeconds: env.BILLING_WEBHOOK_TOLERANCE_SECONDS
+    });
+
+    const eventType = readString(payload, ["type"]);
+    if (!eventType?.startsWith("subscription.")) {
+      return undefined;
+    }
+
+    // The checkout links the Polar customer to our user through its external id.
+    const userId =
+      readString(payload, ["data", "customer", "external_id"]) ?? readString(payload, ["data", "metadata", "user_id"]);
+    const status = readString(payload, ["data", "status"]);
+    if (!userId || !status) {
+      return undefined;
+    }
+
+    return {
+      eventId: request.header("webhook-id"),
+      eventType,
+      userId,
+      organizationId: readString(payload, ["data", "metadata", "organization_id"]),
+      plan: PAID_SUBSCRIPTION_STATUSES.has(status) ? "pro" : "free",
+      subscriptionId: readString(payload, ["data", "id"]),
+      // `modified_at` is null until the subscription first changes.
+      modifiedAt: readTimestamp(payload, ["data", "modified_at"]) ?? readTimestamp(payload, ["data", "created_at"])
+    };
+  },
+  async reportUsage(usage) {
+    if (!env.POLAR_ACCESS_TOKEN) {
+      return;
+    }
+
+    await ingestPolarUsageEvents(
+      usage.map((entry) => ({
+        name: "transcription",
+        externalCustomerId: entry.organizationId ?? entry.userId,
+        metadata: {
+          request_id: entry.requestId,
+          audio_seconds: entry.audioSeconds,
+          provider_cost_usd: entry.providerCostEstimateUsd
+        },
+        timestamp: entry.occurredAt.toISOString()
+      }))
+    );
+  }
+};
+
+// Stand-in provider for local development and tests. Deliveries are
+// `{ "id", "type", "data": { "user_id", "organization_id"?, "plan", "modified_at"? } }` signed like the API's own
+// outgoing webhooks (see signWebhookBody) in `x-billing-signature`.
+const localBillingProvider: BillingProvider = {
+  name: "local",
+  parseWebhook(request) {
+    verifyWebhookSignature({
+      body: request.rawBody,
+      signatureHeader: request.header(LOCAL_BILLING_SIGNATURE_HEADER),
+      secret: requireWebhookSecret(),
+      toleranceSeconds: env.BILLING_WEBHOOK_TOLERANCE_SECONDS
+    });
+
+    const payload = parseJsonBody(request.rawBody);
+    const eventType = readString(payload, ["type"]);
+    const userId = readString(payload, ["data", "user_id"]);
+    const plan = readString(payload, ["data", "plan"]);
+    if (!eventType || !userId || (plan !== "free" && plan !== "pro")) {
+      return undefined;
+    }
+
+    return {
+      eventId: readString(payload, ["id"]),
+      eventType,
+      userId,
+      organizationId: readString(payload, ["data", "organization_id"]),
+      plan,
+      modifiedAt: readTimestamp(payload, ["data", "modified_at"])
+    };
+  },
+  async reportUsage(usage) {
+    billingLogger.debug(
+      { provider: "local", requestIds: usage.map((entry) => entry.requestId) },
+      "metered usage reported"
+    );
+  }
+};
+
+const billingProviderRegistry: Record<BillingProviderName, BillingProvider> = {
+  polar: polarBillingProvider,
+  local: localBillingProvider
+};
+
+// Returns undefined when billing is disabled (BILLING_PROVIDER=none).
+export function getBillingProvider(): BillingProvider | undefined {
+  return env.BILLING_PROVIDER === "none" ? undefined : billingProviderRegistry[env.BILLING_PROVIDER];
+}
+
+function requireWebhookSecret(): string {
+  if (!env.BILLING_WEBHOOK_SECRET) {
+    throw new HttpError(500, "Billing webhook configuration is incomplete");
+  }
+
+  return env.BILLING_WEBHOOK_SECRET;
+}
+
+function parseJsonBody(rawBody: Buffer): unknown {
+  try {
+    return JSON.parse(rawBody.toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Billing webhook body is not valid JSON");
+  }
+}
+
+function readString(value: unknown, path: readonly string[]): string | undefined {
+  let current = value;
+  for (const key of path) {
+    if (!current || typeof current !== "object" || Array.isArray(current)) {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return typeof current === "string" && current.trim().length > 0 ? current.trim() : undefined;
+}
+
+function readTimestamp(value: unknown, path: readonly string[]): string | undefined {
+  const timestamp = Date.parse(readString(value, path) ?? "");
+  return Number.isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+}
@@ -0,0 +1,220 @@
+import { randomUUID } from "node:crypto";
+import { env } from "../config/env";
+import { updateSupabaseUserAppMetadata, type AccountTier } from "../external/supabaseAuthClient";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type RowFilter } from "../stores/tableStore";
+import { saveProfile } from "./accountService";
+import {
+  getBillingProvider,
+  type BillingProviderName,
+  type BillingWebhookRequest,
+  type MeteredUsage,
+  type SubscriptionEvent
+} from "./billingProviders";
+import { setOrganizationPlan } from "./organizationService";
+
+const BILLING_EVENTS_TABLE = "billing_events";
+
+const billingLogger = logger.child({ component: "billing" });
+
+export type BillingWebhookOutcome =
+  | { status: "applied"; userId: string; organizationId?: string; plan: AccountTier }
+  | { status: "ignored"; reason?: "duplicate" | "stale" };
+
+export async function handleBillingWebhook(request: BillingWebhookRequest): Promise<BillingWebhookOutcome> {
+  const provider = getBillingProvider();
+  if (!provider) {
+    throw new HttpError(404, "Billing webhooks are not enabled");
+  }
+
+  const event = provider.parseWebhook(request);
+  if (!event) {
+    billingLogger.debug({ provider: provider.name }, "billing webhook ignored");
+    return { status: "ignored" };
+  }
+
+  const eventKey = event.eventId ? `${provider.name}:${event.eventId}` : undefined;
+  if (eventKey) {
+    const [seen] = await getTableStore(BILLING_EVENTS_TABLE).select({
+      filters: [{ column: "id", operator: "eq", value: eventKey }],
+      limit: 1
+    });
+    if (seen) {
+      billingLogger.debug({ provider: provider.name, eventId: event.eventId }, "duplicate billing webhook ignored");
+      return { status: "ignored", reason: "duplicate" };
+    }
+  }
+
+  if (await isSupersededEvent(event)) {
+    billingLogger.info(
+      { provider: provider.name, eventId: event.eventId, eventType: event.eventType, modifiedAt: event.modifiedAt },
+      "billing event older than the last applied one ignored"
+    );
+    return { status: "ignored", reason: "stale" };
+  }
+
+  if (event.organizationId) {
+    // Organization plans are read from the organization row on each request.
+    await setOrganizationPlan(event.organizationId, event.plan);
+  } else {
+    await setAccountPlan(event.userId, event.plan);
+  }
+
+  billingLogger.info(
+    {
+      provider: provider.name,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      subscriptionId: event.subscriptionId,
+      userId: event.userId,
+      organizationId: event.organizationId,
+      plan: event.plan
+    },
+    "account plan updated from billing event"
+  );
+  await recordAppliedEvent(provider.name, eventKey, event);
+
+  return { status: "applied", userId: event.userId, organizationId: event.organizationId, plan: event.plan };
+}
+
+type PendingMeteredUsage = {
+  usage: MeteredUsage;
+  attempts: number;
+};
+
+let pendingUsage: PendingMeteredUsage[] = [];
+let reportTimer: NodeJS.Timeout | undefined;
+let activeReport: Promise<void> | undefined;
+
+// Billing must never fail a dictation: usage is buffered and sent to the
+// provider in batches, on the same schedule as the usage log flushes.
+export function reportMeteredUsage(usage: MeteredUsage): void {
+  if (!getBillingProvider()) {
+    return;
+  }
+
+  pendingUsage.push({ usage, attempts: 0 });
+  if (pendingUsage.length >= env.USAGE_FLUSH_BATCH_SIZE) {
+    void flushMeteredUsage();
+    return;
+  }
+
+  scheduleUsageReport();
+}
+
+export async function flushMeteredUsage(): Promise<void> {
+  if (activeReport) {
+    return activeReport;
+  }
+
+  activeReport = drainPendingUsage().finally(() => {
+    activeReport = undefined;
+  });
+  return activeReport;
+}
+
+async function drainPendingUsage(): Promise<void> {
+  if (reportTimer) {
+    clearTimeout(reportTimer);
+    reportTimer = undefined;
+  }
+
+  const provider = getBillingProvider();
+  while (provider && pendingUsage.length > 0) {
+    const batch = pendingUsage.splice(0, env.USAGE_FLUSH_BATCH_SIZE);
+
+    try {
+      await provider.reportUsage(batch.map((entry) => entry.usage));
+    } catch (error) {
+      const retryable = batch
+        .map((entry) => ({ usage: entry.usage, attempts: entry.attempts + 1 }))
+        .filter((entry) => entry.attempts < env.USAGE_FLUSH_MAX_ATTEMPTS);
+      pendingUsage = [...retryable, ...pendingUsage];
+      billingLogger.warn(
+        {
+          provider: provider.name,
+          requestIds: batch.map((entry) => entry.usage.requestId),
+          droppedReports: batch.length - retryable.length,
+          errorMessage: error instanceof Error ? error.message : String(error)
+        },
+        "failed to report metered usage to billing provider"
+      );
+      scheduleUsageReport();
+      return;
+    }
+  }
+}
+
+function scheduleUsageReport(): void {
+  if (reportTimer) {
+    return;
+  }
+
+  reportTimer = setTimeout(() => {
+    reportTimer = undefined;
+    void flushMeteredUsage();
+  }, env.USAGE_FLUSH_INTERVAL_MS);
+  reportTimer.unref();
+}
+
+// Providers may deliver events late or out of order, e.g. a `subscription.updated`
+// after the `subscription.revoked` that followed it. An event is superseded when
+// one applied to the same user or organization was modified later.
+async function isSupersededEvent(event: SubscriptionEvent): Promise<boolean> {
+  if (!event.modifiedAt) {
+    return false;
+  }
+
+  const [latest] = await getTableStore(BILLING_EVENTS_TABLE).select({
+    filters: [...eventSubjectFilters(event), { column: "modified_at", operator: "gte", value: event.modifiedAt }],
+    orderBy: { column: "modified_at", ascending: false },
+    limit: 1
+  });
+  return typeof latest?.modified_at === "string" && Date.parse(latest.modified_at) > Date.parse(event.modifiedAt);
+}
+
+async function recordAppliedEvent(
+  providerName: BillingProviderName,
+  eventKey: string | undefined,
+  event: SubscriptionEvent
+): Promise<void> {
+  await getTableStore(BILLING_EVENTS_TABLE).insert([
+    {
+      id: eventKey ?? `${providerName}:${randomUUID()}`,
+      provider: providerName,
+      event_type: event.eventType,
+      user_id: event.userId,
+      organization_id: event.organizationId ?? null,
+      subscription_id: event.subscriptionId ?? null,
+      plan: event.plan,
+      modified_at: event.modifiedAt ?? null,
+      created_at: new Date().toISOString()
+    }
+  ]);
+}
+
+function eventSubjectFilters(event: SubscriptionEvent): RowFilter[] {
+  return event.organizationId
+    ? [{ column: "organization_id", operator: "eq", value: event.organizationId }]
+    : [
+        { column: "user_id", operator: "eq", value: event.userId },
+        { column: "organization_id", operator: "is", value: null }
+      ];
+}
+
+// `profiles.plan` is the record of truth; the tier the API enforces is read
+// from the access token's app_metadata, which is updated alongside it. When
+// neither can be stored durably the delivery fails, so the provider retries it.
+async function setAccountPlan(userId: string, plan: AccountTier): Promise<void> {
+  const canUpdateAppMetadata = Boolean(env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY);
+  if (env.DATA_STORE_DRIVER !== "supabase" && !canUpdateAppMetadata) {
+    throw new HttpError(503, "Account plans cannot be stored without SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  await saveProfile(userId, { plan });
+
+  if (canUpdateAppMetadata) {
+    await updateSupabaseUserAppMetadata(userId, { plan });
+  }
+}
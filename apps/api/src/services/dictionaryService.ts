@@ -0,0 +1,197 @@
+import { HttpError } from "../lib/httpError";
+import { normalizePhrase, replacePhrases } from "../lib/phraseMatching";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+import { buildOwnerColumns, buildOwnerFilters, type ResourceOwner } from "./organizationService";
+
+const DICTIONARY_TABLE = "dictionary_entries";
+const MAX_DICTIONARY_ENTRIES_PER_OWNER = 500;
+// ElevenLabs accepts at most 100 keyterms per request.
+const MAX_KEYTERMS = 100;
+const MAX_KEYTERM_CHARS = 50;
+
+export type DictionaryEntry = {
+  id: string;
+  term: string;
+  // Spoken or commonly misrecognized forms rewritten to `term` after STT.
+  aliases: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DictionaryReplacement = {
+  entryId: string;
+  term: string;
+  count: number;
+};
+
+export type DictionaryReplacementResult = {
+  text: string;
+  replacements: DictionaryReplacement[];
+};
+
+// Dictation passes both the caller and their active organization.
+export async function listDictionaryEntries(owners: readonly ResourceOwner[] = []): Promise<DictionaryEntry[]> {
+  const rows = await Promise.all(
+    owners.map((owner) =>
+      getTableStore(DICTIONARY_TABLE).select({
+        filters: buildOwnerFilters(owner),
+        orderBy: { column: "term", ascending: true }
+      })
+    )
+  );
+
+  return rows.flat().map(mapDictionaryRow);
+}
+
+export async function createDictionaryEntry(input: {
+  owner: ResourceOwner;
+  term: string;
+  aliases?: string[];
+}): Promise<DictionaryEntry> {
+  const term = input.term.trim();
+  const existing = await listDictionaryEntries([input.owner]);
+
+  if (existing.some((entry) => entry.term.toLowerCase() === term.toLowerCase())) {
+    throw new HttpError(409, "A dictionary entry with this term already exists", { term });
+  }
+
+  if (existing.length >= MAX_DICTIONARY_ENTRIES_PER_OWNER) {
+    throw new HttpError(409, "Dictionary entry limit reached", { limit: MAX_DICTIONARY_ENTRIES_PER_OWNER });
+  }
+
+  const nowIso = new Date().toISOString();
+  const [row] = await getTableStore(DICTIONARY_TABLE).insert([
+    {
+      ...buildOwnerColumns(input.owner),
+      term,
+      aliases: normalizeAliases(input.aliases ?? []),
+      created_at: nowIso,
+      updated_at: nowIso
+    }
+  ]);
+
+  return mapDictionaryRow(row);
+}
+
+export async function updateDictionaryEntry(input: {
+  owner: ResourceOwner;
+  entryId: string;
+  term?: string;
+  aliases?: string[];
+}): Promise<DictionaryEntry> {
+  const patch: StoredRow = { updated_at: new Date().toISOString() };
+
+  if (input.term !== undefined) {
+    const term = input.term.trim();
+    const existing = await listDictionaryEntries([input.owner]);
+    const conflict = existing.find(
+      (entry) => entry.id !== input.entryId && entry.term.toLowerCase() === term.toLowerCase()
+    );
+    if (conflict) {
+      throw new HttpError(409, "A dictionary entry with this term already exists", { term });
+    }
+
+    patch.term = term;
+  }
+
+  if (input.aliases !== undefined) {
+    patch.aliases = normalizeAliases(input.aliases);
+  }
+
+  const [row] = await getTableStore(DICTIONARY_TABLE).update(
+    [{ column: "id", operator: "eq", value: input.entryId }, ...buildOwnerFilters(input.owner)],
+    patch
+  );
+
+  if (!row) {
+    throw new HttpError(404, "Dictionary entry not found");
+  }
+
+  return mapDictionaryRow(row);
+}
+
+export async function deleteDictionaryEntry(input: { owner: ResourceOwner; entryId: string }): Promise<void> {
+  const deleted = await getTableStore(DICTIONARY_TABLE).delete([
+    { column: "id", operator: "eq", value: input.entryId },
+    ...buildOwnerFilters(input.owner)
+  ]);
+
+  if (deleted.length === 0) {
+    throw new HttpError(404, "Dictionary entry not found");
+  }
+}
+
+// Client-supplied keyterms come first so an oversized dictionary never drops
+// the terms the caller asked for explicitly.
+export function mergeDictionaryKeyterms(
+  requestKeyterms: readonly string[] | undefined,
+  entries: readonly DictionaryEntry[]
+): string[] | undefined {
+  const merged: string[] = [];
+  const seen = new Set<string>();
+
+  for (const keyterm of [...(requestKeyterms ?? []), ...entries.map((entry) => entry.term)]) {
+    const normalized = keyterm.trim();
+    const key = normalized.toLowerCase();
+    if (!normalized || normalized.length > MAX_KEYTERM_CHARS || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    merged.push(normalized);
+    if (merged.length >= MAX_KEYTERMS) {
+      break;
+    }
+  }
+
+  return merged.length > 0 ? merged : undefined;
+}
+
+// Deterministic post-STT pass that rewrites every alias to its canonical term
+// in one pass, so a term is never rewritten again by another entry's alias.
+// Longer aliases win where they overlap, so "post gress sql" beats "post gress".
+export function applyDictionaryReplacements(
+  text: string,
+  entries: readonly DictionaryEntry[]
+): DictionaryReplacementResult {
+  const rules = entries
+    .flatMap((entry) => entry.aliases.map((alias) => ({ entry, alias })))
+    .sort((left, right) => right.alias.length - left.alias.length);
+  const counts = new Map<string, DictionaryReplacement>();
+
+  const replaced = replacePhrases(
+    text,
+    rules.map((rule) => rule.alias),
+    (index) => {
+      const { entry } = rules[index];
+      const current = counts.get(entry.id) ?? { entryId: entry.id, term: entry.term, count: 0 };
+      current.count += 1;
+      counts.set(entry.id, current);
+      return entry.term;
+    }
+  );
+
+  return { text: replaced, replacements: [...counts.values()] };
+}
+
+export function buildDictionaryInstructions(entries: readonly DictionaryEntry[]): string | undefined {
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return `Preserve these spellings exactly: ${entries.map((entry) => entry.term).join(", ")}.`;
+}
+
+function normalizeAliases(aliases: readonly string[]): string[] {
+  return [...new Set(aliases.map(normalizePhrase).filter((alias) => alias.length > 0))];
+}
+
+function mapDictionaryRow(row: StoredRow): DictionaryEntry {
+  return {
+    id: String(row.id),
+    term: String(row.term),
+    aliases: Array.isArray(row.aliases) ? row.aliases.map(String) : [],
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at)
+  };
+}
@@ -0,0 +1,576 @@
+import type { AccountTier } from "../external/supabaseAuthClient";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type RowFilter, type StoredRow } from "../stores/tableStore";
+
+const ORGANIZATIONS_TABLE = "organizations";
+const ORGANIZATION_MEMBERS_TABLE = "organization_members";
+const ORGANIZATION_INVITATIONS_TABLE = "organization_invitations";
+const MAX_ORGANIZATIONS_PER_USER = 20;
+const MAX_MEMBERS_PER_ORGANIZATION = 500;
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const ORGANIZATION_ROLES = ["owner", "admin", "member"] as const;
+
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+
+export type Organization = {
+  id: string;
+  name: string;
+  plan: AccountTier;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type OrganizationMember = {
+  userId: string;
+  email?: string;
+  role: OrganizationRole;
+  joinedAt: string;
+};
+
+export type OrganizationInvitation = {
+  id: string;
+  organizationId: string;
+  organizationName?: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+// The organization a request acts for, selected with the `x-organization-id`
+// header. Its plan and member count set the pooled quota.
+export type ActiveOrganization = {
+  id: string;
+  role: OrganizationRole;
+  plan: AccountTier;
+  memberCount: number;
+};
+
+// Snippets, dictionary entries and rewrite styles belong to a user or, when
+// shared, to an organization (with `user_id` null).
+export type ResourceOwner = { userId: string } | { organizationId: string };
+
+export type ResourceAccess = "read" | "write";
+
+const organizationLogger = logger.child({ component: "organizations" });
+
+export async function createOrganization(input: {
+  userId: string;
+  email?: string;
+  name: string;
+}): Promise<Organization & { role: OrganizationRole }> {
+  const memberships = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["organization_id"],
+    filters: [{ column: "user_id", operator: "eq", value: input.userId }]
+  });
+  if (memberships.length >= MAX_ORGANIZATIONS_PER_USER) {
+    throw new HttpError(409, "Organization limit reached", { limit: MAX_ORGANIZATIONS_PER_USER });
+  }
+
+  const nowIso = new Date().toISOString();
+  const [row] = await getTableStore(ORGANIZATIONS_TABLE).insert([
+    {
+      name: input.name,
+      plan: "free",
+      created_by: input.userId,
+      created_at: nowIso,
+      updated_at: nowIso
+    }
+  ]);
+  const organization = mapOrganizationRow(row);
+  await insertMember({ organizationId: organization.id, userId: input.userId, email: input.email, role: "owner" });
+
+  organizationLogger.info({ organizationId: organization.id, userId: input.userId }, "organization created");
+  return { ...organization, role: "owner" };
+}
+
+export async function listOrganizations(userId: string): Promise<Array<Organization & { role: OrganizationRole }>> {
+  const memberships = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["organization_id", "role"],
+    filters: [{ column: "user_id", operator: "eq", value: userId }]
+  });
+  if (memberships.length === 0) {
+    return [];
+  }
+
+  const roles = new Map(memberships.map((row) => [String(row.organization_id), readRole(row.role)]));
+  const rows = await getTableStore(ORGANIZATIONS_TABLE).select({
+    filters: [{ column: "id", operator: "in", value: [...roles.keys()] }],
+    orderBy: { column: "name", ascending: true }
+  });
+
+  return rows.map((row) => {
+    const organization = mapOrganizationRow(row);
+    return { ...organization, role: roles.get(organization.id) ?? "member" };
+  });
+}
+
+export async function getOrganization(organizationId: string): Promise<Organization> {
+  const [row] = await getTableStore(ORGANIZATIONS_TABLE).select({
+    filters: [{ column: "id", operator: "eq", value: organizationId }],
+    limit: 1
+  });
+  if (!row) {
+    throw new HttpError(404, "Organization not found");
+  }
+
+  return mapOrganizationRow(row);
+}
+
+export async function renameOrganization(input: { organizationId: string; name: string }): Promise<Organization> {
+  const [row] = await getTableStore(ORGANIZATIONS_TABLE).update(
+    [{ column: "id", operator: "eq", value: input.organizationId }],
+    { name: input.name, updated_at: new Date().toISOString() }
+  );
+  if (!row) {
+    throw new HttpError(404, "Organization not found");
+  }
+
+  return mapOrganizationRow(row);
+}
+
+export async function setOrganizationPlan(organizationId: string, plan: AccountTier): Promise<void> {
+  const updated = await getTableStore(ORGANIZATIONS_TABLE).update(
+    [{ column: "id", operator: "eq", value: organizationId }],
+    { plan, updated_at: new Date().toISOString() }
+  );
+  if (updated.length === 0) {
+    throw new HttpError(404, "Organization not found");
+  }
+}
+
+// Looks up the caller's membership. Non-members get the same 404 as a missing
+// organization so ids cannot be probed.
+export async function resolveActiveOrganization(input: {
+  organizationId: string;
+  userId: string;
+}): Promise<ActiveOrganization> {
+  if (!UUID_PATTERN.test(input.organizationId)) {
+    throw new HttpError(404, "Organization not found");
+  }
+
+  const membership = await findMembership(input.organizationId, input.userId);
+  if (!membership) {
+    throw new HttpError(404, "Organization not found");
+  }
+
+  const [organization, memberCount] = await Promise.all([
+    getOrganization(input.organizationId),
+    countMembers(input.organizationId)
+  ]);
+  return {
+    id: organization.id,
+    role: membership.role,
+    plan: organization.plan,
+    memberCount
+  };
+}
+
+export function assertOrganizationRole(
+  organization: ActiveOrganization,
+  allowedRoles: readonly OrganizationRole[]
+): void {
+  if (!allowedRoles.includes(organization.role)) {
+    throw new HttpError(403, "Your organization role does not allow this action", {
+      role: organization.role,
+      required: allowedRoles
+    });
+  }
+}
+
+// Requests with an active organization read and change its shared entries;
+// only owners and admins may change them.
+export function resolveResourceOwner(
+  user: { userId: string; organization?: ActiveOrganization },
+  access: ResourceAccess
+): ResourceOwner {
+  if (!user.organization) {
+    return { userId: user.userId };
+  }
+
+  if (access === "write") {
+    assertOrganizationRole(user.organization, ["owner", "admin"]);
+  }
+
+  return { organizationId: user.organization.id };
+}
+
+export function buildOwnerFilters(owner: ResourceOwner): RowFilter[] {
+  if ("organizationId" in owner) {
+    return [{ column: "organization_id", operator: "eq", value: owner.organizationId }];
+  }
+
+  return [{ column: "user_id", operator: "eq", value: owner.userId }];
+}
+
+export function buildOwnerColumns(owner: ResourceOwner): StoredRow {
+  if ("organizationId" in owner) {
+    return { user_id: null, organization_id: owner.organizationId };
+  }
+
+  return { user_id: owner.userId, organization_id: null };
+}
+
+export async function listMembers(organizationId: string): Promise<OrganizationMember[]> {
+  const rows = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    filters: [{ column: "organization_id", operator: "eq", value: organizationId }],
+    orderBy: { column: "created_at", ascending: true }
+  });
+
+  return rows.map(mapMemberRow);
+}
+
+async function findMembership(
+  organizationId: string,
+  userId: string
+): Promise<{ role: OrganizationRole } | undefined> {
+  const [row] = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["role"],
+    filters: [
+      { column: "organization_id", operator: "eq", value: organizationId },
+      { column: "user_id", operator: "eq", value: userId }
+    ],
+    limit: 1
+  });
+
+  return row ? { role: readRole(row.role) } : undefined;
+}
+
+function countMembers(organizationId: string): Promise<number> {
+  return getTableStore(ORGANIZATION_MEMBERS_TABLE).count([
+    { column: "organization_id", operator: "eq", value: organizationId }
+  ]);
+}
+
+// Only owners grant or remove the owner role, and the last owner cannot step down.
+export async function updateMemberRole(input: {
+  organization: ActiveOrganization;
+  userId: string;
+  role: OrganizationRole;
+}): Promise<OrganizationMember> {
+  assertOrganizationRole(input.organization, ["owner"]);
+
+  const members = await listMembers(input.organization.id);
+  const target = members.find((member) => member.userId === input.userId);
+  if (!target) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  if (target.role === "owner" && input.role !== "owner") {
+    assertAnotherOwner(members, target.userId);
+  }
+
+  const [row] = await getTableStore(ORGANIZATION_MEMBERS_TABLE).update(
+    [
+      { column: "organization_id", operator: "eq", value: input.organization.id },
+      { column: "user_id", operator: "eq", value: input.userId }
+    ],
+    { role: input.role }
+  );
+  if (!row) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  organizationLogger.info(
+    { organizationId: input.organization.id, userId: input.userId, role: input.role },
+    "organization member role changed"
+  );
+  return mapMemberRow(row);
+}
+
+// Members may leave; owners remove anyone and admins remove plain members.
+export async function removeMember(input: {
+  organization: ActiveOrganization;
+  actorUserId: string;
+  userId: string;
+}): Promise<void> {
+  const members = await listMembers(input.organization.id);
+  const target = members.find((member) => member.userId === input.userId);
+  if (!target) {
+    throw new HttpError(404, "Member not found");
+  }
+
+  if (input.userId !== input.actorUserId) {
+    assertOrganizationRole(input.organization, target.role === "member" ? ["owner", "admin"] : ["owner"]);
+  }
+
+  if (target.role === "owner") {
+    assertAnotherOwner(members, target.userId);
+  }
+
+  await getTableStore(ORGANIZATION_MEMBERS_TABLE).delete([
+    { column: "organization_id", operator: "eq", value: input.organization.id },
+    { column: "user_id", operator: "eq", value: input.userId }
+  ]);
+  organizationLogger.info(
+    { organizationId: input.organization.id, userId: input.userId, removedBy: input.actorUserId },
+    "organization member removed"
+  );
+}
+
+// Account deletion takes the user out of every organization, which is refused
+// while they are the last owner of one that has other members.
+export async function assertOrganizationsCanBeLeft(userId: string): Promise<void> {
+  const memberships = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["organization_id", "role"],
+    filters: [{ column: "user_id", operator: "eq", value: userId }]
+  });
+  const ownedIds = memberships.filter((row) => row.role === "owner").map((row) => String(row.organization_id));
+  if (ownedIds.length === 0) {
+    return;
+  }
+
+  const members = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["organization_id", "user_id", "role"],
+    filters: [{ column: "organization_id", operator: "in", value: ownedIds }]
+  });
+  const blocking = ownedIds.filter((organizationId) => {
+    const others = members.filter((row) => row.organization_id === organizationId && row.user_id !== userId);
+    return others.length > 0 && !others.some((row) => row.role === "owner");
+  });
+  if (blocking.length > 0) {
+    throw new HttpError(409, "Transfer ownership of your organizations before deleting the account", {
+      organization_ids: blocking
+    });
+  }
+}
+
+// Removes the user's memberships and deletes the organizations left without members.
+export async function removeUserFromOrganizations(userId: string): Promise<void> {
+  const removed = await getTableStore(ORGANIZATION_MEMBERS_TABLE).delete([
+    { column: "user_id", operator: "eq", value: userId }
+  ]);
+  const organizationIds = [...new Set(removed.map((row) => String(row.organization_id)))];
+  if (organizationIds.length === 0) {
+    return;
+  }
+
+  const remaining = await getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+    columns: ["organization_id"],
+    filters: [{ column: "organization_id", operator: "in", value: organizationIds }]
+  });
+  const populated = new Set(remaining.map((row) => String(row.organization_id)));
+  const empty = organizationIds.filter((organizationId) => !populated.has(organizationId));
+  if (empty.length > 0) {
+    await getTableStore(ORGANIZATION_INVITATIONS_TABLE).delete([
+      { column: "organization_id", operator: "in", value: empty }
+    ]);
+    await getTableStore(ORGANIZATIONS_TABLE).delete([{ column: "id", operator: "in", value: empty }]);
+  }
+
+  organizationLogger.info(
+    { userId, organizations: organizationIds.length, deletedOrganizations: empty.length },
+    "user removed from organizations"
+  );
+}
+
+// Invitations are matched to the invitee's verified email when they accept.
+// Delivering the invitation (email, chat) is left to the client.
+export async function createInvitation(input: {
+  organization: ActiveOrganization;
+  invitedBy: string;
+  email: string;
+  role: OrganizationRole;
+}): Promise<OrganizationInvitation> {
+  assertOrganizationRole(input.organization, input.role === "member" ? ["owner", "admin"] : ["owner"]);
+
+  const email = input.email.trim().toLowerCase();
+  const members = await listMembers(input.organization.id);
+  if (members.some((member) => member.email === email)) {
+    throw new HttpError(409, "This email already belongs to a member", { email });
+  }
+
+  if (members.length >= MAX_MEMBERS_PER_ORGANIZATION) {
+    throw new HttpError(409, "Organization member limit reached", { limit: MAX_MEMBERS_PER_ORGANIZATION });
+  }
+
+  const pending = await listInvitations(input.organization.id);
+  if (pending.some((invitation) => invitation.email === email)) {
+    throw new HttpError(409, "An invitation for this email is already pending", { email });
+  }
+
+  const now = new Date();
+  const [row] = await getTableStore(ORGANIZATION_INVITATIONS_TABLE).insert([
+    {
+      organization_id: input.organization.id,
+      email,
+      role: input.role,
+      invited_by: input.invitedBy,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + INVITATION_TTL_MS).toISOString(),
+      accepted_at: null
+    }
+  ]);
+
+  organizationLogger.info(
+    { organizationId: input.organization.id, invitationId: row.id, invitedBy: input.invitedBy },
+    "organization invitation created"
+  );
+  return mapInvitationRow(row);
+}
+
+export async function listInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+  return selectPendingInvitations([{ column: "organization_id", operator: "eq", value: organizationId }]);
+}
+
+export async function listInvitationsForEmail(email: string): Promise<OrganizationInvitation[]> {
+  const invitations = await selectPendingInvitations([
+    { column: "email", operator: "eq", value: email.trim().toLowerCase() }
+  ]);
+  if (invitations.length === 0) {
+    return [];
+  }
+
+  const organizations = await getTableStore(ORGANIZATIONS_TABLE).select({
+    columns: ["id", "name"],
+    filters: [{ column: "id", operator: "in", value: invitations.map((invitation) => invitation.organizationId) }]
+  });
+  const names = new Map(organizations.map((row) => [String(row.id), String(row.name)]));
+
+  return invitations.map((invitation) => ({
+    ...invitation,
+    organizationName: names.get(invitation.organizationId)
+  }));
+}
+
+export async function revokeInvitation(input: {
+  organization: ActiveOrganization;
+  invitationId: string;
+}): Promise<void> {
+  assertOrganizationRole(input.organization, ["owner", "admin"]);
+
+  const deleted = await getTableStore(ORGANIZATION_INVITATIONS_TABLE).delete([
+    { column: "id", operator: "eq", value: input.invitationId },
+    { column: "organization_id", operator: "eq", value: input.organization.id },
+    { column: "accepted_at", operator: "is", value: null }
+  ]);
+  if (deleted.length === 0) {
+    throw new HttpError(404, "Invitation not found");
+  }
+}
+
+export async function acceptInvitation(input: {
+  invitationId: string;
+  userId: string;
+  email?: string;
+}): Promise<Organization & { role: OrganizationRole }> {
+  const email = input.email?.trim().toLowerCase();
+  const [invitation] = email
+    ? await selectPendingInvitations([
+        { column: "id", operator: "eq", value: input.invitationId },
+        { column: "email", operator: "eq", value: email }
+      ])
+    : [];
+  if (!invitation) {
+    throw new HttpError(404, "Invitation not found");
+  }
+
+  // The member limit is checked again here: pending invitations can outnumber the free seats.
+  const [organization, membership, memberCount, memberships] = await Promise.all([
+    getOrganization(invitation.organizationId),
+    findMembership(invitation.organizationId, input.userId),
+    countMembers(invitation.organizationId),
+    getTableStore(ORGANIZATION_MEMBERS_TABLE).select({
+      columns: ["organization_id"],
+      filters: [{ column: "user_id", operator: "eq", value: input.userId }]
+    })
+  ]);
+  if (membership) {
+    throw new HttpError(409, "You are already a member of this organization");
+  }
+
+  if (memberCount >= MAX_MEMBERS_PER_ORGANIZATION) {
+    throw new HttpError(409, "Organization member limit reached", { limit: MAX_MEMBERS_PER_ORGANIZATION });
+  }
+
+  if (memberships.length >= MAX_ORGANIZATIONS_PER_USER) {
+    throw new HttpError(409, "Organization limit reached", { limit: MAX_ORGANIZATIONS_PER_USER });
+  }
+
+  await insertMember({ organizationId: organization.id, userId: input.userId, email, role: invitation.role });
+  await getTableStore(ORGANIZATION_INVITATIONS_TABLE).update(
+    [{ column: "id", operator: "eq", value: invitation.id }],
+    { accepted_at: new Date().toISOString() }
+  );
+
+  organizationLogger.info(
+    { organizationId: organization.id, invitationId: invitation.id, userId: input.userId },
+    "organization invitation accepted"
+  );
+  return { ...organization, role: invitation.role };
+}
+
+async function insertMember(input: {
+  organizationId: string;
+  userId: string;
+  email?: string;
+  role: OrganizationRole;
+}): Promise<void> {
+  await getTableStore(ORGANIZATION_MEMBERS_TABLE).insert([
+    {
+      organization_id: input.organizationId,
+      user_id: input.userId,
+      email: input.email?.toLowerCase() ?? null,
+      role: input.role,
+      created_at: new Date().toISOString()
+    }
+  ]);
+}
+
+async function selectPendingInvitations(filters: RowFilter[]): Promise<OrganizationInvitation[]> {
+  const rows = await getTableStore(ORGANIZATION_INVITATIONS_TABLE).select({
+    filters: [
+      ...filters,
+      { column: "accepted_at", operator: "is", value: null },
+      { column: "expires_at", operator: "gte", value: new Date().toISOString() }
+    ],
+    orderBy: { column: "created_at", ascending: true }
+  });
+
+  return rows.map(mapInvitationRow);
+}
+
+function assertAnotherOwner(members: readonly OrganizationMember[], userId: string): void {
+  if (!members.some((member) => member.role === "owner" && member.userId !== userId)) {
+    throw new HttpError(409, "An organization must keep at least one owner");
+  }
+}
+
+function readRole(value: unknown): OrganizationRole {
+  return (ORGANIZATION_ROLES as readonly unknown[]).includes(value) ? (value as OrganizationRole) : "member";
+}
+
+function mapOrganizationRow(row: StoredRow): Organization {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    plan: row.plan === "pro" ? "pro" : "free",
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at)
+  };
+}
+
+function mapMemberRow(row: StoredRow): OrganizationMember {
+  return {
+    userId: String(row.user_id),
+    email: typeof row.email === "string" && row.email ? row.email : undefined,
+    role: readRole(row.role),
+    joinedAt: String(row.created_at)
+  };
+}
+
+function mapInvitationRow(row: StoredRow): OrganizationInvitation {
+  return {
+    id: String(row.id),
+    organizationId: String(row.organization_id),
+    email: String(row.email),
+    role: readRole(row.role),
+    invitedBy: String(row.invited_by),
+    createdAt: String(row.created_at),
+    expiresAt: String(row.expires_at)
+  };
+}
@@ -0,0 +1,51 @@
+import { findRewriteModelPrice, findSttModelPrice } from "../config/pricing";
+import type { OpenAITokenUsage } from "../external/openAIClient";
+import { logger } from "../lib/logger";
+
+const costLogger = logger.child({ component: "provider-cost" });
+
+// Logged once per provider/model so an unpriced model does not flood the logs.
+const unpricedModels = new Set<string>();
+
+export function estimateSttCostUsd(input: { provider: string; modelId: string; audioSeconds?: number }): number {
+  const price = findSttModelPrice(input.provider, input.modelId);
+  if (!price) {
+    warnUnpriced("stt", input.provider, input.modelId);
+    return 0;
+  }
+
+  return roundUsd(((input.audioSeconds ?? 0) / 60) * price.usd_per_audio_minute);
+}
+
+export function estimateRewriteCostUsd(input: { provider: string; model: string; usage?: OpenAITokenUsage }): number {
+  if (!input.usage) {
+    return 0;
+  }
+
+  const price = findRewriteModelPrice(input.provider, input.model);
+  if (!price) {
+    warnUnpriced("rewrite", input.provider, input.model);
+    return 0;
+  }
+
+  return roundUsd(
+    (input.usage.inputTokens * price.usd_per_million_input_tokens +
+      input.usage.outputTokens * price.usd_per_million_output_tokens) /
+      1_000_000
+  );
+}
+
+// Micro-dollar precision keeps sums of many small requests stable.
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function warnUnpriced(kind: "stt" | "rewrite", provider: string, model: string): void {
+  const key = `${kind}:${provider}:${model}`;
+  if (unpricedModels.has(key)) {
+    return;
+  }
+
+  unpricedModels.add(key);
+  costLogger.warn({ kind, provider, model }, "no price configured for provider model; estimating cost as 0");
+}
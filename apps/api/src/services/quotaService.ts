@@ -0,0 +1,242 @@
+import { env } from "../config/env";
+import type { AccountTier } from "../external/supabaseAuthClient";
+import { listOrganizations, type ActiveOrganization } from "./organizationService";
+import { listReservedJobUsage } from "./transcriptionJobService";
+import { sumBilledUsage, type BilledUsageTotals, type UsageRecord } from "./usageMeteringService";
+
+export type QuotaWindow = "daily" | "monthly";
+export type QuotaMetric = "requests" | "audio_seconds";
+
+// A limit of 0 means the metric is unlimited for that tier and window.
+export type QuotaPlan = {
+  tier: AccountTier;
+  daily: Record<QuotaMetric, number>;
+  monthly: Record<QuotaMetric, number>;
+};
+
+export type QuotaUsage = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+};
+
+export type QuotaWindowStatus = {
+  window: QuotaWindow;
+  startsAt: Date;
+  resetsAt: Date;
+  requests: QuotaUsage;
+  audioSeconds: QuotaUsage;
+};
+
+export type QuotaViolation = {
+  window: QuotaWindow;
+  metric: QuotaMetric;
+  limit: number;
+  used: number;
+  resetsAt: Date;
+};
+
+// Whose usage a quota check counts, and against which limits.
+export type QuotaScope = {
+  tier: AccountTier;
+  // Set for paid organizations, which pool their plan's limits across members.
+  organization?: { id: string; seats: number };
+  // The user's paid organizations; requests made for them draw on that pool
+  // instead of the user's own quota.
+  pooledOrganizationIds: string[];
+};
+
+export type QuotaStatus = {
+  tier: AccountTier;
+  daily: QuotaWindowStatus;
+  monthly: QuotaWindowStatus;
+  violation?: QuotaViolation;
+};
+
+// Organizations pool the per-seat limits of their plan across all members.
+export function getQuotaPlan(tier: AccountTier, seats = 1): QuotaPlan {
+  if (tier === "pro") {
+    return {
+      tier,
+      daily: {
+        requests: env.QUOTA_PRO_DAILY_REQUESTS * seats,
+        audio_seconds: env.QUOTA_PRO_DAILY_AUDIO_SECONDS * seats
+      },
+      monthly: {
+        requests: env.QUOTA_PRO_MONTHLY_REQUESTS * seats,
+        audio_seconds: env.QUOTA_PRO_MONTHLY_AUDIO_SECONDS * seats
+      }
+    };
+  }
+
+  return {
+    tier,
+    daily: {
+      requests: env.QUOTA_FREE_DAILY_REQUESTS * seats,
+      audio_seconds: env.QUOTA_FREE_DAILY_AUDIO_SECONDS * seats
+    },
+    monthly: {
+      requests: env.QUOTA_FREE_MONTHLY_REQUESTS * seats,
+      audio_seconds: env.QUOTA_FREE_MONTHLY_AUDIO_SECONDS * seats
+    }
+  };
+}
+
+export function getBillingPeriodBounds(now: Date): { startsAt: Date; resetsAt: Date } {
+  return {
+    startsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+export function getDayBounds(now: Date): { startsAt: Date; resetsAt: Date } {
+  return {
+    startsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+  };
+}
+
+// Only paid organizations get a pooled quota. Requests in a free organization
+// count against the member's own quota, so creating organizations or inviting
+// accounts cannot multiply the free tier.
+export async function resolveQuotaScope(input: {
+  userId: string;
+  tier?: AccountTier;
+  organization?: ActiveOrganization;
+}): Promise<QuotaScope> {
+  const organization = input.organization;
+  if (organization && organization.plan !== "free") {
+    return {
+      tier: organization.plan,
+      organization: { id: organization.id, seats: organization.memberCount },
+      pooledOrganizationIds: [organization.id]
+    };
+  }
+
+  const organizations = await listOrganizations(input.userId);
+  return {
+    tier: input.tier ?? "free",
+    pooledOrganizationIds: organizations.filter((entry) => entry.plan !== "free").map((entry) => entry.id)
+  };
+}
+
+// With a pooled organization, usage is counted across all of its members.
+// Callers that already hold the period's records pass them in; otherwise the
+// usage store aggregates them. Queued and running transcription jobs count in
+// both windows until they record their usage.
+export async function evaluateUsageQuota(input: {
+  userId: string;
+  scope: QuotaScope;
+  now?: Date;
+  records?: UsageRecord[];
+}): Promise<QuotaStatus> {
+  const now = input.now ?? new Date();
+  const { scope } = input;
+  const plan = getQuotaPlan(scope.tier, scope.organization?.seats);
+  const period = getBillingPeriodBounds(now);
+  const day = getDayBounds(now);
+
+  let dailyUsage: BilledUsageTotals;
+  let monthlyUsage: BilledUsageTotals;
+  if (input.records) {
+    dailyUsage = totalBilledUsage(input.records.filter((record) => new Date(record.createdAt) >= day.startsAt));
+    monthlyUsage = totalBilledUsage(input.records);
+  } else {
+    const query = scope.organization
+      ? { organizationId: scope.organization.id }
+      : { userId: input.userId, excludeOrganizationIds: scope.pooledOrganizationIds };
+    [dailyUsage, monthlyUsage] = await Promise.all([
+      sumBilledUsage({ ...query, since: day.startsAt }),
+      sumBilledUsage({ ...query, since: period.startsAt })
+    ]);
+  }
+
+  const reserved = totalReservedJobUsage(input.userId, scope);
+  const daily = buildWindowStatus("daily", day, plan.daily, addBilledUsage(dailyUsage, reserved));
+  const monthly = buildWindowStatus("monthly", period, plan.monthly, addBilledUsage(monthlyUsage, reserved));
+
+  return {
+    tier: scope.tier,
+    daily,
+    monthly,
+    violation: findViolation(daily) ?? findViolation(monthly)
+  };
+}
+
+// Requests answered without provider calls (no speech, cache hits) are free.
+function totalBilledUsage(records: UsageRecord[]): BilledUsageTotals {
+  const billedRecords = records.filter((record) => !record.skipReason);
+  return {
+    requests: billedRecords.length,
+    audioSeconds: billedRecords.reduce((total, record) => total + record.audioSeconds, 0)
+  };
+}
+
+function totalReservedJobUsage(userId: string, scope: QuotaScope): BilledUsageTotals {
+  const organizationId = scope.organization?.id;
+  const reservations = listReservedJobUsage().filter((usage) =>
+    organizationId
+      ? usage.organizationId === organizationId
+      : usage.userId === userId &&
+        !(usage.organizationId && scope.pooledOrganizationIds.includes(usage.organizationId))
+  );
+  return {
+    requests: reservations.length,
+    audioSeconds: reservations.reduce((total, usage) => total + usage.audioSeconds, 0)
+  };
+}
+
+function addBilledUsage(usage: BilledUsageTotals, extra: BilledUsageTotals): BilledUsageTotals {
+  return {
+    requests: usage.requests + extra.requests,
+    audioSeconds: usage.audioSeconds + extra.audioSeconds
+  };
+}
+
+function buildWindowStatus(
+  window: QuotaWindow,
+  bounds: { startsAt: Date; resetsAt: Date },
+  limits: Record<QuotaMetric, number>,
+  usage: BilledUsageTotals
+): QuotaWindowStatus {
+  return {
+    window,
+    startsAt: bounds.startsAt,
+    resetsAt: bounds.resetsAt,
+    requests: buildUsage(limits.requests, usage.requests),
+    audioSeconds: buildUsage(limits.audio_seconds, Math.round(usage.audioSeconds * 1000) / 1000)
+  };
+}
+
+function buildUsage(limit: number, used: number): QuotaUsage {
+  if (limit <= 0) {
+    return { limit: null, used, remaining: null };
+  }
+
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used)
+  };
+}
+
+function findViolation(status: QuotaWindowStatus): QuotaViolation | undefined {
+  const metrics: Array<[QuotaMetric, QuotaUsage]> = [
+    ["requests", status.requests],
+    ["audio_seconds", status.audioSeconds]
+  ];
+
+  for (const [metric, usage] of metrics) {
+    if (usage.limit !== null && usage.used >= usage.limit) {
+      return {
+        window: status.window,
+        metric,
+        limit: usage.limit,
+        used: usage.used,
+        resetsAt: status.resetsAt
+      };
+    }
+  }
+
+  return undefined;
+}
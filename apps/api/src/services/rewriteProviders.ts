@@ -0,0 +1,90 @@
+import { env } from "../config/env";
+import {
+  rewriteTranscriptWithChatCompletions,
+  rewriteTranscriptWithOpenAI,
+  type OpenAITokenUsage
+} from "../external/openAIClient";
+
+export const REWRITE_PROVIDER_NAMES = ["openai_responses", "chat_completions", "passthrough"] as const;
+
+export type RewriteProviderName = (typeof REWRITE_PROVIDER_NAMES)[number];
+
+export type RewriteCredentials = {
+  openAIApiKey?: string;
+  openAIBaseUrl?: string;
+  openAIModel?: string;
+  openAITimeoutMs?: number;
+};
+
+export type RewriteRequest = {
+  rawText: string;
+  instructions?: string;
+  credentials?: RewriteCredentials;
+  maxOutputTokens?: number;
+};
+
+export type RewriteResult = {
+  cleanText: string;
+  model: string;
+  usage?: OpenAITokenUsage;
+  providerPayload: unknown;
+};
+
+export type RewriteProvider = {
+  name: RewriteProviderName;
+  // Passthrough providers return the transcript untouched and report "skipped".
+  performsRewrite: boolean;
+  rewrite(request: RewriteRequest): Promise<RewriteResult>;
+};
+
+const openAIResponsesRewriteProvider: RewriteProvider = {
+  name: "openai_responses",
+  performsRewrite: true,
+  rewrite: (request) =>
+    rewriteTranscriptWithOpenAI(request.rawText, {
+      apiKey: request.credentials?.openAIApiKey,
+      baseUrl: request.credentials?.openAIBaseUrl,
+      model: request.credentials?.openAIModel,
+      timeoutMs: request.credentials?.openAITimeoutMs,
+      instructions: request.instructions,
+      maxOutputTokens: request.maxOutputTokens
+    })
+};
+
+const chatCompletionsRewriteProvider: RewriteProvider = {
+  name: "chat_completions",
+  performsRewrite: true,
+  rewrite: (request) =>
+    rewriteTranscriptWithChatCompletions(request.rawText, {
+      apiKey: request.credentials?.openAIApiKey,
+      baseUrl: request.credentials?.openAIBaseUrl,
+      model: request.credentials?.openAIModel,
+      timeoutMs: request.credentials?.openAITimeoutMs,
+      instructions: request.instructions,
+      maxOutputTokens: request.maxOutputTokens
+    })
+};
+
+const passthroughRewriteProvider: RewriteProvider = {
+  name: "passthrough",
+  performsRewrite: false,
+  rewrite: async (request) => ({
+    cleanText: request.rawText,
+    model: "none",
+    providerPayload: { skipped: true }
+  })
+};
+
+const rewriteProviderRegistry: Record<RewriteProviderName, RewriteProvider> = {
+  openai_responses: openAIResponsesRewriteProvider,
+  chat_completions: chatCompletionsRewriteProvider,
+  passthrough: passthroughRewriteProvider
+};
+
+export function isRewriteProviderName(value: string): value is RewriteProviderName {
+  return (REWRITE_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function getRewriteProvider(name?: RewriteProviderName): RewriteProvider {
+  return rewriteProviderRegistry[name ?? env.REWRITE_PROVIDER];
+}
@@ -0,0 +1,235 @@
+import { CLEANUP_INSTRUCTIONS } from "../external/openAIClient";
+import { HttpError } from "../lib/httpError";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+import { buildOwnerColumns, buildOwnerFilters, type ResourceOwner } from "./organizationService";
+
+const REWRITE_STYLES_TABLE = "rewrite_styles";
+const MAX_REWRITE_STYLES_PER_OWNER = 50;
+const OUTPUT_ONLY_INSTRUCTION = "Return only the final text with no extra commentary.";
+
+export const BUILT_IN_REWRITE_MODES = ["clean", "verbatim", "email", "bullet_list", "formal", "casual"] as const;
+
+export type BuiltInRewriteMode = (typeof BUILT_IN_REWRITE_MODES)[number];
+
+export const DEFAULT_REWRITE_MODE: BuiltInRewriteMode = "clean";
+
+export type RewriteStyle = {
+  id: string;
+  name: string;
+  instructions: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ResolvedRewriteMode = {
+  mode: string;
+  source: "built_in" | "custom";
+  instructions: string;
+};
+
+const builtInInstructions: Record<BuiltInRewriteMode, string> = {
+  clean: CLEANUP_INSTRUCTIONS,
+  verbatim: [
+    "You are a transcript cleanup engine.",
+    "Add punctuation and capitalization to the spoken transcript.",
+    "Keep every word, including filler words and repetitions, in the original order.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" "),
+  email: [
+    "You are a transcript cleanup engine.",
+    "Rewrite the spoken transcript as the body of an email.",
+    "Use a greeting and sign-off only if the speaker dictated them, and split the text into short paragraphs.",
+    "Fix punctuation, capitalization, and grammar, and remove filler words.",
+    "Preserve the original meaning.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" "),
+  bullet_list: [
+    "You are a transcript cleanup engine.",
+    "Rewrite the spoken transcript as a concise bullet list, one idea per line, each line starting with '- '.",
+    "Remove filler words and keep the original order of ideas.",
+    "Preserve the original meaning.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" "),
+  formal: [
+    "You are a transcript cleanup engine.",
+    "Rewrite the spoken transcript into formal, professional written text.",
+    "Fix punctuation, capitalization, and grammar, remove filler words, and avoid contractions and slang.",
+    "Preserve the original meaning.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" "),
+  casual: [
+    "You are a transcript cleanup engine.",
+    "Rewrite the spoken transcript into relaxed, conversational written text suitable for chat messages.",
+    "Fix obvious punctuation and grammar mistakes and remove filler words, but keep contractions and the speaker's tone.",
+    "Preserve the original meaning.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" ")
+};
+
+export function isBuiltInRewriteMode(value: string): value is BuiltInRewriteMode {
+  return (BUILT_IN_REWRITE_MODES as readonly string[]).includes(value);
+}
+
+export function getBuiltInRewriteInstructions(mode: BuiltInRewriteMode): string {
+  return builtInInstructions[mode];
+}
+
+// Resolves a `rewrite_mode` value to a prompt. Built-in modes win; otherwise the
+// value is looked up by name among the saved styles of each owner in turn (the
+// caller, then their active organization).
+export async function resolveRewriteMode(input: {
+  mode?: string;
+  owners?: readonly ResourceOwner[];
+}): Promise<ResolvedRewriteMode> {
+  const mode = input.mode ?? DEFAULT_REWRITE_MODE;
+  if (isBuiltInRewriteMode(mode)) {
+    return {
+      mode,
+      source: "built_in",
+      instructions: builtInInstructions[mode]
+    };
+  }
+
+  let style: RewriteStyle | undefined;
+  for (const owner of input.owners ?? []) {
+    style = await findRewriteStyleByName(owner, mode);
+    if (style) {
+      break;
+    }
+  }
+
+  if (!style) {
+    throw new HttpError(400, "Unsupported rewrite_mode", {
+      rewrite_mode: mode,
+      supported: BUILT_IN_REWRITE_MODES
+    });
+  }
+
+  return {
+    mode: style.name,
+    source: "custom",
+    instructions: buildCustomInstructions(style.instructions)
+  };
+}
+
+export async function listRewriteStyles(owner: ResourceOwner): Promise<RewriteStyle[]> {
+  const rows = await getTableStore(REWRITE_STYLES_TABLE).select({
+    filters: buildOwnerFilters(owner),
+    orderBy: { column: "name", ascending: true }
+  });
+
+  return rows.map(mapRewriteStyleRow);
+}
+
+export async function createRewriteStyle(input: {
+  owner: ResourceOwner;
+  name: string;
+  instructions: string;
+}): Promise<RewriteStyle> {
+  assertCustomStyleName(input.name);
+
+  const existing = await listRewriteStyles(input.owner);
+  if (existing.some((style) => style.name === input.name)) {
+    throw new HttpError(409, "A rewrite style with this name already exists", { name: input.name });
+  }
+
+  if (existing.length >= MAX_REWRITE_STYLES_PER_OWNER) {
+    throw new HttpError(409, "Rewrite style limit reached", { limit: MAX_REWRITE_STYLES_PER_OWNER });
+  }
+
+  const nowIso = new Date().toISOString();
+  const [row] = await getTableStore(REWRITE_STYLES_TABLE).insert([
+    {
+      ...buildOwnerColumns(input.owner),
+      name: input.name,
+      instructions: input.instructions,
+      created_at: nowIso,
+      updated_at: nowIso
+    }
+  ]);
+
+  return mapRewriteStyleRow(row);
+}
+
+export async function updateRewriteStyle(input: {
+  owner: ResourceOwner;
+  styleId: string;
+  name?: string;
+  instructions?: string;
+}): Promise<RewriteStyle> {
+  const patch: StoredRow = { updated_at: new Date().toISOString() };
+
+  if (input.name !== undefined) {
+    assertCustomStyleName(input.name);
+    const conflict = await findRewriteStyleByName(input.owner, input.name);
+    if (conflict && conflict.id !== input.styleId) {
+      throw new HttpError(409, "A rewrite style with this name already exists", { name: input.name });
+    }
+
+    patch.name = input.name;
+  }
+
+  if (input.instructions !== undefined) {
+    patch.instructions = input.instructions;
+  }
+
+  const [row] = await getTableStore(REWRITE_STYLES_TABLE).update(
+    [{ column: "id", operator: "eq", value: input.styleId }, ...buildOwnerFilters(input.owner)],
+    patch
+  );
+
+  if (!row) {
+    throw new HttpError(404, "Rewrite style not found");
+  }
+
+  return mapRewriteStyleRow(row);
+}
+
+export async function deleteRewriteStyle(input: { owner: ResourceOwner; styleId: string }): Promise<void> {
+  const deleted = await getTableStore(REWRITE_STYLES_TABLE).delete([
+    { column: "id", operator: "eq", value: input.styleId },
+    ...buildOwnerFilters(input.owner)
+  ]);
+
+  if (deleted.length === 0) {
+    throw new HttpError(404, "Rewrite style not found");
+  }
+}
+
+async function findRewriteStyleByName(owner: ResourceOwner, name: string): Promise<RewriteStyle | undefined> {
+  const rows = await getTableStore(REWRITE_STYLES_TABLE).select({
+    filters: [...buildOwnerFilters(owner), { column: "name", operator: "eq", value: name }],
+    limit: 1
+  });
+
+  return rows[0] ? mapRewriteStyleRow(rows[0]) : undefined;
+}
+
+// Custom instructions describe the output style only; the transcript-cleanup
+// framing and output-only rule stay fixed so styles cannot turn the rewrite
+// into a general-purpose chat.
+function buildCustomInstructions(styleInstructions: string): string {
+  return [
+    "You are a transcript cleanup engine.",
+    "Rewrite the spoken transcript into written text following these style instructions:",
+    styleInstructions.trim(),
+    "Preserve the original meaning.",
+    OUTPUT_ONLY_INSTRUCTION
+  ].join(" ");
+}
+
+function assertCustomStyleName(name: string): void {
+  if (isBuiltInRewriteMode(name)) {
+    throw new HttpError(409, "Rewrite style name is reserved for a built-in mode", { name });
+  }
+}
+
+function mapRewriteStyleRow(row: StoredRow): RewriteStyle {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    instructions: String(row.instructions ?? ""),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at)
+  };
+}
@@ -0,0 +1,237 @@
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type RowFilter, type StoredRow } from "../stores/tableStore";
+
+const API_SESSIONS_TABLE = "api_sessions";
+const DELETED_ACCOUNTS_TABLE = "deleted_accounts";
+const ACTIVE_SESSION_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LISTED_SESSIONS = 50;
+const HARD_TRACKED_SESSION_LIMIT = 10_000;
+const MAX_USER_AGENT_LENGTH = 512;
+
+const sessionLogger = logger.child({ component: "sessions" });
+
+export type ApiSession = {
+  id: string;
+  userAgent?: string;
+  createdAt: string;
+  lastSeenAt: string;
+};
+
+type TrackedSession = {
+  revoked: boolean;
+  checkedAtMs: number;
+};
+
+// Per-process view of the sessions table. Revocations made by this process
+// apply at once; those made elsewhere within SESSION_CHECK_INTERVAL_MS, which
+// is kept to a few seconds.
+const trackedSessions = new Map<string, TrackedSession>();
+
+// Rejects tokens whose session was revoked and records when each session was
+// last used. During a store outage, sessions this process has already found
+// active keep working (revocations made by this process stay enforced), while
+// sessions it has not seen are refused, since they may have been revoked elsewhere.
+export async function assertSessionActive(input: {
+  userId: string;
+  sessionId: string;
+  userAgent?: string;
+}): Promise<void> {
+  const nowMs = Date.now();
+  const tracked = trackedSessions.get(input.sessionId);
+  if (tracked?.revoked) {
+    throw new HttpError(401, "Session has been revoked");
+  }
+
+  if (tracked && nowMs - tracked.checkedAtMs < env.SESSION_CHECK_INTERVAL_MS) {
+    return;
+  }
+
+  let revoked: boolean;
+  try {
+    revoked = await touchSession(input, new Date(nowMs).toISOString());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!tracked) {
+      sessionLogger.error(
+        { sessionId: input.sessionId, errorMessage },
+        "session lookup failed; refusing unseen session"
+      );
+      throw new HttpError(503, "Session check is temporarily unavailable");
+    }
+
+    sessionLogger.warn({ sessionId: input.sessionId, errorMessage }, "session lookup failed; allowing known session");
+    return;
+  }
+
+  trackSession(input.sessionId, { revoked, checkedAtMs: nowMs });
+  if (revoked) {
+    throw new HttpError(401, "Session has been revoked");
+  }
+}
+
+export async function listActiveSessions(userId: string, now = new Date()): Promise<ApiSession[]> {
+  const activeSinceIso = new Date(now.getTime() - ACTIVE_SESSION_WINDOW_MS).toISOString();
+  const rows = await getTableStore(API_SESSIONS_TABLE).select({
+    filters: [
+      { column: "user_id", operator: "eq", value: userId },
+      { column: "revoked_at", operator: "is", value: null },
+      { column: "last_seen_at", operator: "gte", value: activeSinceIso }
+    ],
+    orderBy: { column: "last_seen_at", ascending: false },
+    limit: MAX_LISTED_SESSIONS
+  });
+
+  return rows.map(mapSessionRow);
+}
+
+export async function revokeSession(input: { userId: string; sessionId: string }): Promise<void> {
+  const revoked = await getTableStore(API_SESSIONS_TABLE).update(
+    [
+      { column: "session_id", operator: "eq", value: input.sessionId },
+      { column: "user_id", operator: "eq", value: input.userId },
+      { column: "revoked_at", operator: "is", value: null }
+    ],
+    { revoked_at: new Date().toISOString() }
+  );
+  if (revoked.length === 0) {
+    throw new HttpError(404, "Session not found");
+  }
+
+  trackSession(input.sessionId, { revoked: true, checkedAtMs: Date.now() });
+  sessionLogger.info({ userId: input.userId, sessionId: input.sessionId }, "session revoked");
+}
+
+// Logout revokes the caller's own session, which may not have been recorded yet.
+export async function revokeSignedOutSession(input: { userId: string; sessionId: string }): Promise<void> {
+  trackSession(input.sessionId, { revoked: true, checkedAtMs: Date.now() });
+
+  const sessions = getTableStore(API_SESSIONS_TABLE);
+  const nowIso = new Date().toISOString();
+  const revoked = await sessions.update([{ column: "session_id", operator: "eq", value: input.sessionId }], {
+    revoked_at: nowIso
+  });
+  if (revoked.length === 0) {
+    await sessions.insert([
+      {
+        session_id: input.sessionId,
+        user_id: input.userId,
+        created_at: nowIso,
+        last_seen_at: nowIso,
+        revoked_at: nowIso
+      }
+    ]);
+  }
+}
+
+// For account deletion. The `auth.users` cascade removes the session rows, so
+// the account is also recorded in `deleted_accounts`, which outlives it: a
+// session of a deleted account that no row is found for is treated as revoked.
+export async function revokeSessionsForDeletedAccount(userId: string): Promise<void> {
+  const nowIso = new Date().toISOString();
+  await getTableStore(DELETED_ACCOUNTS_TABLE).insert([{ user_id: userId, deleted_at: nowIso }]);
+
+  const revoked = await getTableStore(API_SESSIONS_TABLE).update(
+    [
+      { column: "user_id", operator: "eq", value: userId },
+      { column: "revoked_at", operator: "is", value: null }
+    ],
+    { revoked_at: nowIso }
+  );
+  for (const row of revoked) {
+    trackSession(String(row.session_id), { revoked: true, checkedAtMs: Date.now() });
+  }
+}
+
+// Used after a password change or reset, so a session opened with the old
+// password stops working for API requests before its access token expires.
+export async function revokeOtherSessions(input: { userId: string; keepSessionId?: string }): Promise<number> {
+  const filters: RowFilter[] = [
+    { column: "user_id", operator: "eq", value: input.userId },
+    { column: "revoked_at", operator: "is", value: null }
+  ];
+  if (input.keepSessionId) {
+    filters.push({ column: "session_id", operator: "neq", value: input.keepSessionId });
+  }
+
+  const revoked = await getTableStore(API_SESSIONS_TABLE).update(filters, { revoked_at: new Date().toISOString() });
+  for (const row of revoked) {
+    trackSession(String(row.session_id), { revoked: true, checkedAtMs: Date.now() });
+  }
+
+  return revoked.length;
+}
+
+export function resetSessionTrackingForTest(): void {
+  trackedSessions.clear();
+}
+
+// Returns whether the session is revoked, inserting it on first use unless the
+// account has been deleted.
+async function touchSession(
+  input: { userId: string; sessionId: string; userAgent?: string },
+  nowIso: string
+): Promise<boolean> {
+  const sessions = getTableStore(API_SESSIONS_TABLE);
+  const [row] = await sessions.select({
+    columns: ["revoked_at"],
+    filters: [{ column: "session_id", operator: "eq", value: input.sessionId }],
+    limit: 1
+  });
+
+  const userAgent = input.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null;
+  if (!row) {
+    const [deletedAccount] = await getTableStore(DELETED_ACCOUNTS_TABLE).select({
+      columns: ["user_id"],
+      filters: [{ column: "user_id", operator: "eq", value: input.userId }],
+      limit: 1
+    });
+    if (deletedAccount) {
+      return true;
+    }
+
+    await sessions.insert([
+      {
+        session_id: input.sessionId,
+        user_id: input.userId,
+        user_agent: userAgent,
+        created_at: nowIso,
+        last_seen_at: nowIso,
+        revoked_at: null
+      }
+    ]);
+    return false;
+  }
+
+  if (row.revoked_at) {
+    return true;
+  }
+
+  await sessions.update([{ column: "session_id", operator: "eq", value: input.sessionId }], {
+    last_seen_at: nowIso,
+    user_agent: userAgent
+  });
+  return false;
+}
+
+function trackSession(sessionId: string, tracked: TrackedSession): void {
+  if (trackedSessions.size >= HARD_TRACKED_SESSION_LIMIT && !trackedSessions.has(sessionId)) {
+    // Forgetting an entry only costs a store lookup on the session's next request.
+    const oldest = trackedSessions.keys().next().value;
+    if (oldest !== undefined) {
+      trackedSessions.delete(oldest);
+    }
+  }
+
+  trackedSessions.set(sessionId, tracked);
+}
+
+function mapSessionRow(row: StoredRow): ApiSession {
+  return {
+    id: String(row.session_id),
+    userAgent: typeof row.user_agent === "string" && row.user_agent ? row.user_agent : undefined,
+    createdAt: String(row.created_at),
+    lastSeenAt: String(row.last_seen_at)
+  };
+}
@@ -0,0 +1,215 @@
+import { HttpError } from "../lib/httpError";
+import { normalizePhrase, replacePhrases } from "../lib/phraseMatching";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+import { buildOwnerColumns, buildOwnerFilters, type ResourceOwner } from "./organizationService";
+
+const SNIPPETS_TABLE = "snippet_rules";
+const MAX_SNIPPETS_PER_OWNER = 200;
+
+export type SnippetScope = "user" | "organization" | "global";
+
+const SCOPE_PRECEDENCE: Record<SnippetScope, number> = { global: 0, organization: 1, user: 2 };
+
+export type Snippet = {
+  id: string;
+  scope: SnippetScope;
+  trigger: string;
+  expansion: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SnippetMatch = {
+  snippetId: string;
+  trigger: string;
+  scope: SnippetScope;
+  count: number;
+};
+
+export type SnippetExpansionResult = {
+  text: string;
+  matches: SnippetMatch[];
+};
+
+// Global snippets (no user or organization) are curated directly in the
+// database; the API only exposes them read-only. Dictation passes both the
+// caller and their active organization.
+export async function listSnippets(owners: readonly ResourceOwner[] = []): Promise<Snippet[]> {
+  const store = getTableStore(SNIPPETS_TABLE);
+  const orderBy = { column: "trigger", ascending: true };
+  const [ownedRows, globalRows] = await Promise.all([
+    Promise.all(
+      owners.map(async (owner) => {
+        const rows = await store.select({ filters: buildOwnerFilters(owner), orderBy });
+        return rows.map((row) => mapSnippetRow(row, getOwnerScope(owner)));
+      })
+    ),
+    store.select({
+      filters: [
+        { column: "user_id", operator: "is", value: null },
+        { column: "organization_id", operator: "is", value: null }
+      ],
+      orderBy
+    })
+  ]);
+
+  return [...ownedRows.flat(), ...globalRows.map((row) => mapSnippetRow(row, "global"))];
+}
+
+export async function createSnippet(input: {
+  owner: ResourceOwner;
+  trigger: string;
+  expansion: string;
+  enabled?: boolean;
+}): Promise<Snippet> {
+  const trigger = normalizeTrigger(input.trigger);
+  const scope = getOwnerScope(input.owner);
+  const existing = await listSnippets([input.owner]);
+  const ownedSnippets = existing.filter((snippet) => snippet.scope === scope);
+
+  if (ownedSnippets.some((snippet) => snippet.trigger === trigger)) {
+    throw new HttpError(409, "A snippet with this trigger already exists", { trigger });
+  }
+
+  if (ownedSnippets.length >= MAX_SNIPPETS_PER_OWNER) {
+    throw new HttpError(409, "Snippet limit reached", { limit: MAX_SNIPPETS_PER_OWNER });
+  }
+
+  const nowIso = new Date().toISOString();
+  const [row] = await getTableStore(SNIPPETS_TABLE).insert([
+    {
+      ...buildOwnerColumns(input.owner),
+      trigger,
+      expansion: input.expansion,
+      enabled: input.enabled ?? true,
+      created_at: nowIso,
+      updated_at: nowIso
+    }
+  ]);
+
+  return mapSnippetRow(row, scope);
+}
+
+export async function updateSnippet(input: {
+  owner: ResourceOwner;
+  snippetId: string;
+  trigger?: string;
+  expansion?: string;
+  enabled?: boolean;
+}): Promise<Snippet> {
+  const patch: StoredRow = { updated_at: new Date().toISOString() };
+
+  if (input.trigger !== undefined) {
+    const trigger = normalizeTrigger(input.trigger);
+    const conflicts = await getTableStore(SNIPPETS_TABLE).select({
+      filters: [
+        ...buildOwnerFilters(input.owner),
+        { column: "trigger", operator: "eq", value: trigger },
+        { column: "id", operator: "neq", value: input.snippetId }
+      ],
+      limit: 1
+    });
+    if (conflicts.length > 0) {
+      throw new HttpError(409, "A snippet with this trigger already exists", { trigger });
+    }
+
+    patch.trigger = trigger;
+  }
+
+  if (input.expansion !== undefined) {
+    patch.expansion = input.expansion;
+  }
+
+  if (input.enabled !== undefined) {
+    patch.enabled = input.enabled;
+  }
+
+  const [row] = await getTableStore(SNIPPETS_TABLE).update(
+    [{ column: "id", operator: "eq", value: input.snippetId }, ...buildOwnerFilters(input.owner)],
+    patch
+  );
+
+  if (!row) {
+    throw new HttpError(404, "Snippet not found");
+  }
+
+  return mapSnippetRow(row, getOwnerScope(input.owner));
+}
+
+export async function deleteSnippet(input: { owner: ResourceOwner; snippetId: string }): Promise<void> {
+  const deleted = await getTableStore(SNIPPETS_TABLE).delete([
+    { column: "id", operator: "eq", value: input.snippetId },
+    ...buildOwnerFilters(input.owner)
+  ]);
+
+  if (deleted.length === 0) {
+    throw new HttpError(404, "Snippet not found");
+  }
+}
+
+// Replaces spoken trigger phrases with their expansion in one pass (see
+// replacePhrases for matching rules), so an expansion is never expanded again.
+// User snippets shadow organization snippets, which shadow global snippets with
+// the same trigger, and disabled snippets are ignored. Longer triggers win where
+// they overlap, so "insert my work address" beats "insert my address".
+export function expandSnippets(text: string, snippets: readonly Snippet[]): SnippetExpansionResult {
+  const effective = selectEffectiveSnippets(snippets);
+  const counts = effective.map(() => 0);
+  const expanded = replacePhrases(
+    text,
+    effective.map((snippet) => snippet.trigger),
+    (index) => {
+      counts[index] += 1;
+      return effective[index].expansion;
+    }
+  );
+
+  const matches: SnippetMatch[] = effective.flatMap((snippet, index) =>
+    counts[index] > 0
+      ? [{ snippetId: snippet.id, trigger: snippet.trigger, scope: snippet.scope, count: counts[index] }]
+      : []
+  );
+  return { text: expanded, matches };
+}
+
+function selectEffectiveSnippets(snippets: readonly Snippet[]): Snippet[] {
+  const byTrigger = new Map<string, Snippet>();
+  for (const snippet of snippets) {
+    if (!snippet.enabled) {
+      continue;
+    }
+
+    const current = byTrigger.get(snippet.trigger);
+    if (!current || SCOPE_PRECEDENCE[snippet.scope] > SCOPE_PRECEDENCE[current.scope]) {
+      byTrigger.set(snippet.trigger, snippet);
+    }
+  }
+
+  return [...byTrigger.values()].sort((left, right) => right.trigger.length - left.trigger.length);
+}
+
+function getOwnerScope(owner: ResourceOwner): SnippetScope {
+  return "organizationId" in owner ? "organization" : "user";
+}
+
+function normalizeTrigger(trigger: string): string {
+  const normalized = normalizePhrase(trigger);
+  if (!normalized) {
+    throw new HttpError(400, "Snippet trigger must not be empty");
+  }
+
+  return normalized;
+}
+
+function mapSnippetRow(row: StoredRow, scope: SnippetScope): Snippet {
+  return {
+    id: String(row.id),
+    scope,
+    trigger: String(row.trigger),
+    expansion: String(row.expansion ?? ""),
+    enabled: row.enabled !== false,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at)
+  };
+}
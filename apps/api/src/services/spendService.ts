@@ -0,0 +1,123 @@
+import { env } from "../config/env";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { roundUsd } from "./providerCostService";
+import { getDayBounds } from "./quotaService";
+import { sumProviderCostEstimates } from "./usageMeteringService";
+
+const spendLogger = logger.child({ component: "provider-spend" });
+
+type DailySpend = {
+  date: string;
+  startsAt: Date;
+  resetsAt: Date;
+  // Spend persisted before this process started tracking the day, loaded once.
+  baseline?: Promise<number>;
+  // Spend recorded by this process, including requests and jobs whose usage
+  // events are still buffered.
+  recordedUsd: number;
+  // The cap is logged once a day rather than on every rejected request.
+  capReachedLogged: boolean;
+};
+
+export type GlobalDailySpend = {
+  date: string;
+  spendUsd: number;
+  capUsd: number | null;
+  remainingUsd: number | null;
+  resetsAt: Date;
+};
+
+let currentDay: DailySpend | undefined;
+
+export function recordProviderSpend(usd: number, now = new Date()): void {
+  if (usd <= 0) {
+    return;
+  }
+
+  const day = resolveDay(now);
+  day.recordedUsd = roundUsd(day.recordedUsd + usd);
+}
+
+// The baseline is read from usage_logs the first time a day is touched. Events
+// this process persisted before that read are counted twice, which only ever
+// errs towards reaching the cap early.
+export async function getGlobalDailySpend(now = new Date()): Promise<GlobalDailySpend> {
+  const day = resolveDay(now);
+  if (!day.baseline) {
+    day.baseline = sumProviderCostEstimates(day.startsAt);
+    // A failed read is retried by the next caller.
+    day.baseline.catch(() => {
+      if (currentDay === day) {
+        day.baseline = undefined;
+      }
+    });
+  }
+
+  const spendUsd = roundUsd((await day.baseline) + day.recordedUsd);
+  const capUsd = env.DAILY_SPEND_CAP_USD > 0 ? env.DAILY_SPEND_CAP_USD : null;
+
+  return {
+    date: day.date,
+    spendUsd,
+    capUsd,
+    remainingUsd: capUsd === null ? null : roundUsd(Math.max(0, capUsd - spendUsd)),
+    resetsAt: day.resetsAt
+  };
+}
+
+// Fails closed: when today's spend cannot be established, no provider calls
+// are made on the platform's keys.
+export async function assertDailySpendAvailable(requestId?: string): Promise<void> {
+  if (env.DAILY_SPEND_CAP_USD <= 0) {
+    return;
+  }
+
+  let spend: GlobalDailySpend;
+  try {
+    spend = await getGlobalDailySpend();
+  } catch (error) {
+    spendLogger.error(
+      { requestId, errorMessage: error instanceof Error ? error.message : String(error) },
+      "daily spend lookup failed; rejecting request"
+    );
+    throw new HttpError(503, "Spend tracking is unavailable");
+  }
+
+  if (spend.remainingUsd === null || spend.remainingUsd > 0) {
+    return;
+  }
+
+  const day = resolveDay();
+  if (!day.capReachedLogged) {
+    day.capReachedLogged = true;
+    spendLogger.warn(
+      { requestId, spendUsd: spend.spendUsd, capUsd: spend.capUsd, resetsAt: spend.resetsAt.toISOString() },
+      "daily spend cap reached; rejecting requests until it resets"
+    );
+  }
+  throw new HttpError(503, "Daily spend cap reached", {
+    code: "SPEND_CAP_REACHED",
+    resets_at: spend.resetsAt.toISOString()
+  });
+}
+
+export function resetSpendTrackingForTest(): void {
+  currentDay = undefined;
+}
+
+function resolveDay(now = new Date()): DailySpend {
+  const date = now.toISOString().slice(0, 10);
+  if (currentDay?.date !== date) {
+    const bounds = getDayBounds(now);
+    currentDay = {
+      date,
+      startsAt: bounds.startsAt,
+      resetsAt: bounds.resetsAt,
+      recordedUsd: 0,
+      capReachedLogged: false
+    };
+  }
+
+  return currentDay;
+}
@@ -0,0 +1,169 @@
+import { env } from "../config/env";
+import { transcribeWithElevenLabs, type ElevenLabsRequestOptions } from "../external/elevenLabsClient";
+import { transcribeWithOpenAI } from "../external/openAITranscriptionClient";
+import { HttpError } from "../lib/httpError";
+import type { TranscriptTimeline } from "../lib/transcriptTimeline";
+
+export const STT_PROVIDER_NAMES = ["elevenlabs", "openai"] as const;
+
+export type SttProviderName = (typeof STT_PROVIDER_NAMES)[number];
+
+export type SttRequestOptions = ElevenLabsRequestOptions;
+
+export type SttCredentials = {
+  elevenLabsApiKey?: string;
+  elevenLabsBaseUrl?: string;
+  openAIApiKey?: string;
+  openAIBaseUrl?: string;
+};
+
+export type SttTranscriptionRequest = {
+  fileBuffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+  options?: SttRequestOptions;
+  credentials?: SttCredentials;
+  timeoutMs?: number;
+};
+
+export type SttTranscriptionResult = {
+  rawText: string;
+  providerPayload: unknown;
+  modelId: string;
+  audioDurationSeconds?: number;
+  timeline: TranscriptTimeline;
+};
+
+export type SttProvider = {
+  name: SttProviderName;
+  transcribe(request: SttTranscriptionRequest): Promise<SttTranscriptionResult>;
+};
+
+export type SttFailover = {
+  from: SttProviderName;
+  statusCode: number;
+  error: string;
+};
+
+export type SttExecutionResult = SttTranscriptionResult & {
+  provider: SttProviderName;
+  failover?: SttFailover;
+};
+
+const elevenLabsSttProvider: SttProvider = {
+  name: "elevenlabs",
+  transcribe: (request) =>
+    transcribeWithElevenLabs({
+      fileBuffer: request.fileBuffer,
+      fileName: request.fileName,
+      mimeType: request.mimeType,
+      options: request.options,
+      apiKey: request.credentials?.elevenLabsApiKey,
+      baseUrl: request.credentials?.elevenLabsBaseUrl,
+      timeoutMs: request.timeoutMs
+    })
+};
+
+const openAISttProvider: SttProvider = {
+  name: "openai",
+  transcribe: (request) =>
+    transcribeWithOpenAI({
+      fileBuffer: request.fileBuffer,
+      fileName: request.fileName,
+      mimeType: request.mimeType,
+      options: {
+        modelId: request.options?.modelId,
+        languageCode: request.options?.languageCode,
+        temperature: request.options?.temperature,
+        // The transcription API has no keyterm field; a prompt is its vocabulary hint.
+        prompt: request.options?.keyterms?.join(", ")
+      },
+      apiKey: request.credentials?.openAIApiKey,
+      baseUrl: request.credentials?.openAIBaseUrl,
+      timeoutMs: request.timeoutMs
+    })
+};
+
+const sttProviderRegistry: Record<SttProviderName, SttProvider> = {
+  elevenlabs: elevenLabsSttProvider,
+  openai: openAISttProvider
+};
+
+export function isSttProviderName(value: string): value is SttProviderName {
+  return (STT_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function getSttProvider(name: SttProviderName): SttProvider {
+  return sttProviderRegistry[name];
+}
+
+// The model a provider transcribes with when the request does not pick one.
+export function getDefaultSttModelId(name: SttProviderName): string {
+  return name === "openai" ? env.OPENAI_TRANSCRIPTION_MODEL : env.ELEVENLABS_MODEL_ID;
+}
+
+export function resolveSttProviderChain(requested?: SttProviderName): {
+  primary: SttProviderName;
+  secondary?: SttProviderName;
+} {
+  const primary = requested ?? env.STT_PROVIDER;
+  const configuredFallback = env.STT_FALLBACK_PROVIDER === "none" ? undefined : env.STT_FALLBACK_PROVIDER;
+
+  if (!configuredFallback) {
+    return { primary };
+  }
+
+  if (configuredFallback !== primary) {
+    return { primary, secondary: configuredFallback };
+  }
+
+  // The caller explicitly picked the configured fallback, so the default
+  // provider becomes the secondary and failover still has somewhere to go.
+  return {
+    primary,
+    secondary: env.STT_PROVIDER !== primary ? env.STT_PROVIDER : undefined
+  };
+}
+
+export async function transcribeWithFailover(input: {
+  primary: SttProviderName;
+  secondary?: SttProviderName;
+  request: SttTranscriptionRequest;
+  onFailover?: (failover: SttFailover) => void;
+}): Promise<SttExecutionResult> {
+  try {
+    const result = await getSttProvider(input.primary).transcribe(input.request);
+    return { ...result, provider: input.primary };
+  } catch (error) {
+    if (!input.secondary || !isFailoverEligible(error)) {
+      throw error;
+    }
+
+    const failover: SttFailover = {
+      from: input.primary,
+      statusCode: error instanceof HttpError ? error.statusCode : 502,
+      error: error instanceof Error ? error.message : String(error)
+    };
+    input.onFailover?.(failover);
+
+    // Model ids are provider specific, so the secondary always uses its own default model.
+    const result = await getSttProvider(input.secondary).transcribe({
+      ...input.request,
+      options: {
+        ...input.request.options,
+        modelId: undefined
+      }
+    });
+    return { ...result, provider: input.secondary, failover };
+  }
+}
+
+// Only provider outages (5xx, including timeouts surfaced as 504) fail over;
+// 4xx errors describe a bad request that the secondary would reject too.
+function isFailoverEligible(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.statusCode >= 500;
+  }
+
+  return true;
+}
@@ -0,0 +1,340 @@
+import { env } from "../config/env";
+import { deliverWebhook } from "../external/webhookClient";
+import { HttpError } from "../lib/httpError";
+import { logger } from "../lib/logger";
+import { getTableStore, type StoredRow } from "../stores/tableStore";
+
+const jobLogger = logger.child({ component: "transcription-jobs" });
+
+const TRANSCRIPTION_JOBS_TABLE = "transcription_jobs";
+const CALLBACK_RETRY_BASE_DELAY_MS = 500;
+
+export type TranscriptionJobStatus = "queued" | "processing" | "completed" | "failed";
+
+export type TranscriptionJobCallbackStatus = "pending" | "delivered" | "failed";
+
+export type TranscriptionJobError = {
+  statusCode: number;
+  message: string;
+  details?: unknown;
+};
+
+export type TranscriptionJob = {
+  id: string;
+  ownerId: string;
+  requestId: string;
+  status: TranscriptionJobStatus;
+  fileName: string;
+  audioBytes: number;
+  callbackUrl?: string;
+  callbackStatus?: TranscriptionJobCallbackStatus;
+  result?: unknown;
+  error?: TranscriptionJobError;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+};
+
+export type TranscriptionJobInput = {
+  ownerId: string;
+  requestId: string;
+  fileName: string;
+  audioBytes: number;
+  callbackUrl?: string;
+  // Usage the job will record once it runs; it is held against the quota
+  // until then, so queued jobs cannot be used to exceed it.
+  usage?: ReservedJobUsage;
+  // Produces the job result; it runs once a queue slot is free and its return
+  // value is stored as the job result.
+  run: () => Promise<unknown>;
+};
+
+export type ReservedJobUsage = {
+  userId: string;
+  organizationId?: string;
+  audioSeconds: number;
+};
+
+type QueuedJob = {
+  jobId: string;
+  requestId: string;
+  callbackUrl?: string;
+  run: () => Promise<unknown>;
+};
+
+let queuedJobs: QueuedJob[] = [];
+const activeJobIds = new Set<string>();
+const reservedUsage = new Map<string, ReservedJobUsage>();
+
+// Audio is held in memory until a job runs, so the queue is bounded and jobs
+// do not survive a restart; only their state is persisted.
+export async function enqueueTranscriptionJob(input: TranscriptionJobInput): Promise<TranscriptionJob> {
+  if (queuedJobs.length >= env.TRANSCRIPTION_JOB_MAX_QUEUED) {
+    throw new HttpError(503, "Transcription job queue is full", {
+      maxQueued: env.TRANSCRIPTION_JOB_MAX_QUEUED
+    });
+  }
+
+  const nowIso = new Date().toISOString();
+  const [row] = await getTableStore(TRANSCRIPTION_JOBS_TABLE).insert([
+    {
+      owner_id: input.ownerId,
+      request_id: input.requestId,
+      status: "queued",
+      file_name: input.fileName,
+      audio_bytes: input.audioBytes,
+      callback_url: input.callbackUrl ?? null,
+      callback_status: input.callbackUrl ? "pending" : null,
+      created_at: nowIso,
+      updated_at: nowIso
+    }
+  ]);
+
+  const job = mapJobRow(row);
+  if (input.usage) {
+    reservedUsage.set(job.id, input.usage);
+  }
+  queuedJobs.push({
+    jobId: job.id,
+    requestId: input.requestId,
+    callbackUrl: input.callbackUrl,
+    run: input.run
+  });
+  jobLogger.info(
+    { jobId: job.id, requestId: input.requestId, queuedJobs: queuedJobs.length, activeJobs: activeJobIds.size },
+    "transcription job queued"
+  );
+
+  pumpQueue();
+  return job;
+}
+
+export async function getTranscriptionJob(jobId: string, ownerId: string): Promise<TranscriptionJob> {
+  const rows = await getTableStore(TRANSCRIPTION_JOBS_TABLE).select({
+    filters: [
+      { column: "id", operator: "eq", value: jobId },
+      { column: "owner_id", operator: "eq", value: ownerId }
+    ],
+    limit: 1
+  });
+
+  if (!rows[0]) {
+    throw new HttpError(404, "Transcription job not found");
+  }
+
+  return mapJobRow(rows[0]);
+}
+
+// Removes an owner's jobs, including queued audio that has not been processed yet.
+export async function deleteTranscriptionJobsForOwner(ownerId: string): Promise<number> {
+  const deleted = await getTableStore(TRANSCRIPTION_JOBS_TABLE).delete([
+    { column: "owner_id", operator: "eq", value: ownerId }
+  ]);
+  const deletedJobIds = new Set(deleted.map((row) => row.id));
+  queuedJobs = queuedJobs.filter((job) => !deletedJobIds.has(job.jobId));
+  for (const jobId of deletedJobIds) {
+    reservedUsage.delete(String(jobId));
+  }
+
+  return deleted.length;
+}
+
+// Called on shutdown so clients polling these jobs see a terminal state instead
+// of waiting on work that will never finish.
+export async function failUnfinishedTranscriptionJobs(reason: string): Promise<number> {
+  const jobIds = [...queuedJobs.map((job) => job.jobId), ...activeJobIds];
+  queuedJobs = [];
+  reservedUsage.clear();
+
+  for (const jobId of jobIds) {
+    await updateJobRow(jobId, {
+      status: "failed",
+      error: { status_code: 503, message: reason },
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  return jobIds.length;
+}
+
+// Usage of jobs that are queued or running and have not recorded it yet.
+export function listReservedJobUsage(): ReservedJobUsage[] {
+  return [...reservedUsage.values()];
+}
+
+export function toTranscriptionJobPayload(job: TranscriptionJob): Record<string, unknown> {
+  return {
+    id: job.id,
+    status: job.status,
+    request_id: job.requestId,
+    file_name: job.fileName,
+    audio_bytes: job.audioBytes,
+    created_at: job.createdAt,
+    started_at: job.startedAt ?? null,
+    completed_at: job.completedAt ?? null,
+    result: job.result ?? null,
+    error: job.error
+      ? {
+          status_code: job.error.statusCode,
+          message: job.error.message,
+          details: job.error.details
+        }
+      : null,
+    callback: job.callbackUrl
+      ? {
+          url: job.callbackUrl,
+          status: job.callbackStatus ?? "pending"
+        }
+      : null
+  };
+}
+
+function pumpQueue(): void {
+  while (activeJobIds.size < env.TRANSCRIPTION_JOB_CONCURRENCY && queuedJobs.length > 0) {
+    const next = queuedJobs.shift();
+    if (!next) {
+      return;
+    }
+
+    activeJobIds.add(next.jobId);
+    void runQueuedJob(next).finally(() => {
+      activeJobIds.delete(next.jobId);
+      pumpQueue();
+    });
+  }
+}
+
+async function runQueuedJob(queued: QueuedJob): Promise<void> {
+  const startedAt = Date.now();
+  await updateJobRow(queued.jobId, {
+    status: "processing",
+    started_at: new Date(startedAt).toISOString(),
+    updated_at: new Date(startedAt).toISOString()
+  });
+
+  let patch: StoredRow;
+  try {
+    const result = await queued.run();
+    patch = { status: "completed", result };
+    jobLogger.info(
+      { jobId: queued.jobId, requestId: queued.requestId, durationMs: Date.now() - startedAt },
+      "transcription job completed"
+    );
+  } catch (error) {
+    const statusCode = error instanceof HttpError ? error.statusCode : 500;
+    const message = error instanceof Error ? error.message : "Unexpected server error";
+    patch = {
+      status: "failed",
+      error: {
+        status_code: statusCode,
+        message,
+        details: error instanceof HttpError ? error.details : undefined
+      }
+    };
+    jobLogger.warn(
+      { jobId: queued.jobId, requestId: queued.requestId, statusCode, errorMessage: message },
+      "transcription job failed"
+    );
+  } finally {
+    // The run has recorded its usage by now, or failed without any.
+    reservedUsage.delete(queued.jobId);
+  }
+
+  const nowIso = new Date().toISOString();
+  const job = await updateJobRow(queued.jobId, { ...patch, completed_at: nowIso, updated_at: nowIso });
+
+  if (job && queued.callbackUrl) {
+    await deliverJobCallback(job, queued.callbackUrl);
+  }
+}
+
+async function deliverJobCallback(job: TranscriptionJob, callbackUrl: string): Promise<void> {
+  for (let attempt = 1; attempt <= env.TRANSCRIPTION_JOB_CALLBACK_MAX_ATTEMPTS; attempt += 1) {
+    try {
+      await deliverWebhook({
+        url: callbackUrl,
+        payload: {
+          event: `transcription_job.${job.status}`,
+          job: toTranscriptionJobPayload(job)
+        },
+        timeoutMs: env.TRANSCRIPTION_JOB_CALLBACK_TIMEOUT_MS,
+        secret: env.TRANSCRIPTION_JOB_CALLBACK_SECRET,
+        allowPrivateNetwork: env.TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE
+      });
+      await updateJobRow(job.id, { callback_status: "delivered", updated_at: new Date().toISOString() });
+      return;
+    } catch (error) {
+      jobLogger.warn(
+        {
+          jobId: job.id,
+          attempt,
+          errorMessage: error instanceof Error ? error.message : String(error)
+        },
+        "transcription job callback failed"
+      );
+
+      if (attempt < env.TRANSCRIPTION_JOB_CALLBACK_MAX_ATTEMPTS) {
+        await wait(CALLBACK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  await updateJobRow(job.id, { callback_status: "failed", updated_at: new Date().toISOString() });
+}
+
+// State updates are best effort: a store outage must not crash the queue.
+async function updateJobRow(jobId: string, patch: StoredRow): Promise<TranscriptionJob | undefined> {
+  try {
+    const [row] = await getTableStore(TRANSCRIPTION_JOBS_TABLE).update(
+      [{ column: "id", operator: "eq", value: jobId }],
+      patch
+    );
+    return row ? mapJobRow(row) : undefined;
+  } catch (error) {
+    jobLogger.error(
+      {
+        jobId,
+        status: patch.status,
+        errorMessage: error instanceof Error ? error.message : String(error)
+      },
+      "failed to persist transcription job state"
+    );
+    return undefined;
+  }
+}
+
+function mapJobRow(row: StoredRow): TranscriptionJob {
+  const error = row.error && typeof row.error === "object" ? (row.error as Record<string, unknown>) : undefined;
+
+  return {
+    id: String(row.id),
+    ownerId: String(row.owner_id),
+    requestId: String(row.request_id),
+    status: String(row.status) as TranscriptionJobStatus,
+    fileName: String(row.file_name),
+    audioBytes: Number(row.audio_bytes ?? 0),
+    callbackUrl: typeof row.callback_url === "string" ? row.callback_url : undefined,
+    callbackStatus:
+      typeof row.callback_status === "string" ? (row.callback_status as TranscriptionJobCallbackStatus) : undefined,
+    result: row.result ?? undefined,
+    error: error
+      ? {
+          statusCode: Number(error.status_code ?? 500),
+          message: String(error.message ?? "Unexpected server error"),
+          details: error.details
+        }
+      : undefined,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at),
+    startedAt: typeof row.started_at === "string" ? row.started_at : undefined,
+    completedAt: typeof row.completed_at === "string" ? row.completed_at : undefined
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
@@ -1,19 +1,502 @@
+import { env } from "../config/env";
 import { logger } from "../lib/logger";
+import { getTableStore, selectAllRows, type RowFilter, type StoredRow } from "../stores/tableStore";
 
 const usageLogger = logger.child({ component: "usage-metering" });
 
+const USAGE_LOGS_TABLE = "usage_logs";
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 30_000;
+const DAILY_SUM_COLUMNS = [
+  "audio_bytes",
+  "audio_seconds",
+  "raw_characters",
+  "clean_characters",
+  "stt_latency_ms",
+  "rewrite_latency_ms",
+  "provider_cost_estimate",
+  "avoided_provider_cost_estimate"
+] as const;
+
 export type UsageEvent = {
   requestId: string;
   userId: string;
+  // Set when the request acted for an organization; its usage rolls up there.
+  organizationId?: string;
   audioBytes: number;
+  audioSeconds?: number;
   rawCharacters: number;
   cleanCharacters: number;
   sttLatencyMs: number;
   rewriteLatencyMs: number;
+  totalLatencyMs: number;
   isAuthenticated: boolean;
-  authSource: "supabase" | "legacy_header" | "byok_open" | "anonymous";
+  authSource: "supabase" | "api_key" | "legacy_header" | "byok_open" | "anonymous";
+  // Set when the request was answered without calling STT or rewrite providers.
+  skipReason?: "no_speech" | "cache_hit";
+  // Estimated spend on the platform's provider accounts, in USD.
+  providerCostEstimateUsd?: number;
+  // Set with `skipReason`: the estimated spend the skip saved, in USD.
+  avoidedProviderCostEstimateUsd?: number;
+};
+
+export type UsageRecord = {
+  requestId: string;
+  userId: string;
+  organizationId?: string;
+  audioBytes: number;
+  audioSeconds: number;
+  rawCharacters: number;
+  cleanCharacters: number;
+  sttLatencyMs: number;
+  rewriteLatencyMs: number;
+  totalLatencyMs: number;
+  authSource: string;
+  skipReason?: string;
+  providerCostEstimateUsd: number;
+  avoidedProviderCostEstimateUsd: number;
+  createdAt: string;
+};
+
+// Totals over one or more usage rows; `skipReason` is set when all of them were
+// answered without provider calls for that reason.
+export type UsageAmounts = {
+  requests: number;
+  skipReason?: string;
+  audioBytes: number;
+  audioSeconds: number;
+  rawCharacters: number;
+  cleanCharacters: number;
+  sttLatencyMs: number;
+  rewriteLatencyMs: number;
+  providerCostEstimateUsd: number;
+  avoidedProviderCostEstimateUsd: number;
 };
 
+export type DailyUsageAmounts = UsageAmounts & {
+  // UTC calendar day, `YYYY-MM-DD`.
+  date: string;
+};
+
+// Requests and audio seconds that reached the providers, which quotas count.
+export type BilledUsageTotals = {
+  requests: number;
+  audioSeconds: number;
+};
+
+export type UsageRecordQuery = {
+  userId?: string;
+  organizationId?: string;
+  excludeOrganizationIds?: readonly string[];
+  since: Date;
+};
+
+type PendingUsageEvent = {
+  row: StoredRow;
+  attempts: number;
+};
+
+let pendingEvents: PendingUsageEvent[] = [];
+// The batch being inserted; it stays visible to quota checks until the insert resolves.
+let inFlightBatch: PendingUsageEvent[] = [];
+let flushTimer: NodeJS.Timeout | undefined;
+let activeFlush: Promise<void> | undefined;
+let consecutiveFailures = 0;
+
+// Usage capture must never fail a dictation: events are buffered in memory and
+// written in batches, with failed batches retried using exponential backoff.
 export async function recordUsageEvent(event: UsageEvent): Promise<void> {
-  usageLogger.info(event, "usage event captured (placeholder)");
+  const row = toUsageLogRow(event);
+
+  if (pendingEvents.length >= env.USAGE_BUFFER_MAX_EVENTS) {
+    const dropped = pendingEvents.shift();
+    usageLogger.error(
+      {
+        requestId: dropped?.row.request_id,
+        bufferedEvents: pendingEvents.length
+      },
+      "usage buffer is full; dropping oldest usage event"
+    );
+  }
+
+  pendingEvents.push({ row, attempts: 0 });
+  usageLogger.debug({ requestId: event.requestId, bufferedEvents: pendingEvents.length }, "usage event buffered");
+
+  if (pendingEvents.length >= env.USAGE_FLUSH_BATCH_SIZE && consecutiveFailures === 0) {
+    void flushUsageEvents();
+    return;
+  }
+
+  scheduleFlush(env.USAGE_FLUSH_INTERVAL_MS);
+}
+
+export async function flushUsageEvents(): Promise<void> {
+  if (activeFlush) {
+    return activeFlush;
+  }
+
+  activeFlush = drainPendingEvents().finally(() => {
+    activeFlush = undefined;
+  });
+  return activeFlush;
+}
+
+// Returns persisted usage for a verified user's requests (except those made for
+// `excludeOrganizationIds`), for an organization, or for all callers when
+// neither is given, plus any events this process has not persisted yet.
+export async function listUsageRecords(query: UsageRecordQuery): Promise<UsageRecord[]> {
+  const matchesQuery = buildUsageRowMatcher(query);
+  const persistedRows = await selectAllRows(getTableStore(USAGE_LOGS_TABLE), {
+    filters: buildUsageRowFilters(query)
+  });
+
+  const persistedRequestIds = new Set(persistedRows.map((row) => row.request_id));
+  const unpersistedRows = listUnpersistedRows().filter(
+    (row) => matchesQuery(row) && !persistedRequestIds.has(row.request_id)
+  );
+
+  return [...persistedRows, ...unpersistedRows]
+    .filter((row) => matchesQuery(row))
+    .map((row) => fromUsageLogRow(row))
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+}
+
+// The quota check on every dictation: the store counts and sums the rows, and
+// requests made for excluded organizations are subtracted per organization.
+export async function sumBilledUsage(query: UsageRecordQuery): Promise<BilledUsageTotals> {
+  const store = getTableStore(USAGE_LOGS_TABLE);
+  const filters: RowFilter[] = [
+    ...buildUsageRowFilters(query),
+    { column: "skip_reason", operator: "is", value: null }
+  ];
+  const excludedOrganizationIds = query.organizationId ? [] : (query.excludeOrganizationIds ?? []);
+  const [scoped, ...excluded] = await Promise.all([
+    store.aggregate(filters, ["audio_seconds"]),
+    ...excludedOrganizationIds.map((organizationId) =>
+      store.aggregate(
+        [...filters, { column: "organization_id", operator: "eq", value: organizationId }],
+        ["audio_seconds"]
+      )
+    )
+  ]);
+
+  const totals: BilledUsageTotals = { requests: scoped.count, audioSeconds: scoped.sums.audio_seconds };
+  for (const aggregate of excluded) {
+    totals.requests -= aggregate.count;
+    totals.audioSeconds -= aggregate.sums.audio_seconds;
+  }
+
+  const matchesQuery = buildUsageRowMatcher(query);
+  const unpersistedRows = listUnpersistedRows().filter((row) => matchesQuery(row) && !row.skip_reason);
+  for (const row of await excludePersistedInFlightRows(unpersistedRows)) {
+    totals.requests += 1;
+    totals.audioSeconds += readNumber(row.audio_seconds);
+  }
+
+  return totals;
+}
+
+// Usage across all callers since `since`, totalled by the store per UTC day and
+// skip reason, plus the events this process has not persisted yet.
+export async function sumDailyUsage(since: Date): Promise<DailyUsageAmounts[]> {
+  const groups = await getTableStore(USAGE_LOGS_TABLE).aggregateGroups(
+    [{ column: "created_at", operator: "gte", value: since.toISOString() }],
+    ["usage_date", "skip_reason"],
+    DAILY_SUM_COLUMNS
+  );
+  const daily: DailyUsageAmounts[] = groups.map(({ group, count, sums }) => ({
+    date: readString(group.usage_date),
+    skipReason: readString(group.skip_reason) || undefined,
+    requests: count,
+    audioBytes: sums.audio_bytes,
+    audioSeconds: sums.audio_seconds,
+    rawCharacters: sums.raw_characters,
+    cleanCharacters: sums.clean_characters,
+    sttLatencyMs: sums.stt_latency_ms,
+    rewriteLatencyMs: sums.rewrite_latency_ms,
+    providerCostEstimateUsd: sums.provider_cost_estimate,
+    avoidedProviderCostEstimateUsd: sums.avoided_provider_cost_estimate
+  }));
+
+  const matchesQuery = buildUsageRowMatcher({ since });
+  for (const row of await excludePersistedInFlightRows(listUnpersistedRows().filter(matchesQuery))) {
+    const record = fromUsageLogRow(row);
+    daily.push({ ...toUsageAmounts(record), date: record.createdAt.slice(0, 10) });
+  }
+
+  return daily;
+}
+
+export function toUsageAmounts(record: UsageRecord): UsageAmounts {
+  return {
+    requests: 1,
+    skipReason: record.skipReason,
+    audioBytes: record.audioBytes,
+    audioSeconds: record.audioSeconds,
+    rawCharacters: record.rawCharacters,
+    cleanCharacters: record.cleanCharacters,
+    sttLatencyMs: record.sttLatencyMs,
+    rewriteLatencyMs: record.rewriteLatencyMs,
+    providerCostEstimateUsd: record.providerCostEstimateUsd,
+    avoidedProviderCostEstimateUsd: record.avoidedProviderCostEstimateUsd
+  };
+}
+
+// Global spend since `since` across all callers, summed by the store. Spend
+// still buffered in this process is tracked by the caller.
+export async function sumProviderCostEstimates(since: Date): Promise<number> {
+  const aggregate = await getTableStore(USAGE_LOGS_TABLE).aggregate(
+    [{ column: "created_at", operator: "gte", value: since.toISOString() }],
+    ["provider_cost_estimate"]
+  );
+
+  return aggregate.sums.provider_cost_estimate;
+}
+
+// Deletes a verified user's persisted usage rows and drops their buffered events,
+// which would otherwise be written after the purge. The purge takes the flush's
+// place: an in-flight batch is awaited first, and no batch starts until the
+// delete has finished, so none of the user's rows land after it.
+export async function purgeUsageRecords(userId: string): Promise<number> {
+  while (activeFlush) {
+    await activeFlush;
+  }
+
+  const purge = purgeUsageRecordsNow(userId);
+  activeFlush = purge.then(
+    () => undefined,
+    () => undefined
+  );
+  try {
+    return await purge;
+  } finally {
+    activeFlush = undefined;
+    if (pendingEvents.length > 0) {
+      scheduleFlush(env.USAGE_FLUSH_INTERVAL_MS);
+    }
+  }
+}
+
+export function getPendingUsageEventCount(): number {
+  return pendingEvents.length;
+}
+
+export function resetUsageMeteringForTest(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+
+  pendingEvents = [];
+  inFlightBatch = [];
+  activeFlush = undefined;
+  consecutiveFailures = 0;
+}
+
+// Buffered events are dropped once the delete is done, including any recorded
+// while it ran.
+async function purgeUsageRecordsNow(userId: string): Promise<number> {
+  const deleted = await getTableStore(USAGE_LOGS_TABLE).delete([{ column: "user_id", operator: "eq", value: userId }]);
+  const bufferedCount = pendingEvents.length;
+  pendingEvents = pendingEvents.filter((entry) => entry.row.user_id !== userId);
+
+  return deleted.length + bufferedCount - pendingEvents.length;
+}
+
+async function drainPendingEvents(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+  }
+
+  while (pendingEvents.length > 0) {
+    const batch = pendingEvents.splice(0, env.USAGE_FLUSH_BATCH_SIZE);
+    inFlightBatch = batch;
+
+    try {
+      await getTableStore(USAGE_LOGS_TABLE).insert(batch.map((entry) => entry.row));
+      consecutiveFailures = 0;
+      usageLogger.debug({ persistedEvents: batch.length }, "usage events persisted");
+    } catch (error) {
+      consecutiveFailures += 1;
+      requeueFailedBatch(batch, error);
+      scheduleFlush(computeRetryDelayMs(consecutiveFailures));
+      return;
+    } finally {
+      inFlightBatch = [];
+    }
+  }
+}
+
+function buildUsageRowFilters(query: UsageRecordQuery): RowFilter[] {
+  const filters: RowFilter[] = [{ column: "created_at", operator: "gte", value: query.since.toISOString() }];
+  if (query.organizationId) {
+    filters.push({ column: "organization_id", operator: "eq", value: query.organizationId });
+  } else if (query.userId) {
+    filters.push({ column: "user_id", operator: "eq", value: query.userId });
+  }
+
+  return filters;
+}
+
+function buildUsageRowMatcher(query: UsageRecordQuery): (row: StoredRow) => boolean {
+  const sinceIso = query.since.toISOString();
+  const excluded = new Set(query.organizationId ? [] : (query.excludeOrganizationIds ?? []));
+
+  return (row) => {
+    if (typeof row.created_at !== "string" || row.created_at < sinceIso) {
+      return false;
+    }
+
+    if (query.organizationId) {
+      return row.organization_id === query.organizationId;
+    }
+
+    const organizationId = typeof row.organization_id === "string" ? row.organization_id : undefined;
+    return (!query.userId || row.user_id === query.userId) && !(organizationId && excluded.has(organizationId));
+  };
+}
+
+// Buffered events and the batch being inserted, read after the store so a
+// batch that lands meanwhile is either found there or still listed here.
+function listUnpersistedRows(): StoredRow[] {
+  return [...inFlightBatch, ...pendingEvents].map((entry) => entry.row);
+}
+
+// An in-flight batch may already be committed when its insert has not resolved
+// yet; its rows are looked up so the aggregate does not count them twice.
+async function excludePersistedInFlightRows(rows: StoredRow[]): Promise<StoredRow[]> {
+  const inFlightRequestIds = new Set(inFlightBatch.map((entry) => entry.row.request_id));
+  const candidates = rows.filter((row) => inFlightRequestIds.has(row.request_id));
+  if (candidates.length === 0) {
+    return rows;
+  }
+
+  const persisted = await getTableStore(USAGE_LOGS_TABLE).select({
+    columns: ["request_id"],
+    filters: [{ column: "request_id", operator: "in", value: candidates.map((row) => String(row.request_id)) }]
+  });
+  const persistedRequestIds = new Set(persisted.map((row) => row.request_id));
+  return rows.filter((row) => !persistedRequestIds.has(row.request_id));
+}
+
+function requeueFailedBatch(batch: PendingUsageEvent[], error: unknown): void {
+  const retryable: PendingUsageEvent[] = [];
+  const exhausted: PendingUsageEvent[] = [];
+
+  for (const entry of batch) {
+    const attempts = entry.attempts + 1;
+    if (attempts >= env.USAGE_FLUSH_MAX_ATTEMPTS) {
+      exhausted.push(entry);
+    } else {
+      retryable.push({ row: entry.row, attempts });
+    }
+  }
+
+  pendingEvents = [...retryable, ...pendingEvents];
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  usageLogger.warn(
+    {
+      failedEvents: batch.length,
+      retryingEvents: retryable.length,
+      consecutiveFailures,
+      errorMessage
+    },
+    "usage event batch failed to persist"
+  );
+
+  if (exhausted.length > 0) {
+    usageLogger.error(
+      {
+        droppedEvents: exhausted.length,
+        requestIds: exhausted.map((entry) => entry.row.request_id),
+        errorMessage
+      },
+      "usage events dropped after exhausting retry attempts"
+    );
+  }
+}
+
+function scheduleFlush(delayMs: number): void {
+  if (flushTimer) {
+    return;
+  }
+
+  flushTimer = setTimeout(() => {
+    flushTimer = undefined;
+    void flushUsageEvents();
+  }, delayMs);
+  flushTimer.unref();
+}
+
+function computeRetryDelayMs(failures: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, failures - 1));
+}
+
+function toUsageLogRow(event: UsageEvent): StoredRow {
+  // usage_logs.user_id references auth.users, so only verified accounts (Supabase
+  // sessions and personal API keys) populate it; other callers are attributed
+  // through client_user_id.
+  const isAccountUser = event.authSource === "supabase" || event.authSource === "api_key";
+  const createdAt = new Date().toISOString();
+
+  return {
+    user_id: isAccountUser ? event.userId : null,
+    client_user_id: isAccountUser ? null : event.userId,
+    organization_id: isAccountUser ? (event.organizationId ?? null) : null,
+    action: "transcription",
+    request_id: event.requestId,
+    duration_ms: event.totalLatencyMs,
+    audio_bytes: event.audioBytes,
+    audio_seconds: event.audioSeconds ?? null,
+    raw_characters: event.rawCharacters,
+    clean_characters: event.cleanCharacters,
+    stt_latency_ms: event.sttLatencyMs,
+    rewrite_latency_ms: event.rewriteLatencyMs,
+    auth_source: event.authSource,
+    is_authenticated: event.isAuthenticated,
+    skip_reason: event.skipReason ?? null,
+    provider_cost_estimate: event.providerCostEstimateUsd ?? null,
+    avoided_provider_cost_estimate: event.avoidedProviderCostEstimateUsd ?? null,
+    created_at: createdAt,
+    usage_date: createdAt.slice(0, 10)
+  };
+}
+
+function fromUsageLogRow(row: StoredRow): UsageRecord {
+  return {
+    requestId: readString(row.request_id),
+    userId: readString(row.user_id) || readString(row.client_user_id),
+    organizationId: readString(row.organization_id) || undefined,
+    audioBytes: readNumber(row.audio_bytes),
+    audioSeconds: readNumber(row.audio_seconds),
+    rawCharacters: readNumber(row.raw_characters),
+    cleanCharacters: readNumber(row.clean_characters),
+    sttLatencyMs: readNumber(row.stt_latency_ms),
+    rewriteLatencyMs: readNumber(row.rewrite_latency_ms),
+    totalLatencyMs: readNumber(row.duration_ms),
+    authSource: readString(row.auth_source),
+    skipReason: readString(row.skip_reason) || undefined,
+    providerCostEstimateUsd: readNumber(row.provider_cost_estimate),
+    avoidedProviderCostEstimateUsd: readNumber(row.avoided_provider_cost_estimate),
+    createdAt: readString(row.created_at)
+  };
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function readNumber(value: unknown): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+
+  return 0;
 }
@@ -0,0 +1,188 @@
+import { roundUsd } from "./providerCostService";
+import {
+  evaluateUsageQuota,
+  getBillingPeriodBounds,
+  getDayBounds,
+  type QuotaScope,
+  type QuotaStatus
+} from "./quotaService";
+import {
+  listUsageRecords,
+  sumDailyUsage,
+  toUsageAmounts,
+  type DailyUsageAmounts,
+  type UsageAmounts,
+  type UsageRecord
+} from "./usageMeteringService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageTotals = {
+  requests: number;
+  // Requests answered without provider calls (no speech detected or cache hit).
+  skippedRequests: number;
+  audioBytes: number;
+  audioSeconds: number;
+  // Characters and latencies cover only the requests that reached the providers.
+  rawCharacters: number;
+  cleanCharacters: number;
+  averageSttLatencyMs: number | null;
+  averageRewriteLatencyMs: number | null;
+  estimatedCostUsd: number;
+  // Estimated spend the skipped requests saved.
+  avoidedCostUsd: number;
+};
+
+export type DailyUsage = {
+  date: string;
+  totals: UsageTotals;
+};
+
+export type UsageSummary = {
+  billingPeriod: {
+    startsAt: Date;
+    endsAt: Date;
+    totals: UsageTotals;
+  };
+  daily: DailyUsage[];
+  quota: QuotaStatus;
+  // Billing-period totals per member, for organization summaries.
+  members?: Array<{ userId: string; totals: UsageTotals }>;
+};
+
+// With an organization, totals cover its usage by all members. The quota is the
+// organization's pool when it has one, otherwise the caller's own quota.
+export async function buildUsageSummary(input: {
+  userId: string;
+  organizationId?: string;
+  scope: QuotaScope;
+  days: number;
+  now?: Date;
+}): Promise<UsageSummary> {
+  const now = input.now ?? new Date();
+  const period = getBillingPeriodBounds(now);
+  const today = getDayBounds(now);
+  const firstDay = new Date(today.startsAt.getTime() - (input.days - 1) * DAY_MS);
+  const since = firstDay < period.startsAt ? firstDay : period.startsAt;
+
+  const records = await listUsageRecords(
+    input.organizationId
+      ? { organizationId: input.organizationId, since }
+      : { userId: input.userId, excludeOrganizationIds: input.scope.pooledOrganizationIds, since }
+  );
+  const periodRecords = records.filter((record) => new Date(record.createdAt) >= period.startsAt);
+  const countsTowardsQuota = Boolean(input.scope.organization) || !input.organizationId;
+  const quota = await evaluateUsageQuota({
+    userId: input.userId,
+    scope: input.scope,
+    now,
+    records: countsTowardsQuota ? periodRecords : undefined
+  });
+
+  return {
+    billingPeriod: {
+      startsAt: period.startsAt,
+      endsAt: period.resetsAt,
+      totals: aggregateUsage(periodRecords.map(toUsageAmounts))
+    },
+    daily: buildDailyUsage(
+      records.map((record) => ({ ...toUsageAmounts(record), date: record.createdAt.slice(0, 10) })),
+      firstDay,
+      input.days
+    ),
+    quota,
+    members: input.organizationId ? buildMemberUsage(periodRecords) : undefined
+  };
+}
+
+// Daily totals across every caller, for operators watching provider spend. The
+// store totals each day, so the rows themselves are never read.
+export async function buildGlobalDailyUsage(input: { days: number; now?: Date }): Promise<DailyUsage[]> {
+  const today = getDayBounds(input.now ?? new Date());
+  const firstDay = new Date(today.startsAt.getTime() - (input.days - 1) * DAY_MS);
+  return buildDailyUsage(await sumDailyUsage(firstDay), firstDay, input.days);
+}
+
+function buildDailyUsage(entries: DailyUsageAmounts[], firstDay: Date, days: number): DailyUsage[] {
+  const entriesByDate = new Map<string, DailyUsageAmounts[]>();
+  for (const entry of entries) {
+    const bucket = entriesByDate.get(entry.date);
+    if (bucket) {
+      bucket.push(entry);
+    } else {
+      entriesByDate.set(entry.date, [entry]);
+    }
+  }
+
+  const daily: DailyUsage[] = [];
+  for (let index = 0; index < days; index += 1) {
+    const date = new Date(firstDay.getTime() + index * DAY_MS).toISOString().slice(0, 10);
+    daily.push({
+      date,
+      totals: aggregateUsage(entriesByDate.get(date) ?? [])
+    });
+  }
+
+  return daily;
+}
+
+function buildMemberUsage(records: UsageRecord[]): Array<{ userId: string; totals: UsageTotals }> {
+  const recordsByUser = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const bucket = recordsByUser.get(record.userId);
+    if (bucket) {
+      bucket.push(record);
+    } else {
+      recordsByUser.set(record.userId, [record]);
+    }
+  }
+
+  return [...recordsByUser.entries()].map(([userId, userRecords]) => ({
+    userId,
+    totals: aggregateUsage(userRecords.map(toUsageAmounts))
+  }));
+}
+
+function aggregateUsage(entries: UsageAmounts[]): UsageTotals {
+  let requests = 0;
+  let audioBytes = 0;
+  let audioSeconds = 0;
+  let rawCharacters = 0;
+  let cleanCharacters = 0;
+  let sttLatencyMs = 0;
+  let rewriteLatencyMs = 0;
+  let skippedRequests = 0;
+  let estimatedCostUsd = 0;
+  let avoidedCostUsd = 0;
+
+  for (const entry of entries) {
+    requests += entry.requests;
+    audioBytes += entry.audioBytes;
+    audioSeconds += entry.audioSeconds;
+    estimatedCostUsd += entry.providerCostEstimateUsd;
+    if (entry.skipReason) {
+      skippedRequests += entry.requests;
+      avoidedCostUsd += entry.avoidedProviderCostEstimateUsd;
+      continue;
+    }
+
+    rawCharacters += entry.rawCharacters;
+    cleanCharacters += entry.cleanCharacters;
+    sttLatencyMs += entry.sttLatencyMs;
+    rewriteLatencyMs += entry.rewriteLatencyMs;
+  }
+
+  const providerRequests = requests - skippedRequests;
+  return {
+    requests,
+    skippedRequests,
+    audioBytes,
+    audioSeconds: Math.round(audioSeconds * 1000) / 1000,
+    rawCharacters,
+    cleanCharacters,
+    averageSttLatencyMs: providerRequests > 0 ? Math.round(sttLatencyMs / providerRequests) : null,
+    averageRewriteLatencyMs: providerRequests > 0 ? Math.round(rewriteLatencyMs / providerRequests) : null,
+    estimatedCostUsd: roundUsd(estimatedCostUsd),
+    avoidedCostUsd: roundUsd(avoidedCostUsd)
+  };
+}
@@ -1,17 +1,66 @@
-import {
-  transcribeWithElevenLabs,
-  type ElevenLabsRequestOptions
-} from "../external/elevenLabsClient";
-import { rewriteTranscriptWithOpenAI } from "../external/openAIClient";
+import { createHash } from "node:crypto";
 import { env } from "../config/env";
 import { HttpError } from "../lib/httpError";
+import type { PcmLayout } from "../lib/audioFormat";
 import { logger } from "../lib/logger";
+import { emptyTranscriptTimeline, type TranscriptTimeline } from "../lib/transcriptTimeline";
+import { measureVoiceActivity } from "../lib/voiceActivity";
+import { getResponseCacheStore, type ResponseCacheStore } from "../stores/responseCacheStore";
+import { estimateRewriteCostUsd, estimateSttCostUsd, roundUsd } from "./providerCostService";
+import { getRewriteProvider, type RewriteProviderName } from "./rewriteProviders";
+import {
+  applyDictionaryReplacements,
+  buildDictionaryInstructions,
+  mergeDictionaryKeyterms,
+  type DictionaryEntry,
+  type DictionaryReplacement
+} from "./dictionaryService";
+import {
+  DEFAULT_REWRITE_MODE,
+  getBuiltInRewriteInstructions,
+  type ResolvedRewriteMode
+} from "./rewriteStyleService";
+import { expandSnippets, type Snippet, type SnippetMatch } from "./snippetService";
+import { recordProviderSpend } from "./spendService";
+import {
+  getDefaultSttModelId,
+  resolveSttProviderChain,
+  transcribeWithFailover,
+  type SttExecutionResult,
+  type SttFailover,
+  type SttProviderName,
+  type SttRequestOptions
+} from "./sttProviders";
 
 export type VoiceToTextInput = {
   fileBuffer: Buffer;
   fileName: string;
   mimeType?: string;
-  sttOptions?: ElevenLabsRequestOptions;
+  // Duration read from the container header; preferred over the provider's
+  // estimate for metering.
+  audioDurationSeconds?: number;
+  // Size-based estimate for compressed uploads. Only prices the STT call, when
+  // neither the header nor the provider gives a duration (gpt-4o transcription
+  // models answer `json` without one).
+  estimatedAudioDurationSeconds?: number;
+  // Sample layout of uncompressed WAV uploads, used for the silence check.
+  pcm?: PcmLayout;
+  sttOptions?: SttRequestOptions;
+  sttProvider?: SttProviderName;
+  // Overrides TRANSCRIPTION_REQUEST_TIMEOUT_MS, e.g. for long recordings processed as jobs.
+  sttTimeoutMs?: number;
+  rewriteProvider?: RewriteProviderName;
+  // Override OPENAI_REWRITE_TIMEOUT_MS and the rewrite's output token ceiling,
+  // e.g. for jobs, whose transcripts can be much longer.
+  rewriteTimeoutMs?: number;
+  rewriteMaxOutputTokens?: number;
+  // Resolved by the caller so unknown modes are rejected before any provider call.
+  rewriteMode?: ResolvedRewriteMode;
+  // Expanded in both transcripts once the rewrite has finished.
+  snippets?: readonly Snippet[];
+  // Merged into STT keyterms, applied as replacements to the raw transcript and
+  // listed as spellings to preserve in the rewrite prompt.
+  dictionary?: readonly DictionaryEntry[];
   providerOverrides?: {
     elevenLabsApiKey?: string;
     elevenLabsBaseUrl?: string;
@@ -22,19 +71,55 @@ export type VoiceToTextInput = {
   };
   requestId?: string;
   userId?: string;
+  // Only verified accounts are cached: other callers share or pick their user
+  // ids, so their cached transcripts would be served to each other.
+  cacheable?: boolean;
+  // Invoked as soon as STT completes, before the rewrite step starts.
+  onRawTranscript?: (event: RawTranscriptEvent) => void;
+};
+
+export type RawTranscriptEvent = {
+  rawText: string;
+  sttProvider: SttProviderName;
+  sttModelId: string;
+  sttLatencyMs: number;
 };
 
 export type VoiceToTextResult = {
   rawText: string;
   cleanText: string;
+  sttProvider: SttProviderName;
   sttModelId: string;
+  sttFailover?: SttFailover;
+  rewriteProvider: RewriteProviderName;
+  rewriteMode: string;
   rewriteModel: string;
-  rewriteStatus: "completed" | "fallback_raw";
+  rewriteStatus: "completed" | "fallback_raw" | "skipped";
   sttLatencyMs: number;
   rewriteLatencyMs: number;
+  audioSeconds?: number;
+  // Word timings, segments and audio events as returned by the STT provider;
+  // dictionary replacements and snippet expansions are not applied to them.
+  timeline: TranscriptTimeline;
   rewriteError?: string;
+  // Set when no provider was called: the clip contained no speech, or an
+  // identical request was answered from the response cache.
+  skipReason?: "no_speech" | "cache_hit";
+  // `bypass` when the request is not cacheable (caching disabled, BYOK keys,
+  // callers without an account).
+  cacheStatus: "hit" | "miss" | "bypass";
+  // Estimated spend on the platform's provider accounts; 0 for BYOK requests
+  // and for requests answered without provider calls.
+  providerCostEstimateUsd: number;
+  // Set with `skipReason`: the estimated spend the skipped provider calls would
+  // have cost the platform.
+  avoidedProviderCostEstimateUsd?: number;
+  dictionaryReplacements: DictionaryReplacement[];
+  snippetMatches: SnippetMatch[];
 };
 
+type PipelineLogger = typeof logger;
+
 export async function processVoiceToText(input: VoiceToTextInput): Promise<VoiceToTextResult> {
   const requestLogger = logger.child({
     component: "voice-to-text",
@@ -42,27 +127,185 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
     userId: input.userId ?? "anonymous"
   });
 
+  // BYOK requests are billed to the caller's own keys and are never cached.
+  const cache = input.cacheable && !input.providerOverrides ? getResponseCacheStore() : undefined;
+  const cacheKey = cache ? buildResponseCacheKey(input) : undefined;
+  if (!cache || !cacheKey) {
+    const result = await runPipeline(input, requestLogger);
+    return { ...result, ...billProviderSpend(input, result), cacheStatus: "bypass" };
+  }
+
+  const cached = await readCachedResult(cache, cacheKey, requestLogger);
+  if (cached) {
+    requestLogger.info({ stage: "cache", cacheStatus: "hit" }, "voice-to-text response served from cache");
+    input.onRawTranscript?.({
+      rawText: cached.rawText,
+      sttProvider: cached.sttProvider,
+      sttModelId: cached.sttModelId,
+      sttLatencyMs: 0
+    });
+
+    return {
+      ...cached,
+      sttLatencyMs: 0,
+      rewriteLatencyMs: 0,
+      skipReason: "cache_hit",
+      cacheStatus: "hit",
+      providerCostEstimateUsd: 0,
+      avoidedProviderCostEstimateUsd: cached.providerCostEstimateUsd
+    };
+  }
+
+  const result = await runPipeline(input, requestLogger);
+  // A raw fallback comes from a transient rewrite failure; caching it would
+  // pin the degraded transcript to every retry.
+  if (result.rewriteStatus !== "fallback_raw" && !result.skipReason) {
+    await writeCachedResult(cache, cacheKey, result, requestLogger);
+  }
+
+  return { ...result, ...billProviderSpend(input, result), cacheStatus: "miss" };
+}
+
+function billProviderSpend(
+  input: VoiceToTextInput,
+  result: Pick<VoiceToTextResult, "providerCostEstimateUsd">
+): Pick<VoiceToTextResult, "providerCostEstimateUsd"> {
+  // BYOK requests run on the caller's provider accounts.
+  if (input.providerOverrides) {
+    return { providerCostEstimateUsd: 0 };
+  }
+
+  recordProviderSpend(result.providerCostEstimateUsd);
+  return { providerCostEstimateUsd: result.providerCostEstimateUsd };
+}
+
+async function runPipeline(
+  input: VoiceToTextInput,
+  requestLogger: PipelineLogger
+): Promise<Omit<VoiceToTextResult, "cacheStatus">> {
+  const snippets = input.snippets ?? [];
+  const onRawTranscript = input.onRawTranscript;
+
+  const result = await transcribeAndRewrite(
+    {
+      ...input,
+      onRawTranscript: onRawTranscript
+        ? (event) => onRawTranscript({ ...event, rawText: expandSnippets(event.rawText, snippets).text })
+        : undefined
+    },
+    requestLogger
+  );
+
+  if (snippets.length === 0) {
+    return { ...result, snippetMatches: [] };
+  }
+
+  const rawExpansion = expandSnippets(result.rawText, snippets);
+  const cleanExpansion = expandSnippets(result.cleanText, snippets);
+  const snippetMatches = mergeSnippetMatches(rawExpansion.matches, cleanExpansion.matches);
+
+  if (snippetMatches.length > 0) {
+    requestLogger.info(
+      {
+        stage: "snippets",
+        snippetCount: snippets.length,
+        snippetMatches: snippetMatches.map((match) => ({ snippetId: match.snippetId, count: match.count }))
+      },
+      "snippets expanded"
+    );
+  }
+
+  return {
+    ...result,
+    rawText: rawExpansion.text,
+    cleanText: cleanExpansion.text,
+    snippetMatches
+  };
+}
+
+async function transcribeAndRewrite(
+  input: VoiceToTextInput,
+  requestLogger: PipelineLogger
+): Promise<Omit<VoiceToTextResult, "snippetMatches" | "cacheStatus">> {
   requestLogger.info(
     {
       stage: "pipeline_start",
       fileName: input.fileName,
       mimeType: input.mimeType ?? "application/octet-stream",
       fileBytes: input.fileBuffer.byteLength,
+      audioDurationSeconds: input.audioDurationSeconds,
       sttOptions: input.sttOptions ?? {}
     },
     "voice-to-text pipeline started"
   );
 
+  const dictionary = input.dictionary ?? [];
+  const sttChain = resolveSttProviderChain(input.sttProvider);
+  const rewriteProvider = getRewriteProvider(input.rewriteProvider);
+  const rewriteMode = input.rewriteMode?.mode ?? DEFAULT_REWRITE_MODE;
+
+  if (!containsSpeech(input, requestLogger)) {
+    input.onRawTranscript?.({
+      rawText: "",
+      sttProvider: sttChain.primary,
+      sttModelId: "none",
+      sttLatencyMs: 0
+    });
+
+    return {
+      rawText: "",
+      cleanText: "",
+      sttProvider: sttChain.primary,
+      sttModelId: "none",
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
+      rewriteModel: "none",
+      rewriteStatus: "skipped",
+      sttLatencyMs: 0,
+      rewriteLatencyMs: 0,
+      audioSeconds: input.audioDurationSeconds,
+      timeline: emptyTranscriptTimeline(),
+      skipReason: "no_speech",
+      dictionaryReplacements: [],
+      providerCostEstimateUsd: 0,
+      avoidedProviderCostEstimateUsd: estimateSkippedSttCostUsd(input, sttChain.primary)
+    };
+  }
+
   const sttStartedAt = Date.now();
-  let sttResult: Awaited<ReturnType<typeof transcribeWithElevenLabs>>;
+  let sttResult: SttExecutionResult;
   try {
-    sttResult = await transcribeWithElevenLabs({
-      fileBuffer: input.fileBuffer,
-      fileName: input.fileName,
-      mimeType: input.mimeType,
-      options: input.sttOptions,
-      apiKey: input.providerOverrides?.elevenLabsApiKey,
-      baseUrl: input.providerOverrides?.elevenLabsBaseUrl
+    sttResult = await transcribeWithFailover({
+      primary: sttChain.primary,
+      secondary: sttChain.secondary,
+      request: {
+        fileBuffer: input.fileBuffer,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        options: {
+          ...input.sttOptions,
+          keyterms: mergeDictionaryKeyterms(input.sttOptions?.keyterms, dictionary)
+        },
+        timeoutMs: input.sttTimeoutMs,
+        credentials: {
+          elevenLabsApiKey: input.providerOverrides?.elevenLabsApiKey,
+          elevenLabsBaseUrl: input.providerOverrides?.elevenLabsBaseUrl,
+          openAIApiKey: input.providerOverrides?.openAIApiKey,
+          openAIBaseUrl: input.providerOverrides?.openAIBaseUrl
+        }
+      },
+      onFailover: (failover) => {
+        requestLogger.warn(
+          {
+            stage: "stt",
+            sttProvider: failover.from,
+            sttFailoverProvider: sttChain.secondary,
+            sttErrorStatusCode: failover.statusCode,
+            sttError: failover.error
+          },
+          "primary STT provider failed; failing over to secondary provider"
+        );
+      }
     });
   } catch (error) {
     const sttLatencyMs = Date.now() - sttStartedAt;
@@ -70,7 +313,8 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
     const sttErrorDetails = error instanceof HttpError ? error.details : undefined;
     const sttErrorStatusCode = error instanceof HttpError ? error.statusCode : undefined;
     const sttFailureLog: Record<string, unknown> = {
-      stage: "elevenlabs_stt",
+      stage: "stt",
+      sttProvider: sttChain.primary,
       sttLatencyMs,
       sttStatus: "failed",
       sttError
@@ -81,13 +325,20 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
     if (sttErrorDetails !== undefined) {
       sttFailureLog.sttErrorDetails = buildPayloadPreview(sttErrorDetails);
     }
-    requestLogger.error(sttFailureLog, "ElevenLabs transcription failed");
+    requestLogger.error(sttFailureLog, "transcription failed");
     throw error;
   }
   const sttLatencyMs = Date.now() - sttStartedAt;
+  const audioSeconds = input.audioDurationSeconds ?? sttResult.audioDurationSeconds;
+  const sttCostUsd = estimateSttCostUsd({
+    provider: sttResult.provider,
+    modelId: sttResult.modelId,
+    audioSeconds: audioSeconds ?? input.estimatedAudioDurationSeconds
+  });
 
   const sttLog: Record<string, unknown> = {
-    stage: "elevenlabs_stt",
+    stage: "stt",
+    sttProvider: sttResult.provider,
     sttModelId: sttResult.modelId,
     sttLatencyMs,
     rawTextChars: sttResult.rawText.length,
@@ -97,46 +348,123 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
     sttLog.rawText = clipText(sttResult.rawText);
   }
   if (env.LOG_PROVIDER_PAYLOADS) {
-    sttLog.elevenLabsPayload = buildPayloadPreview(sttResult.providerPayload);
+    sttLog.sttPayload = buildPayloadPreview(sttResult.providerPayload);
+  }
+  if (sttResult.failover) {
+    sttLog.sttFailoverFrom = sttResult.failover.from;
+  }
+  requestLogger.info(sttLog, "transcription completed");
+
+  const dictionaryResult = applyDictionaryReplacements(sttResult.rawText, dictionary);
+  const rawText = dictionaryResult.text;
+  if (dictionaryResult.replacements.length > 0) {
+    requestLogger.info(
+      {
+        stage: "dictionary",
+        dictionaryReplacements: dictionaryResult.replacements.map((replacement) => ({
+          entryId: replacement.entryId,
+          count: replacement.count
+        }))
+      },
+      "dictionary replacements applied"
+    );
   }
-  requestLogger.info(sttLog, "ElevenLabs transcription completed");
+
+  input.onRawTranscript?.({
+    rawText: rawText,
+    sttProvider: sttResult.provider,
+    sttModelId: sttResult.modelId,
+    sttLatencyMs
+  });
 
   const rewriteStartedAt = Date.now();
 
+  if (!rewriteProvider.performsRewrite) {
+    requestLogger.info(
+      {
+        stage: "rewrite",
+        rewriteProvider: rewriteProvider.name,
+        rewriteMode,
+        rewriteStatus: "skipped"
+      },
+      "rewrite skipped; returning raw transcript"
+    );
+
+    return {
+      rawText: rawText,
+      cleanText: rawText,
+      sttProvider: sttResult.provider,
+      sttModelId: sttResult.modelId,
+      sttFailover: sttResult.failover,
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
+      rewriteModel: "none",
+      rewriteStatus: "skipped",
+      sttLatencyMs,
+      rewriteLatencyMs: 0,
+      audioSeconds,
+      timeline: sttResult.timeline,
+      dictionaryReplacements: dictionaryResult.replacements,
+      providerCostEstimateUsd: sttCostUsd
+    };
+  }
+
   try {
-    const rewriteResult = await rewriteTranscriptWithOpenAI(sttResult.rawText, {
-      apiKey: input.providerOverrides?.openAIApiKey,
-      baseUrl: input.providerOverrides?.openAIBaseUrl,
-      model: input.providerOverrides?.openAIModel,
-      timeoutMs: input.providerOverrides?.openAITimeoutMs
+    const rewriteResult = await rewriteProvider.rewrite({
+      rawText: rawText,
+      instructions: buildRewriteInstructions(input.rewriteMode, dictionary),
+      credentials: {
+        openAIApiKey: input.providerOverrides?.openAIApiKey,
+        openAIBaseUrl: input.providerOverrides?.openAIBaseUrl,
+        openAIModel: input.providerOverrides?.openAIModel,
+        openAITimeoutMs: input.providerOverrides?.openAITimeoutMs ?? input.rewriteTimeoutMs
+      },
+      maxOutputTokens: input.rewriteMaxOutputTokens
     });
     const rewriteLatencyMs = Date.now() - rewriteStartedAt;
-    const comparison = compareTexts(sttResult.rawText, rewriteResult.cleanText);
+    const comparison = compareTexts(rawText, rewriteResult.cleanText);
 
     const rewriteLog: Record<string, unknown> = {
-      stage: "openai_rewrite",
+      stage: "rewrite",
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
       rewriteModel: rewriteResult.model,
       rewriteLatencyMs,
       rewriteStatus: "completed",
       comparison
     };
     if (env.LOG_PIPELINE_TEXT) {
-      rewriteLog.rawText = clipText(sttResult.rawText);
+      rewriteLog.rawText = clipText(rawText);
       rewriteLog.cleanText = clipText(rewriteResult.cleanText);
     }
     if (env.LOG_PROVIDER_PAYLOADS) {
-      rewriteLog.openAIPayload = buildPayloadPreview(rewriteResult.providerPayload);
+      rewriteLog.rewritePayload = buildPayloadPreview(rewriteResult.providerPayload);
     }
-    requestLogger.info(rewriteLog, "OpenAI rewrite completed");
+    requestLogger.info(rewriteLog, "rewrite completed");
 
     return {
-      rawText: sttResult.rawText,
+      rawText: rawText,
       cleanText: rewriteResult.cleanText,
+      sttProvider: sttResult.provider,
       sttModelId: sttResult.modelId,
+      sttFailover: sttResult.failover,
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
       rewriteModel: rewriteResult.model,
       rewriteStatus: "completed",
       sttLatencyMs,
-      rewriteLatencyMs
+      rewriteLatencyMs,
+      audioSeconds,
+      timeline: sttResult.timeline,
+      dictionaryReplacements: dictionaryResult.replacements,
+      providerCostEstimateUsd: roundUsd(
+        sttCostUsd +
+          estimateRewriteCostUsd({
+            provider: rewriteProvider.name,
+            model: rewriteResult.model,
+            usage: rewriteResult.usage
+          })
+      )
     };
   } catch (error) {
     const rewriteLatencyMs = Date.now() - rewriteStartedAt;
@@ -144,12 +472,14 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
     const rewriteErrorDetails = error instanceof HttpError ? error.details : undefined;
     const rewriteErrorStatusCode = error instanceof HttpError ? error.statusCode : undefined;
     const fallbackLog: Record<string, unknown> = {
-      stage: "openai_rewrite",
+      stage: "rewrite",
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
       rewriteModel: input.providerOverrides?.openAIModel ?? env.OPENAI_MODEL,
       rewriteLatencyMs,
       rewriteStatus: "fallback_raw",
       rewriteError,
-      comparison: compareTexts(sttResult.rawText, sttResult.rawText)
+      comparison: compareTexts(rawText, rawText)
     };
     if (rewriteErrorStatusCode !== undefined) {
       fallbackLog.rewriteErrorStatusCode = rewriteErrorStatusCode;
@@ -158,24 +488,156 @@ export async function processVoiceToText(input: VoiceToTextInput): Promise<Voice
       fallbackLog.rewriteErrorDetails = rewriteErrorDetails;
     }
     if (env.LOG_PIPELINE_TEXT) {
-      fallbackLog.rawText = clipText(sttResult.rawText);
-      fallbackLog.cleanText = clipText(sttResult.rawText);
+      fallbackLog.rawText = clipText(rawText);
+      fallbackLog.cleanText = clipText(rawText);
     }
-    requestLogger.warn(fallbackLog, "OpenAI rewrite failed; returning raw transcript");
+    requestLogger.warn(fallbackLog, "rewrite failed; returning raw transcript");
 
     return {
-      rawText: sttResult.rawText,
-      cleanText: sttResult.rawText,
+      rawText: rawText,
+      cleanText: rawText,
+      sttProvider: sttResult.provider,
       sttModelId: sttResult.modelId,
+      sttFailover: sttResult.failover,
+      rewriteProvider: rewriteProvider.name,
+      rewriteMode,
       rewriteModel: input.providerOverrides?.openAIModel ?? env.OPENAI_MODEL,
       rewriteStatus: "fallback_raw",
       sttLatencyMs,
       rewriteLatencyMs,
-      rewriteError
+      audioSeconds,
+      timeline: sttResult.timeline,
+      rewriteError,
+      dictionaryReplacements: dictionaryResult.replacements,
+      providerCostEstimateUsd: sttCostUsd
     };
   }
 }
 
+// Identical audio only maps to the same response when everything that shapes
+// the output matches too: caller, providers, STT options, rewrite prompt,
+// dictionary and snippets.
+function buildResponseCacheKey(input: VoiceToTextInput): string {
+  const audioHash = createHash("sha256").update(input.fileBuffer).digest("hex");
+  const settings = JSON.stringify({
+    userId: input.userId ?? null,
+    sttProvider: input.sttProvider ?? env.STT_PROVIDER,
+    sttOptions: input.sttOptions ?? {},
+    rewriteProvider: input.rewriteProvider ?? env.REWRITE_PROVIDER,
+    rewriteMode: input.rewriteMode ? [input.rewriteMode.mode, input.rewriteMode.instructions] : null,
+    dictionary: (input.dictionary ?? []).map((entry) => [entry.term, entry.aliases]),
+    snippets: (input.snippets ?? []).map((snippet) => [snippet.id, snippet.trigger, snippet.expansion, snippet.enabled])
+  });
+  const settingsHash = createHash("sha256").update(settings).digest("hex");
+
+  return `voice-to-text:${audioHash}:${settingsHash}`;
+}
+
+// The cache is an optimization: lookups and writes that fail are logged and
+// the request continues as a miss.
+async function readCachedResult(
+  cache: ResponseCacheStore,
+  cacheKey: string,
+  requestLogger: PipelineLogger
+): Promise<Omit<VoiceToTextResult, "cacheStatus"> | undefined> {
+  try {
+    return (await cache.get(cacheKey)) as Omit<VoiceToTextResult, "cacheStatus"> | undefined;
+  } catch (error) {
+    requestLogger.warn(
+      { stage: "cache", errorMessage: error instanceof Error ? error.message : String(error) },
+      "response cache lookup failed"
+    );
+    return undefined;
+  }
+}
+
+async function writeCachedResult(
+  cache: ResponseCacheStore,
+  cacheKey: string,
+  result: Omit<VoiceToTextResult, "cacheStatus">,
+  requestLogger: PipelineLogger
+): Promise<void> {
+  try {
+    await cache.set(cacheKey, result, env.RESPONSE_CACHE_TTL_MS);
+  } catch (error) {
+    requestLogger.warn(
+      { stage: "cache", errorMessage: error instanceof Error ? error.message : String(error) },
+      "response cache write failed"
+    );
+  }
+}
+
+// Only uncompressed WAV can be measured without decoding; other formats always
+// go to the provider.
+// Only the transcription is estimated: the rewrite's token counts are unknown
+// without calling it. BYOK requests would not have run on the platform's accounts.
+function estimateSkippedSttCostUsd(input: VoiceToTextInput, provider: SttProviderName): number {
+  if (input.providerOverrides) {
+    return 0;
+  }
+
+  return estimateSttCostUsd({
+    provider,
+    modelId: input.sttOptions?.modelId ?? getDefaultSttModelId(provider),
+    audioSeconds: input.audioDurationSeconds ?? input.estimatedAudioDurationSeconds
+  });
+}
+
+function containsSpeech(input: VoiceToTextInput, requestLogger: PipelineLogger): boolean {
+  if (!env.SILENCE_DETECTION || !input.pcm) {
+    return true;
+  }
+
+  const minSpeechSeconds = env.SILENCE_MIN_SPEECH_MS / 1000;
+  const activity = measureVoiceActivity(input.fileBuffer, input.pcm, {
+    thresholdDbfs: env.SILENCE_THRESHOLD_DBFS,
+    stopAfterSeconds: minSpeechSeconds
+  });
+  if (activity.activeSeconds >= minSpeechSeconds) {
+    return true;
+  }
+
+  requestLogger.info(
+    {
+      stage: "silence_check",
+      activeSeconds: activity.activeSeconds,
+      peakDbfs: activity.peakDbfs,
+      thresholdDbfs: env.SILENCE_THRESHOLD_DBFS,
+      minSpeechMs: env.SILENCE_MIN_SPEECH_MS,
+      audioDurationSeconds: input.audioDurationSeconds
+    },
+    "no speech detected; skipping STT and rewrite"
+  );
+  return false;
+}
+
+function buildRewriteInstructions(
+  rewriteMode: ResolvedRewriteMode | undefined,
+  dictionary: readonly DictionaryEntry[]
+): string | undefined {
+  const dictionaryInstructions = buildDictionaryInstructions(dictionary);
+  if (!dictionaryInstructions) {
+    return rewriteMode?.instructions;
+  }
+
+  const baseInstructions = rewriteMode?.instructions ?? getBuiltInRewriteInstructions(DEFAULT_REWRITE_MODE);
+  return `${baseInstructions} ${dictionaryInstructions}`;
+}
+
+// A snippet can fire in the raw transcript, the clean transcript, or both; it is
+// reported once with the higher of the two counts.
+function mergeSnippetMatches(rawMatches: SnippetMatch[], cleanMatches: SnippetMatch[]): SnippetMatch[] {
+  const merged = new Map<string, SnippetMatch>();
+  for (const match of [...cleanMatches, ...rawMatches]) {
+    const existing = merged.get(match.snippetId);
+    if (!existing || match.count > existing.count) {
+      merged.set(match.snippetId, match);
+    }
+  }
+
+  return [...merged.values()];
+}
+
 function compareTexts(rawText: string, cleanText: string): {
   changed: boolean;
   rawChars: number;
@@ -0,0 +1,90 @@
+import { env } from "../config/env";
+import { createRedisClient, type RedisClient } from "../external/redisClient";
+
+export type RateLimitWindowCounts = {
+  current: number;
+  previous: number;
+};
+
+export type RateLimitStore = {
+  // Counts one hit in fixed window `window` (the window index, `now / windowMs`)
+  // and returns the hits in it and in the window before.
+  hit(key: string, window: number, windowMs: number): Promise<RateLimitWindowCounts>;
+};
+
+type MemoryCounter = {
+  window: number;
+  current: number;
+  previous: number;
+  expiresAtMs: number;
+};
+
+const HARD_COUNTER_LIMIT = 50_000;
+const REDIS_KEY_PREFIX = "ratelimit:";
+
+const memoryCounters = new Map<string, MemoryCounter>();
+let lastCleanupAtMs = 0;
+let redisClient: RedisClient | undefined;
+
+const memoryRateLimitStore: RateLimitStore = {
+  async hit(key, window, windowMs) {
+    const now = Date.now();
+    const counter = memoryCounters.get(key);
+    const expiresAtMs = (window + 2) * windowMs;
+    let counts: RateLimitWindowCounts;
+
+    if (counter?.window === window) {
+      counts = { current: counter.current + 1, previous: counter.previous };
+    } else if (counter?.window === window - 1) {
+      counts = { current: 1, previous: counter.current };
+    } else {
+      counts = { current: 1, previous: 0 };
+    }
+
+    memoryCounters.set(key, { window, ...counts, expiresAtMs });
+    cleanupCounters(now);
+    return counts;
+  }
+};
+
+// Counters live in `ratelimit:<key>:<window>` and expire one window after they
+// stop being the previous window, so every instance shares the same counts.
+const redisRateLimitStore: RateLimitStore = {
+  async hit(key, window, windowMs) {
+    redisClient ??= createRedisClient(env.RATE_LIMIT_REDIS_URL ?? "", env.RATE_LIMIT_REDIS_TIMEOUT_MS);
+    const currentKey = `${REDIS_KEY_PREFIX}${key}:${window}`;
+    const [current, , previous] = await redisClient.pipeline([
+      ["INCR", currentKey],
+      ["PEXPIRE", currentKey, String(windowMs * 2)],
+      ["GET", `${REDIS_KEY_PREFIX}${key}:${window - 1}`]
+    ]);
+
+    return { current: Number(current), previous: Number(previous ?? 0) };
+  }
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  return env.RATE_LIMIT_STORE === "redis" ? redisRateLimitStore : memoryRateLimitStore;
+}
+
+export function resetRateLimitStoreForTest(): void {
+  memoryCounters.clear();
+  lastCleanupAtMs = 0;
+}
+
+function cleanupCounters(nowMs: number): void {
+  if (nowMs - lastCleanupAtMs < 60_000 && memoryCounters.size < HARD_COUNTER_LIMIT) {
+    return;
+  }
+
+  lastCleanupAtMs = nowMs;
+  for (const [key, counter] of memoryCounters.entries()) {
+    if (counter.expiresAtMs <= nowMs) {
+      memoryCounters.delete(key);
+    }
+  }
+
+  if (memoryCounters.size > HARD_COUNTER_LIMIT) {
+    memoryCounters.clear();
+  }
+}
@@ -0,0 +1,60 @@
+import { env } from "../config/env";
+
+export type ResponseCacheStore = {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+};
+
+type MemoryCacheEntry = {
+  value: unknown;
+  expiresAtMs: number;
+};
+
+// Map iteration follows insertion order, so re-inserting an entry on every hit
+// keeps the least recently used entry first in line for eviction.
+const memoryEntries = new Map<string, MemoryCacheEntry>();
+
+const memoryResponseCache: ResponseCacheStore = {
+  async get(key) {
+    const entry = memoryEntries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    memoryEntries.delete(key);
+    if (entry.expiresAtMs <= Date.now()) {
+      return undefined;
+    }
+
+    memoryEntries.set(key, entry);
+    return entry.value;
+  },
+
+  async set(key, value, ttlMs) {
+    memoryEntries.delete(key);
+    memoryEntries.set(key, { value, expiresAtMs: Date.now() + ttlMs });
+
+    while (memoryEntries.size > env.RESPONSE_CACHE_MAX_ENTRIES) {
+      const oldestKey = memoryEntries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+
+      memoryEntries.delete(oldestKey);
+    }
+  }
+};
+
+// Returns undefined when caching is disabled. A shared driver (Redis, a
+// database table) only needs to implement ResponseCacheStore.
+export function getResponseCacheStore(): ResponseCacheStore | undefined {
+  if (env.RESPONSE_CACHE_DRIVER === "none" || env.RESPONSE_CACHE_TTL_MS === 0) {
+    return undefined;
+  }
+
+  return memoryResponseCache;
+}
+
+export function resetResponseCacheForTest(): void {
+  memoryEntries.clear();
+}
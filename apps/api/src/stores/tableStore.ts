@@ -0,0 +1,293 @@
+import { randomUUID } from "node:crypto";
+import { env } from "../config/env";
+import {
+  aggregateSupabaseRowGroups,
+  aggregateSupabaseRows,
+  countSupabaseRows,
+  deleteSupabaseRows,
+  insertSupabaseRows,
+  selectSupabaseRows,
+  updateSupabaseRows,
+  type SupabaseRowAggregate,
+  type SupabaseRowAggregateGroup,
+  type SupabaseRowFilter,
+  type SupabaseRowOrder,
+  type SupabaseRowValue,
+  type SupabaseSelectQuery
+} from "../external/supabaseRestClient";
+
+export type StoredRow = Record<string, unknown>;
+export type RowFilter = SupabaseRowFilter;
+export type RowQuery = SupabaseSelectQuery;
+export type RowAggregate = SupabaseRowAggregate;
+export type RowAggregateGroup = SupabaseRowAggregateGroup;
+
+export type TableStore = {
+  insert(rows: readonly StoredRow[]): Promise<StoredRow[]>;
+  select(query?: RowQuery): Promise<StoredRow[]>;
+  count(filters?: readonly RowFilter[]): Promise<number>;
+  aggregate(filters: readonly RowFilter[], sumColumns: readonly string[]): Promise<RowAggregate>;
+  aggregateGroups(
+    filters: readonly RowFilter[],
+    groupBy: readonly string[],
+    sumColumns: readonly string[]
+  ): Promise<RowAggregateGroup[]>;
+  update(filters: readonly RowFilter[], patch: StoredRow): Promise<StoredRow[]>;
+  delete(filters: readonly RowFilter[]): Promise<StoredRow[]>;
+};
+
+// PostgREST answers at most `max_rows` rows per request (supabase/config.toml).
+const SELECT_PAGE_SIZE = 1000;
+const KEYSET_ORDER: readonly SupabaseRowOrder[] = [
+  { column: "created_at", ascending: true },
+  { column: "id", ascending: true }
+];
+
+const memoryTables = new Map<string, StoredRow[]>();
+
+export function getTableStore(table: string): TableStore {
+  if (env.DATA_STORE_DRIVER === "supabase") {
+    return createSupabaseTableStore(table);
+  }
+
+  return createMemoryTableStore(table);
+}
+
+// Reads every matching row, a page at a time, for callers that need the rows
+// themselves. Pages follow a `(created_at, id)` keyset rather than an offset, so
+// rows inserted while paging cannot shift a row into the next page twice.
+export async function selectAllRows(
+  store: TableStore,
+  query: Pick<RowQuery, "filters" | "columns"> = {}
+): Promise<StoredRow[]> {
+  const columns = query.columns ? [...new Set([...query.columns, "created_at", "id"])] : undefined;
+  const rows: StoredRow[] = [];
+  let after: RowQuery["after"];
+
+  for (;;) {
+    const page = await store.select({
+      ...query,
+      columns,
+      orderBy: KEYSET_ORDER,
+      after,
+      limit: SELECT_PAGE_SIZE
+    });
+    rows.push(...page);
+    if (page.length < SELECT_PAGE_SIZE) {
+      return rows;
+    }
+
+    const last = page[page.length - 1];
+    after = { createdAt: String(last.created_at), id: String(last.id) };
+  }
+}
+
+export function resetTableStoresForTest(): void {
+  memoryTables.clear();
+}
+
+function createSupabaseTableStore(table: string): TableStore {
+  return {
+    insert: (rows) => insertSupabaseRows(table, rows),
+    select: (query) => selectSupabaseRows(table, query),
+    count: (filters) => countSupabaseRows(table, filters),
+    aggregate: (filters, sumColumns) => aggregateSupabaseRows(table, filters, sumColumns),
+    aggregateGroups: (filters, groupBy, sumColumns) => aggregateSupabaseRowGroups(table, filters, groupBy, sumColumns),
+    update: (filters, patch) => updateSupabaseRows(table, filters, patch),
+    delete: (filters) => deleteSupabaseRows(table, filters)
+  };
+}
+
+// Local stand-in for the Supabase tables so the API runs and tests offline.
+// It mirrors the column defaults the tables rely on (id, created_at).
+function createMemoryTableStore(table: string): TableStore {
+  const rowsFor = (): StoredRow[] => {
+    const existing = memoryTables.get(table);
+    if (existing) {
+      return existing;
+    }
+
+    const created: StoredRow[] = [];
+    memoryTables.set(table, created);
+    return created;
+  };
+
+  return {
+    async insert(rows) {
+      const nowIso = new Date().toISOString();
+      const inserted = rows.map((row) => ({
+        id: randomUUID(),
+        created_at: nowIso,
+        ...row
+      }));
+      rowsFor().push(...inserted);
+      return inserted.map((row) => ({ ...row }));
+    },
+
+    async select(query = {}) {
+      let matches = rowsFor().filter((row) => matchesFilters(row, query.filters ?? []));
+
+      const after = query.after;
+      if (after) {
+        matches = matches.filter((row) => {
+          const createdAtComparison = compareValues(row.created_at, after.createdAt);
+          return createdAtComparison > 0 || (createdAtComparison === 0 && compareValues(row.id, after.id) > 0);
+        });
+      }
+
+      if (query.orderBy) {
+        const orders: readonly SupabaseRowOrder[] = Array.isArray(query.orderBy) ? query.orderBy : [query.orderBy];
+        matches = [...matches].sort((left, right) => {
+          for (const { column, ascending } of orders) {
+            const comparison = compareValues(left[column], right[column]);
+            if (comparison !== 0) {
+              return ascending ? comparison : -comparison;
+            }
+          }
+
+          return 0;
+        });
+      }
+
+      if (query.offset !== undefined || query.limit !== undefined) {
+        const offset = query.offset ?? 0;
+        matches = matches.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+      }
+
+      return matches.map((row) => projectColumns(row, query.columns));
+    },
+
+    async count(filters = []) {
+      return rowsFor().filter((row) => matchesFilters(row, filters)).length;
+    },
+
+    async aggregate(filters, sumColumns) {
+      return aggregateRows(rowsFor().filter((row) => matchesFilters(row, filters)), sumColumns);
+    },
+
+    async aggregateGroups(filters, groupBy, sumColumns) {
+      const groups = new Map<string, StoredRow[]>();
+      for (const row of rowsFor()) {
+        if (!matchesFilters(row, filters)) {
+          continue;
+        }
+
+        const key = JSON.stringify(groupBy.map((column) => normalizeValue(row[column])));
+        const bucket = groups.get(key);
+        if (bucket) {
+          bucket.push(row);
+        } else {
+          groups.set(key, [row]);
+        }
+      }
+
+      return [...groups.values()].map((rows) => ({
+        group: Object.fromEntries(groupBy.map((column) => [column, normalizeValue(rows[0][column])])),
+        ...aggregateRows(rows, sumColumns)
+      }));
+    },
+
+    async update(filters, patch) {
+      const updated: StoredRow[] = [];
+      for (const row of rowsFor()) {
+        if (!matchesFilters(row, filters)) {
+          continue;
+        }
+
+        Object.assign(row, patch);
+        updated.push({ ...row });
+      }
+
+      return updated;
+    },
+
+    async delete(filters) {
+      const rows = rowsFor();
+      const kept: StoredRow[] = [];
+      const deleted: StoredRow[] = [];
+      for (const row of rows) {
+        if (matchesFilters(row, filters)) {
+          deleted.push(row);
+        } else {
+          kept.push(row);
+        }
+      }
+
+      memoryTables.set(table, kept);
+      return deleted;
+    }
+  };
+}
+
+function aggregateRows(rows: readonly StoredRow[], sumColumns: readonly string[]): RowAggregate {
+  const sums: Record<string, number> = {};
+  for (const column of sumColumns) {
+    sums[column] = rows.reduce((total, row) => total + (Number(row[column] ?? 0) || 0), 0);
+  }
+
+  return { count: rows.length, sums };
+}
+
+function matchesFilters(row: StoredRow, filters: readonly RowFilter[]): boolean {
+  return filters.every((filter) => matchesFilter(row[filter.column], filter));
+}
+
+function matchesFilter(value: unknown, filter: RowFilter): boolean {
+  const expected = filter.value;
+
+  switch (filter.operator) {
+    case "eq":
+      return !Array.isArray(expected) && normalizeValue(value) === expected;
+    case "neq":
+      return !Array.isArray(expected) && normalizeValue(value) !== expected;
+    case "is":
+      return (value ?? null) === expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(normalizeValue(value));
+    case "gte":
+      return value !== null && value !== undefined && compareValues(value, expected) >= 0;
+    case "lt":
+      return value !== null && value !== undefined && compareValues(value, expected) < 0;
+    default:
+      return false;
+  }
+}
+
+function normalizeValue(value: unknown): SupabaseRowValue {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+
+  return String(value);
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+
+  const leftValue = left === null || left === undefined ? "" : String(left);
+  const rightValue = right === null || right === undefined ? "" : String(right);
+  if (leftValue === rightValue) {
+    return 0;
+  }
+
+  return leftValue < rightValue ? -1 : 1;
+}
+
+function projectColumns(row: StoredRow, columns: readonly string[] | undefined): StoredRow {
+  if (!columns || columns.length === 0) {
+    return { ...row };
+  }
+
+  const projected: StoredRow = {};
+  for (const column of columns) {
+    projected[column] = row[column];
+  }
+
+  return projected;
+}
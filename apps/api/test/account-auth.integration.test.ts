@@ -1,22 +1,36 @@
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
 import { after, before, beforeEach, describe, test } from "node:test";
 import assert from "node:assert/strict";
-import { randomUUID } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import type express from "express";
+import jwt from "jsonwebtoken";
+import { createAccessTokenSigner, createApiRequester, type ApiRequester, type JsonObject } from "./helpers";
 
 const VALID_PASSWORD = "correct-password-123";
 const PROXY_SHARED_API_KEY = "proxy-shared-test-key";
 const SUPABASE_PUBLISHABLE_KEY = "supabase-publishable-test-key";
+const SUPABASE_SERVICE_ROLE_KEY = "supabase-service-role-test-key";
+const JWT_SECRET = "account-test-jwt-secret";
 
 let mockSupabaseServer: Server | undefined;
 let apiServer: Server | undefined;
 let apiBaseUrl = "";
+let api: ApiRequester;
 let restoreEnv: (() => void) | undefined;
 let resetAuthRateLimiter: (() => void) | undefined;
+const mockUserNames = new Map<string, string>();
+const mockPasswordUpdates: string[] = [];
+const mockDeletedUserIds: string[] = [];
+const mockSignOuts: Array<{ token: string; scope: string | null }> = [];
+const mockEmailRequests: Array<{ path: string; email?: string; type?: string; redirectTo: string | null }> = [];
+const signAccessToken = createAccessTokenSigner({
+  secret: JWT_SECRET,
+  issuer: () => `${serverBaseUrl(mockSupabaseServer as Server)}/auth/v1`
+});
 
 describe("account auth routes integration", () => {
   before(async () => {
-    mockSupabaseServer = createMockSupabaseServer(SUPABASE_PUBLISHABLE_KEY);
+    mockSupabaseServer = createMockSupabaseServer(SUPABASE_PUBLISHABLE_KEY, SUPABASE_SERVICE_ROLE_KEY);
     await listen(mockSupabaseServer);
     const mockSupabaseBaseUrl = serverBaseUrl(mockSupabaseServer);
 
@@ -29,7 +43,10 @@ describe("account auth routes integration", () => {
       USER_AUTH_MODE: "required",
       SUPABASE_URL: mockSupabaseBaseUrl,
       SUPABASE_PUBLISHABLE_KEY,
-      SUPABASE_JWT_SECRET: "",
+      SUPABASE_SERVICE_ROLE_KEY,
+      SUPABASE_JWT_SECRET: JWT_SECRET,
+      DATA_STORE_DRIVER: "memory",
+      SUPABASE_AUTH_REDIRECT_URL: "presstospeak://auth/callback",
       PROXY_SHARED_API_KEY,
       MAC_APP_LATEST_VERSION: "2.5.0",
       MAC_APP_MINIMUM_SUPPORTED_VERSION: "2.3.0",
@@ -49,6 +66,7 @@ describe("account auth routes integration", () => {
     apiServer = app.listen(0, "127.0.0.1");
     await onceListening(apiServer);
     apiBaseUrl = serverBaseUrl(apiServer);
+    api = createApiRequester(apiBaseUrl);
   });
 
   after(async () => {
@@ -203,13 +221,305 @@ describe("account auth routes integration", () => {
       headers
     );
     assert.equal(third.status, 429);
-    assert.equal(third.headers.get("x-ratelimit-limit"), "2");
-    assert.equal(third.headers.get("x-ratelimit-remaining"), "0");
+    assert.equal(third.headers.get("ratelimit-limit"), "2");
+    assert.equal(third.headers.get("ratelimit-remaining"), "0");
+    assert.ok(Number(third.headers.get("retry-after")) > 0);
 
     const payload = await third.json();
     assert.equal(payload.error.message, "Rate limit exceeded for auth requests");
   });
 
+  test("password recovery and confirmation resend forward the email to Supabase", async () => {
+    const recover = await postJson(
+      "/v1/auth/password/recover",
+      { email: "Forgetful@Example.com" },
+      authorizedHeaders()
+    );
+    assert.equal(recover.status, 200);
+    assert.equal((await recover.json()).success, true);
+
+    const resend = await postJson(
+      "/v1/auth/confirmation/resend",
+      { email: "confirm.later@example.com" },
+      authorizedHeaders()
+    );
+    assert.equal(resend.status, 200);
+
+    const invalid = await postJson("/v1/auth/password/recover", { email: "not-an-email" }, authorizedHeaders());
+    assert.equal(invalid.status, 400);
+
+    assert.deepEqual(mockEmailRequests, [
+      {
+        path: "/auth/v1/recover",
+        email: "Forgetful@Example.com",
+        type: undefined,
+        redirectTo: "presstospeak://auth/callback"
+      },
+      {
+        path: "/auth/v1/resend",
+        email: "confirm.later@example.com",
+        type: "signup",
+        redirectTo: "presstospeak://auth/callback"
+      }
+    ]);
+  });
+
+  test("password reset exchanges the recovery token and sets the new password", async () => {
+    const rejected = await postJson(
+      "/v1/auth/password/reset",
+      { token_hash: "expired-recovery-hash", new_password: "recovered-password-789" },
+      authorizedHeaders()
+    );
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).error.message, "Invalid or expired recovery token");
+
+    const missingToken = await postJson(
+      "/v1/auth/password/reset",
+      { email: "recovering@example.com", new_password: "recovered-password-789" },
+      authorizedHeaders()
+    );
+    assert.equal(missingToken.status, 400);
+
+    const passwordUpdatesBefore = mockPasswordUpdates.length;
+    const reset = await postJson(
+      "/v1/auth/password/reset",
+      { token_hash: "valid-recovery-hash", new_password: "recovered-password-789" },
+      authorizedHeaders()
+    );
+    assert.equal(reset.status, 200);
+    const payload = await reset.json();
+    assert.equal(payload.account.user_id, "recovering-user");
+    assert.equal(typeof payload.session.access_token, "string");
+    assert.deepEqual(mockPasswordUpdates.slice(passwordUpdatesBefore), ["recovered-password-789"]);
+    // Only the session the recovery token was exchanged for stays signed in.
+    assert.deepEqual(mockSignOuts.at(-1), { token: payload.session.access_token, scope: "others" });
+  });
+
+  test("magic link sign-in sends the email and verifies the code into a session", async () => {
+    const requested = await postJson("/v1/auth/otp", { email: "magic@example.com" }, authorizedHeaders());
+    assert.equal(requested.status, 200);
+    assert.deepEqual(mockEmailRequests.at(-1), {
+      path: "/auth/v1/otp",
+      email: "magic@example.com",
+      type: undefined,
+      redirectTo: "presstospeak://auth/callback"
+    });
+
+    const wrongCode = await postJson(
+      "/v1/auth/otp/verify",
+      { email: "magic@example.com", token: "000000" },
+      authorizedHeaders()
+    );
+    assert.equal(wrongCode.status, 401);
+    assert.equal((await wrongCode.json()).error.message, "Invalid or expired sign-in code");
+
+    const verified = await postJson(
+      "/v1/auth/otp/verify",
+      { email: "magic@example.com", token: "123456" },
+      authorizedHeaders()
+    );
+    assert.equal(verified.status, 200);
+    const payload = await verified.json();
+    assert.equal(payload.account.email, "magic@example.com");
+    assert.equal(typeof payload.session.access_token, "string");
+    assert.equal(typeof payload.session.refresh_token, "string");
+    assert.equal(typeof payload.session.expires_at, "number");
+  });
+
+  test("OAuth start returns a PKCE authorize URL and the callback exchanges the code", async () => {
+    const started = await getJson("/v1/auth/oauth/GitHub/start", authorizedHeaders());
+    assert.equal(started.status, 200);
+    const startPayload = await started.json();
+    assert.equal(startPayload.provider, "github");
+
+    const authorizeUrl = new URL(startPayload.authorize_url);
+    assert.equal(authorizeUrl.pathname, "/auth/v1/authorize");
+    assert.equal(authorizeUrl.searchParams.get("provider"), "github");
+    assert.equal(authorizeUrl.searchParams.get("code_challenge_method"), "s256");
+    assert.equal(authorizeUrl.searchParams.get("redirect_to"), "presstospeak://auth/callback");
+    assert.equal(
+      authorizeUrl.searchParams.get("code_challenge"),
+      createHash("sha256").update(startPayload.code_verifier).digest("base64url")
+    );
+
+    const unknownProvider = await getJson("/v1/auth/oauth/myspace/start", authorizedHeaders());
+    assert.equal(unknownProvider.status, 404);
+
+    const rejected = await postJson(
+      "/v1/auth/oauth/github/callback",
+      { auth_code: "stale-auth-code", code_verifier: startPayload.code_verifier },
+      authorizedHeaders()
+    );
+    assert.equal(rejected.status, 401);
+
+    const exchanged = await postJson(
+      "/v1/auth/oauth/github/callback",
+      { auth_code: "valid-auth-code", code_verifier: startPayload.code_verifier },
+      authorizedHeaders()
+    );
+    assert.equal(exchanged.status, 200);
+    const payload = await exchanged.json();
+    assert.equal(payload.account.email, "sso.user@example.com");
+    assert.deepEqual(Object.keys(payload.session).sort(), ["access_token", "expires_at", "refresh_token"]);
+  });
+
+  test("account profile returns and updates the profile name and preferences", async () => {
+    const userId = randomUUID();
+    const headers = accountHeaders(userId);
+
+    const initial = await getJson("/v1/account", headers);
+    assert.equal(initial.status, 200);
+    const initialPayload = await initial.json();
+    assert.equal(initialPayload.account.user_id, userId);
+    assert.equal(initialPayload.account.profile_name, "Account Owner");
+    assert.deepEqual(initialPayload.preferences, { default_language: null, rewrite_mode: null });
+
+    const updated = await api.requestJson("PATCH", "/v1/account", headers, {
+      profile_name: "Renamed Owner",
+      default_language: "DE",
+      rewrite_mode: "email"
+    });
+    assert.equal(updated.status, 200);
+    const updatedPayload = await updated.json();
+    assert.equal(updatedPayload.account.profile_name, "Renamed Owner");
+    assert.deepEqual(updatedPayload.preferences, { default_language: "de", rewrite_mode: "email" });
+    assert.equal(mockUserNames.get(userId), "Renamed Owner");
+
+    const cleared = await api.requestJson("PATCH", "/v1/account", headers, { rewrite_mode: null });
+    assert.equal(cleared.status, 200);
+    assert.deepEqual((await cleared.json()).preferences, { default_language: "de", rewrite_mode: null });
+
+    const unknownStyle = await api.requestJson("PATCH", "/v1/account", headers, { rewrite_mode: "missing-style" });
+    assert.equal(unknownStyle.status, 400);
+    assert.equal((await unknownStyle.json()).error.message, "Unsupported rewrite_mode");
+
+    const empty = await api.requestJson("PATCH", "/v1/account", headers, {});
+    assert.equal(empty.status, 400);
+
+    const unauthenticated = await getJson("/v1/account", authorizedHeaders());
+    assert.equal(unauthenticated.status, 401);
+  });
+
+  test("password change requires the current password and signs out other sessions", async () => {
+    const userId = randomUUID();
+    const headers = accountHeaders(userId, randomUUID());
+    const otherDevice = accountHeaders(userId, randomUUID());
+    assert.equal((await getJson("/v1/account", otherDevice)).status, 200);
+    const passwordUpdatesBefore = mockPasswordUpdates.length;
+
+    const wrong = await api.requestJson("POST", "/v1/account/password", headers, {
+      current_password: "wrong-password-123",
+      new_password: "brand-new-password-456"
+    });
+    assert.equal(wrong.status, 403);
+    assert.equal((await wrong.json()).error.message, "Current password is incorrect");
+    assert.equal(mockPasswordUpdates.length, passwordUpdatesBefore);
+
+    const changed = await api.requestJson("POST", "/v1/account/password", headers, {
+      current_password: VALID_PASSWORD,
+      new_password: "brand-new-password-456"
+    });
+    assert.equal(changed.status, 200);
+    assert.equal((await changed.json()).success, true);
+    assert.deepEqual(mockPasswordUpdates.slice(passwordUpdatesBefore), ["brand-new-password-456"]);
+    // The session minted to check the current password is signed out, then every session but the caller's.
+    assert.deepEqual(mockSignOuts.slice(-2), [
+      { token: `access-token-${makeAccount(`${userId}@example.com`).userId}`, scope: "local" },
+      { token: headers.Authorization.replace(/^Bearer\s+/i, ""), scope: "others" }
+    ]);
+
+    const rejected = await getJson("/v1/account", otherDevice);
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).error.message, "Session has been revoked");
+    assert.equal((await getJson("/v1/account", headers)).status, 200);
+  });
+
+  test("account deletion removes the Supabase user and purges usage data", async () => {
+    const userId = randomUUID();
+    const otherUserId = randomUUID();
+    const headers = accountHeaders(userId);
+    const device = accountHeaders(userId, randomUUID());
+    assert.equal((await getJson("/v1/account", device)).status, 200);
+    // Silent clips are metered without calling an STT provider.
+    for (const accessHeaders of [headers, headers, accountHeaders(otherUserId)]) {
+      const dictation = await api.postSilentClip(accessHeaders);
+      assert.equal(dictation.status, 200);
+    }
+
+    const before = await getJson("/v1/usage", headers);
+    assert.equal((await before.json()).billing_period.totals.requests, 2);
+    const created = await api.requestJson("POST", "/v1/organizations", headers, { name: "Solo" });
+    assert.equal(created.status, 201);
+
+    const deleted = await api.requestJson("DELETE", "/v1/account", headers);
+    assert.equal(deleted.status, 200);
+    const payload = await deleted.json();
+    assert.equal(payload.deleted, true);
+    assert.equal(payload.purged.usage_records, 2);
+    assert.deepEqual(mockDeletedUserIds, [userId]);
+    // Sessions seen before the deletion and ones never seen are both refused.
+    for (const sessionHeaders of [device, accountHeaders(userId, randomUUID())]) {
+      const refused = await getJson("/v1/account", sessionHeaders);
+      assert.equal(refused.status, 401);
+      assert.equal((await refused.json()).error.message, "Session has been revoked");
+    }
+
+    const afterOwn = await getJson("/v1/usage", headers);
+    assert.equal((await afterOwn.json()).billing_period.totals.requests, 0);
+    const afterOther = await getJson("/v1/usage", accountHeaders(otherUserId));
+    assert.equal((await afterOther.json()).billing_period.totals.requests, 1);
+    // The organization had no other members, so it went with the account.
+    const organizations = await getJson("/v1/organizations", headers);
+    assert.deepEqual((await organizations.json()).organizations, []);
+  });
+
+  test("sessions are listed per device and a revoked session is rejected immediately", async () => {
+    const userId = randomUUID();
+    const laptopSession = randomUUID();
+    const desktopSession = randomUUID();
+    const laptop = { ...accountHeaders(userId, laptopSession), "User-Agent": "PressToSpeak/2.5 (MacBook)" };
+    const desktop = { ...accountHeaders(userId, desktopSession), "User-Agent": "PressToSpeak/2.5 (iMac)" };
+
+    assert.equal((await getJson("/v1/account", desktop)).status, 200);
+    const listed = await getJson("/v1/auth/sessions", laptop);
+    assert.equal(listed.status, 200);
+    const sessions = (await listed.json()).sessions;
+    assert.deepEqual(
+      sessions.map((session: Record<string, unknown>) => [session.id, session.current, session.user_agent]).sort(),
+      [
+        [desktopSession, false, "PressToSpeak/2.5 (iMac)"],
+        [laptopSession, true, "PressToSpeak/2.5 (MacBook)"]
+      ].sort()
+    );
+
+    const otherUser = await api.requestJson("DELETE", `/v1/auth/sessions/${desktopSession}`, accountHeaders(randomUUID()));
+    assert.equal(otherUser.status, 404);
+
+    const revoked = await api.requestJson("DELETE", `/v1/auth/sessions/${desktopSession}`, laptop);
+    assert.equal(revoked.status, 200);
+    assert.equal((await revoked.json()).revoked, true);
+
+    const rejected = await getJson("/v1/account", desktop);
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).error.message, "Session has been revoked");
+    assert.equal((await getJson("/v1/account", laptop)).status, 200);
+
+    const remaining = (await (await getJson("/v1/auth/sessions", laptop)).json()).sessions;
+    assert.deepEqual(remaining.map((session: Record<string, unknown>) => session.id), [laptopSession]);
+  });
+
+  test("logout revokes the signed-out session for API requests", async () => {
+    const headers = accountHeaders(randomUUID(), randomUUID());
+    assert.equal((await getJson("/v1/account", headers)).status, 200);
+
+    const loggedOut = await postJson("/v1/auth/logout", {}, headers);
+    assert.equal(loggedOut.status, 200);
+
+    const rejected = await getJson("/v1/account", headers);
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).error.message, "Session has been revoked");
+  });
+
   test("update route returns latest version metadata and update flags", async () => {
     const response = await getJson("/v1/app-updates/macos?current_version=2.2.9", authorizedHeaders());
 
@@ -258,6 +568,13 @@ function authorizedHeaders(rateLimitKey: string = randomUUID()): Record<string,
   };
 }
 
+function accountHeaders(userId: string, sessionId?: string): Record<string, string> {
+  return {
+    ...authorizedHeaders(),
+    Authorization: `Bearer ${signAccessToken(userId, { sessionId })}`
+  };
+}
+
 async function postJson(
   path: string,
   body: Record<string, unknown>,
@@ -284,15 +601,52 @@ async function getJson(path: string, headers: Record<string, string> = {}): Prom
   });
 }
 
-function createMockSupabaseServer(expectedPublishableKey: string): Server {
+function createMockSupabaseServer(expectedPublishableKey: string, expectedServiceRoleKey: string): Server {
   return createServer(async (req, res) => {
     const requestUrl = new URL(req.url ?? "/", `http://${req.headers.host ?? "127.0.0.1"}`);
     const apikey = normalizeHeader(req.headers.apikey);
-    if (apikey !== expectedPublishableKey) {
+    const isAdminRoute = requestUrl.pathname.startsWith("/auth/v1/admin/");
+    if (apikey !== (isAdminRoute ? expectedServiceRoleKey : expectedPublishableKey)) {
       sendJson(res, 401, { message: "Invalid API key" });
       return;
     }
 
+    if (requestUrl.pathname === "/auth/v1/user" && (req.method === "GET" || req.method === "PUT")) {
+      const accessToken = normalizeHeader(req.headers.authorization)?.replace(/^Bearer\s+/i, "");
+      const claims = accessToken ? jwt.decode(accessToken) : null;
+      if (!claims || typeof claims === "string" || typeof claims.sub !== "string") {
+        sendJson(res, 401, { message: "Invalid access token" });
+        return;
+      }
+
+      if (req.method === "PUT") {
+        const body = await readJsonBody(req);
+        const name = normalizeString(readMetadataName(body));
+        if (name) {
+          mockUserNames.set(claims.sub, name);
+        }
+
+        const password = normalizeString(body.password);
+        if (password) {
+          mockPasswordUpdates.push(password);
+        }
+      }
+
+      sendJson(res, 200, {
+        id: claims.sub,
+        email: claims.email,
+        app_metadata: claims.app_metadata,
+        user_metadata: { name: mockUserNames.get(claims.sub) ?? "Account Owner" }
+      });
+      return;
+    }
+
+    if (req.method === "DELETE" && isAdminRoute && requestUrl.pathname.startsWith("/auth/v1/admin/users/")) {
+      mockDeletedUserIds.push(decodeURIComponent(requestUrl.pathname.slice("/auth/v1/admin/users/".length)));
+      sendJson(res, 200, {});
+      return;
+    }
+
     if (req.method === "POST" && requestUrl.pathname === "/auth/v1/signup") {
       const body = await readJsonBody(req);
       const email = normalizeString(body.email);
@@ -303,7 +657,7 @@ function createMockSupabaseServer(expectedPublishableKey: string): Server {
       }
 
       const requiresEmailConfirmation = email.startsWith("confirm.");
-      const account = makeAccount(email, body.data?.name);
+      const account = makeAccount(email, readMetadataName(body));
       if (requiresEmailConfirmation) {
         sendJson(res, 200, {
           user: {
@@ -336,6 +690,16 @@ function createMockSupabaseServer(expectedPublishableKey: string): Server {
         return;
       }
 
+      if (grantType === "pkce") {
+        if (body.auth_code !== "valid-auth-code" || typeof body.code_verifier !== "string") {
+          sendJson(res, 400, { message: "invalid flow state, no valid flow state found" });
+          return;
+        }
+
+        sendJson(res, 200, makeSessionResponse(makeAccount("sso.user@example.com")));
+        return;
+      }
+
       if (grantType === "refresh_token") {
         const refreshToken = normalizeString(body.refresh_token);
         const email = extractRefreshEmail(refreshToken);
@@ -352,13 +716,46 @@ function createMockSupabaseServer(expectedPublishableKey: string): Server {
       return;
     }
 
+    const isEmailRoute = ["/auth/v1/recover", "/auth/v1/resend", "/auth/v1/otp"].includes(requestUrl.pathname);
+    if (req.method === "POST" && isEmailRoute) {
+      const body = await readJsonBody(req);
+      mockEmailRequests.push({
+        path: requestUrl.pathname,
+        email: normalizeString(body.email),
+        type: normalizeString(body.type),
+        redirectTo: requestUrl.searchParams.get("redirect_to")
+      });
+      sendJson(res, 200, {});
+      return;
+    }
+
+    if (req.method === "POST" && requestUrl.pathname === "/auth/v1/verify") {
+      const body = await readJsonBody(req);
+      if (body.type === "email" && body.token === "123456" && typeof body.email === "string") {
+        sendJson(res, 200, makeSessionResponse(makeAccount(body.email)));
+        return;
+      }
+
+      if (body.type !== "recovery" || body.token_hash !== "valid-recovery-hash") {
+        sendJson(res, 403, { message: "Token has expired or is invalid" });
+        return;
+      }
+
+      const session = makeSessionResponse(makeAccount("recovering@example.com"));
+      // The user endpoints below read the subject from a JWT access token.
+      session.access_token = signAccessToken("recovering-user");
+      sendJson(res, 200, session);
+      return;
+    }
+
     if (req.method === "POST" && requestUrl.pathname === "/auth/v1/logout") {
-      const authorization = normalizeHeader(req.headers.authorization);
-      if (!authorization?.toLowerCase().startsWith("bearer access-token-")) {
+      const token = normalizeHeader(req.headers.authorization)?.replace(/^Bearer\s+/i, "") ?? "";
+      if (!token.startsWith("access-token-") && !jwt.decode(token)) {
         sendJson(res, 401, { message: "Invalid access token" });
         return;
       }
 
+      mockSignOuts.push({ token, scope: requestUrl.searchParams.get("scope") });
       sendJson(res, 200, {});
       return;
     }
@@ -418,7 +815,7 @@ function extractRefreshEmail(token: string | undefined): string | undefined {
   return email.includes("@") ? email : undefined;
 }
 
-async function readJsonBody(req: IncomingMessage): Promise<Record<string, any>> {
+async function readJsonBody(req: IncomingMessage): Promise<JsonObject> {
   const chunks: Buffer[] = [];
   for await (const chunk of req) {
     chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
@@ -429,13 +826,22 @@ async function readJsonBody(req: IncomingMessage): Promise<Record<string, any>>
   }
 
   try {
-    const text = Buffer.concat(chunks).toString("utf8");
-    return JSON.parse(text) as Record<string, any>;
+    const parsed: unknown = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    return isJsonObject(parsed) ? parsed : {};
   } catch {
     return {};
   }
 }
 
+function isJsonObject(value: unknown): value is JsonObject {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+// Supabase takes user metadata such as the display name under `data`.
+function readMetadataName(body: JsonObject): unknown {
+  return isJsonObject(body.data) ? body.data.name : undefined;
+}
+
 function sendJson(res: ServerResponse, statusCode: number, payload: Record<string, unknown>): void {
   const body = JSON.stringify(payload);
   res.statusCode = statusCode;
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import type { Server } from "node:http";
+import { after, before, describe, test } from "node:test";
+import type express from "express";
+import { createAccessTokenSigner, createApiRequester, type ApiRequester } from "./helpers";
+
+const JWT_SECRET = "api-key-test-jwt-secret";
+const JWT_ISSUER = "https://project-ref.supabase.co/auth/v1";
+
+const signAccessToken = createAccessTokenSigner({ secret: JWT_SECRET, issuer: () => JWT_ISSUER });
+
+let apiServer: Server | undefined;
+let api: ApiRequester;
+let restoreEnv: (() => void) | undefined;
+
+describe("api key routes integration", () => {
+  before(async () => {
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "required",
+      SUPABASE_JWT_SECRET: JWT_SECRET,
+      SUPABASE_JWT_ISSUER: JWT_ISSUER,
+      SUPABASE_URL: "",
+      PROXY_SHARED_API_KEY: "",
+      DATA_STORE_DRIVER: "memory",
+      QUOTA_ENFORCEMENT: "true",
+      QUOTA_FREE_DAILY_REQUESTS: "5",
+      QUOTA_FREE_MONTHLY_REQUESTS: "100",
+      QUOTA_FREE_DAILY_AUDIO_SECONDS: "0",
+      QUOTA_FREE_MONTHLY_AUDIO_SECONDS: "0"
+    });
+
+    const { createApp } = await import("../src/app");
+    const app: express.Express = createApp();
+    apiServer = app.listen(0, "127.0.0.1");
+    await new Promise<void>((resolve) => apiServer?.once("listening", resolve));
+    const address = apiServer.address();
+    if (!address || typeof address === "string") {
+      throw new Error("Server did not bind to an address");
+    }
+    api = createApiRequester(`http://127.0.0.1:${address.port}`);
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (apiServer ? apiServer.close(() => resolve()) : resolve()));
+    restoreEnv?.();
+  });
+
+  test("API keys authenticate as their owner within their scopes until revoked", async () => {
+    const userId = randomUUID();
+    const created = await api.requestJson("POST", "/v1/api-keys", sessionHeaders(userId), {
+      name: "CI runner",
+      scopes: ["transcribe", "usage:read"]
+    });
+    assert.equal(created.status, 201);
+    assert.equal(created.headers.get("cache-control"), "no-store");
+    const createdPayload = await created.json();
+    const key: string = createdPayload.key;
+    assert.match(key, /^pts_/);
+    assert.equal(createdPayload.api_key.prefix, key.slice(0, 12));
+    assert.equal(createdPayload.api_key.expires_at, null);
+
+    const keyHeaders = { Authorization: `Bearer ${key}` };
+    const transcribed = await api.postSilentClip(keyHeaders);
+    assert.equal(transcribed.status, 200);
+
+    const usage = await api.requestJson("GET", "/v1/usage", keyHeaders);
+    assert.equal(usage.status, 200);
+    const usagePayload = await usage.json();
+    assert.equal(usagePayload.user_id, userId);
+    assert.equal(usagePayload.billing_period.totals.requests, 1);
+
+    const snippets = await api.requestJson("GET", "/v1/snippets", keyHeaders);
+    assert.equal(snippets.status, 403);
+    assert.deepEqual((await snippets.json()).error.details, { scope: "settings:read" });
+
+    // Keys cannot manage keys.
+    const listedWithKey = await api.requestJson("GET", "/v1/api-keys", keyHeaders);
+    assert.equal(listedWithKey.status, 401);
+
+    const listed = await (await api.requestJson("GET", "/v1/api-keys", sessionHeaders(userId))).json();
+    assert.equal(listed.api_keys.length, 1);
+    assert.equal(listed.api_keys[0].key, undefined);
+    assert.notEqual(listed.api_keys[0].last_used_at, null);
+
+    const keyPath = `/v1/api-keys/${listed.api_keys[0].id}`;
+    const otherUser = await api.requestJson("DELETE", keyPath, sessionHeaders(randomUUID()));
+    assert.equal(otherUser.status, 404);
+
+    const revoked = await api.requestJson("DELETE", keyPath, sessionHeaders(userId));
+    assert.equal(revoked.status, 200);
+
+    const afterRevoke = await api.postSilentClip(keyHeaders);
+    assert.equal(afterRevoke.status, 401);
+    assert.equal((await afterRevoke.json()).error.message, "Invalid or revoked API key");
+  });
+
+  test("API key payloads are validated and expired keys are rejected", async () => {
+    const invalid = await api.requestJson("POST", "/v1/api-keys", sessionHeaders(randomUUID()), {
+      name: "bad",
+      scopes: ["admin"]
+    });
+    assert.equal(invalid.status, 400);
+
+    const { createApiKey, verifyApiKey } = await import("../src/services/apiKeyService");
+    const { key } = await createApiKey({
+      userId: randomUUID(),
+      name: "short lived",
+      scopes: ["transcribe"],
+      expiresInDays: 1
+    });
+    assert.equal((await verifyApiKey(key)).scopes[0], "transcribe");
+    await assert.rejects(verifyApiKey(key, new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)), {
+      statusCode: 401,
+      message: "API key has expired"
+    });
+  });
+});
+
+function sessionHeaders(userId: string): Record<string, string> {
+  return { Authorization: `Bearer ${signAccessToken(userId)}` };
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { detectAudioFormat, inspectAudioUpload } from "../src/lib/audioFormat";
+
+describe("audio format sniffing", () => {
+  test("detects supported containers from their leading bytes", () => {
+    assert.equal(detectAudioFormat(padded(Buffer.from("ID3\u0004\u0000", "latin1"))), "mp3");
+    assert.equal(detectAudioFormat(padded(Buffer.from([0xff, 0xfb, 0x90, 0x64]))), "mp3");
+    assert.equal(detectAudioFormat(padded(Buffer.from([0xff, 0xf1, 0x50, 0x80]))), "aac");
+    assert.equal(detectAudioFormat(padded(Buffer.from("\u0000\u0000\u0000 ftypM4A ", "latin1"))), "m4a");
+    assert.equal(detectAudioFormat(padded(Buffer.from("OggS\u0000\u0002", "latin1"))), "ogg");
+    assert.equal(detectAudioFormat(padded(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))), "webm");
+    assert.equal(detectAudioFormat(createFlac(44100, 88200)), "flac");
+    assert.equal(detectAudioFormat(createWav(16000, 1)), "wav");
+    assert.equal(detectAudioFormat(padded(Buffer.from("not audio at all", "latin1"))), undefined);
+    assert.equal(detectAudioFormat(padded(Buffer.from([0xff, 0xfb, 0xf0, 0x64]))), undefined);
+  });
+
+  test("accepts MP4 files only when they hold audio and no video", () => {
+    assert.equal(detectAudioFormat(createMp4("M4A ", [])), "m4a");
+    assert.equal(detectAudioFormat(createMp4("mp42", ["soun"])), "m4a");
+    assert.equal(detectAudioFormat(createMp4("isom", ["soun"])), "m4a");
+    assert.equal(detectAudioFormat(createMp4("isom", ["vide", "soun"])), undefined);
+    assert.equal(detectAudioFormat(createMp4("mp42", [])), undefined);
+    assert.equal(detectAudioFormat(createMp4("qt  ", ["soun"])), undefined);
+    assert.equal(detectAudioFormat(createMp4("heic", [])), undefined);
+  });
+
+  test("reads the duration of WAV and FLAC uploads from the header", () => {
+    const wav = inspectAudioUpload(createWav(16000, 2.5));
+    assert.deepEqual(wav, {
+      format: "wav",
+      mimeType: "audio/wav",
+      extension: "wav",
+      durationSeconds: 2.5,
+      pcm: { encoding: "int", sampleRate: 16000, channels: 1, bitsPerSample: 16, dataOffset: 44, dataBytes: 80000 }
+    });
+
+    // Streamed recordings leave the data chunk size unset.
+    const streamedWav = createWav(16000, 1.5);
+    streamedWav.writeUInt32LE(0xffffffff, 40);
+    assert.equal(inspectAudioUpload(streamedWav).durationSeconds, 1.5);
+
+    assert.equal(inspectAudioUpload(createFlac(44100, 132300)).durationSeconds, 3);
+    assert.equal(inspectAudioUpload(createFlac(44100, 0)).durationSeconds, undefined);
+  });
+
+  test("estimates the duration of compressed uploads from their size", () => {
+    const ogg = Buffer.concat([Buffer.from("OggS\u0000\u0002", "latin1"), Buffer.alloc(30_000 - 6)]);
+    assert.equal(inspectAudioUpload(ogg).estimatedDurationSeconds, 10);
+    assert.equal(inspectAudioUpload(ogg).durationSeconds, undefined);
+    assert.equal(inspectAudioUpload(createWav(16000, 1)).estimatedDurationSeconds, undefined);
+  });
+
+  test("rejects unsupported and corrupt uploads with 415", () => {
+    assert.throws(
+      () => inspectAudioUpload(Buffer.from("hello")),
+      (error: unknown) => {
+        const httpError = error as { statusCode?: number; message?: string };
+        assert.equal(httpError.statusCode, 415);
+        assert.equal(httpError.message, "Unsupported audio format");
+        return true;
+      }
+    );
+
+    // A byte rate that disagrees with the sample rate would misstate the metered duration.
+    const inflatedWav = createWav(16000, 1);
+    inflatedWav.writeUInt32LE(16000, 28);
+    assert.throws(
+      () => inspectAudioUpload(inflatedWav),
+      (error: unknown) => {
+        const httpError = error as { message?: string; details?: { reason?: string } };
+        assert.equal(httpError.message, "Corrupt audio file");
+        assert.equal(httpError.details?.reason, "byte rate does not match sample rate and block size");
+        return true;
+      }
+    );
+
+    const truncatedWav = createWav(16000, 1).subarray(0, 20);
+    assert.throws(
+      () => inspectAudioUpload(truncatedWav),
+      (error: unknown) => {
+        const httpError = error as { statusCode?: number; message?: string };
+        assert.equal(httpError.statusCode, 415);
+        assert.equal(httpError.message, "Corrupt audio file");
+        return true;
+      }
+    );
+  });
+});
+
+function padded(prefix: Buffer): Buffer {
+  return Buffer.concat([prefix, Buffer.alloc(32)]);
+}
+
+function createWav(sampleRate: number, durationSeconds: number): Buffer {
+  const dataBytes = Math.round(durationSeconds * sampleRate) * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(dataBytes, 40);
+  return Buffer.concat([header, Buffer.alloc(dataBytes)]);
+}
+
+// An `ftyp` box followed by a `moov` box with one track per handler type.
+function createMp4(majorBrand: string, handlers: string[]): Buffer {
+  const box = (type: string, ...children: Buffer[]) => {
+    const payload = Buffer.concat(children);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + payload.length, 0);
+    header.write(type, 4, "latin1");
+    return Buffer.concat([header, payload]);
+  };
+  const hdlr = (handler: string) => {
+    const payload = Buffer.alloc(24);
+    payload.write(handler, 8, "latin1");
+    return box("hdlr", payload);
+  };
+
+  return Buffer.concat([
+    box("ftyp", Buffer.from(`${majorBrand}\u0000\u0000\u0000\u0000isom`, "latin1")),
+    box("moov", ...handlers.map((handler) => box("trak", box("mdia", hdlr(handler))))),
+    box("mdat", Buffer.alloc(16))
+  ]);
+}
+
+function createFlac(sampleRate: number, totalSamples: number): Buffer {
+  const streamInfo = Buffer.alloc(34);
+  streamInfo[10] = (sampleRate >> 12) & 0xff;
+  streamInfo[11] = (sampleRate >> 4) & 0xff;
+  streamInfo[12] = ((sampleRate & 0x0f) << 4) | 0x02;
+  streamInfo[13] = 0xf0 | Math.floor(totalSamples / 2 ** 32);
+  streamInfo.writeUInt32BE(totalSamples % 2 ** 32, 14);
+
+  return Buffer.concat([Buffer.from("fLaC", "latin1"), Buffer.from([0x80, 0x00, 0x00, 0x22]), streamInfo]);
+}
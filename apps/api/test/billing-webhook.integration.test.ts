@@ -0,0 +1,265 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { join } from "node:path";
+import { after, before, describe, test } from "node:test";
+import type express from "express";
+
+const WEBHOOK_SECRET = "billing-webhook-test-secret";
+const FIXTURES_DIR = join(__dirname, "fixtures", "billing");
+
+const FAILING_USER_ID = "0b7e3c55-1f0a-4d2e-9c1b-6a4f8e2d7c31";
+
+let apiServer: Server | undefined;
+let mockSupabaseServer: Server | undefined;
+let appMetadataUpdates: { userId: string; body: unknown }[] = [];
+let apiBaseUrl = "";
+let restoreEnv: (() => void) | undefined;
+let verifyPolarWebhook: typeof import("../src/external/polarClient").verifyPolarWebhook;
+
+describe("billing webhook route integration", () => {
+  before(async () => {
+    mockSupabaseServer = createMockSupabaseServer();
+    mockSupabaseServer.listen(0, "127.0.0.1");
+    await onceListening(mockSupabaseServer);
+
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "off",
+      DATA_STORE_DRIVER: "memory",
+      SUPABASE_URL: serverBaseUrl(mockSupabaseServer),
+      SUPABASE_SERVICE_ROLE_KEY: "service-role-test-key",
+      BILLING_PROVIDER: "local",
+      BILLING_WEBHOOK_SECRET: WEBHOOK_SECRET,
+      BILLING_WEBHOOK_TOLERANCE_SECONDS: "300"
+    });
+
+    const [{ createApp }, polarClient] = await Promise.all([
+      import("../src/app"),
+      import("../src/external/polarClient")
+    ]);
+    verifyPolarWebhook = polarClient.verifyPolarWebhook;
+
+    const app: express.Express = createApp();
+    apiServer = app.listen(0, "127.0.0.1");
+    await onceListening(apiServer);
+    apiBaseUrl = serverBaseUrl(apiServer);
+  });
+
+  after(async () => {
+    if (apiServer) {
+      await closeServer(apiServer);
+    }
+    if (mockSupabaseServer) {
+      await closeServer(mockSupabaseServer);
+    }
+
+    restoreEnv?.();
+  });
+
+  test("applies a signed subscription event to the account plan", async () => {
+    const body = readFixture("local-subscription-upgraded.json");
+    const response = await postWebhook(body, signLocal(body));
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.status, "applied");
+    assert.equal(payload.user_id, "5f0c6a8e-4d1b-4f7a-9a55-3f2d1c7e8b90");
+    assert.equal(payload.plan, "pro");
+    assert.deepEqual(appMetadataUpdates, [
+      { userId: "5f0c6a8e-4d1b-4f7a-9a55-3f2d1c7e8b90", body: { app_metadata: { plan: "pro" } } }
+    ]);
+
+    const downgrade = body.replace('"plan": "pro"', '"plan": "free"').replace("evt_local_0001", "evt_local_0004");
+    const downgraded = await (await postWebhook(downgrade, signLocal(downgrade))).json();
+    assert.equal(downgraded.plan, "free");
+  });
+
+  test("ignores repeated deliveries and events older than the last applied one", async () => {
+    const userId = "9d3f1b2a-6c4e-4a8b-8f7d-2e5c1a9b0d64";
+    const event = (id: string, plan: string, modifiedAt: string) =>
+      JSON.stringify({ id, type: "subscription.updated", data: { user_id: userId, plan, modified_at: modifiedAt } });
+
+    const upgrade = event("evt_local_0101", "pro", "2026-03-01T10:00:00Z");
+    assert.equal((await (await postWebhook(upgrade, signLocal(upgrade))).json()).status, "applied");
+
+    const repeated = await (await postWebhook(upgrade, signLocal(upgrade))).json();
+    assert.deepEqual([repeated.status, repeated.reason], ["ignored", "duplicate"]);
+
+    const revoked = event("evt_local_0102", "free", "2026-03-02T10:00:00Z");
+    assert.equal((await (await postWebhook(revoked, signLocal(revoked))).json()).plan, "free");
+
+    // A late update from before the revocation must not grant the plan again.
+    const late = event("evt_local_0103", "pro", "2026-03-01T12:00:00Z");
+    const lateOutcome = await (await postWebhook(late, signLocal(late))).json();
+    assert.deepEqual([lateOutcome.status, lateOutcome.reason], ["ignored", "stale"]);
+    assert.deepEqual(
+      appMetadataUpdates.filter((update) => update.userId === userId).map((update) => update.body),
+      [{ app_metadata: { plan: "pro" } }, { app_metadata: { plan: "free" } }]
+    );
+  });
+
+  test("fails the delivery when the plan cannot be stored, so the provider retries", async () => {
+    const body = JSON.stringify({
+      id: "evt_local_0003",
+      type: "subscription.updated",
+      data: { user_id: FAILING_USER_ID, plan: "pro" }
+    });
+    const response = await postWebhook(body, signLocal(body));
+
+    assert.equal(response.status, 500);
+    assert.equal((await response.json()).error.message, "Supabase auth request failed");
+  });
+
+  test("acknowledges signed events that do not change a plan", async () => {
+    const body = JSON.stringify({ id: "evt_local_0002", type: "checkout.created", data: {} });
+    const response = await postWebhook(body, signLocal(body));
+
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).status, "ignored");
+  });
+
+  test("rejects tampered, unsigned and stale deliveries with 401", async () => {
+    const body = readFixture("local-subscription-upgraded.json");
+    const signature = signLocal(body);
+
+    const tampered = await postWebhook(body.replace("pro", "free"), signature);
+    assert.equal(tampered.status, 401);
+    assert.equal((await tampered.json()).error.message, "Invalid webhook signature");
+
+    assert.equal((await postWebhook(body)).status, 401);
+
+    const stale = await postWebhook(body, signLocal(body, Math.floor(Date.now() / 1000) - 3600));
+    assert.equal(stale.status, 401);
+    assert.equal((await stale.json()).error.message, "Webhook signature timestamp is outside the allowed tolerance");
+  });
+
+  test("verifies Polar deliveries signed with the Standard Webhooks scheme", () => {
+    const rawBody = Buffer.from(readFixture("polar-subscription-active.json"));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = createHmac("sha256", WEBHOOK_SECRET)
+      .update(`msg_01.${timestamp}.`)
+      .update(rawBody)
+      .digest("base64");
+    const headers = { id: "msg_01", timestamp, signature: `v1,invalid v1,${signature}` };
+    const options = { rawBody, secret: WEBHOOK_SECRET, toleranceSeconds: 300 };
+
+    const payload = verifyPolarWebhook({ ...options, headers });
+    assert.equal((payload as { type: string }).type, "subscription.active");
+
+    // The message id is part of the signed content.
+    assert.throws(
+      () => verifyPolarWebhook({ ...options, headers: { ...headers, id: "msg_02" } }),
+      (error: unknown) => (error as { statusCode?: number }).statusCode === 401
+    );
+  });
+});
+
+// Accepts app_metadata updates from the Supabase admin API, except for FAILING_USER_ID.
+function createMockSupabaseServer(): Server {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const userId = /^\/auth\/v1\/admin\/users\/([^/]+)$/.exec(req.url ?? "")?.[1];
+      if (req.method !== "PUT" || !userId) {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ msg: "not found" }));
+        return;
+      }
+
+      if (userId === FAILING_USER_ID) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ msg: "database unavailable" }));
+        return;
+      }
+
+      appMetadataUpdates.push({ userId, body: JSON.parse(Buffer.concat(chunks).toString("utf8")) });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: userId }));
+    });
+  });
+}
+
+function readFixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), "utf8");
+}
+
+function signLocal(body: string, timestampSeconds = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac("sha256", WEBHOOK_SECRET).update(`${timestampSeconds}.${body}`).digest("hex");
+  return `t=${timestampSeconds},v1=${signature}`;
+}
+
+async function postWebhook(body: string, signature?: string): Promise<Response> {
+  return fetch(`${apiBaseUrl}/v1/webhooks/billing`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(signature ? { "x-billing-signature": signature } : {})
+    },
+    body
+  });
+}
+
+async function onceListening(server: Server): Promise<void> {
+  if (server.listening) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      server.off("listening", onListening);
+      reject(error);
+    };
+    const onListening = () => {
+      server.off("error", onError);
+      resolve();
+    };
+
+    server.once("error", onError);
+    server.once("listening", onListening);
+  });
+}
+
+function serverBaseUrl(server: Server): string {
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Server did not bind to an address");
+  }
+  return `http://127.0.0.1:${address.port}`;
+}
+
+async function closeServer(server: Server): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
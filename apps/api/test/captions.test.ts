@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { buildCaptionCues, formatSrt, formatWebVtt } from "../src/lib/captions";
+import type { TranscriptWord } from "../src/lib/transcriptTimeline";
+
+describe("captions", () => {
+  test("splits cues on pauses and speaker changes and stretches short cues", () => {
+    const cues = buildCaptionCues([
+      word("Hi", 0, 0.2, "speaker_0"),
+      word("there.", 0.25, 0.5, "speaker_0"),
+      word("Hello", 0.6, 0.9, "speaker_1"),
+      word("again", 3, 3.4, "speaker_1")
+    ]);
+
+    assert.deepEqual(cues, [
+      { start: 0, end: 0.6, lines: ["Hi there."] },
+      { start: 0.6, end: 1.6, lines: ["Hello"] },
+      { start: 3, end: 4, lines: ["again"] }
+    ]);
+  });
+
+  test("keeps cues within two balanced lines of 42 characters", () => {
+    const words = "the quick brown fox jumps over the lazy dog while the cat watches from a sunny windowsill nearby"
+      .split(" ")
+      .map((text, index) => word(text, index * 0.3, index * 0.3 + 0.25));
+
+    const cues = buildCaptionCues(words);
+
+    assert.equal(cues.length, 2);
+    for (const cue of cues) {
+      assert.ok(cue.lines.length <= 2);
+      for (const line of cue.lines) {
+        assert.ok(line.length <= 42, `line too long: ${line}`);
+      }
+    }
+    assert.deepEqual(cues[0].lines, [
+      "the quick brown fox jumps over the lazy",
+      "dog while the cat watches from a sunny"
+    ]);
+  });
+
+  test("closes a cue at a sentence end once it holds enough text", () => {
+    const cues = buildCaptionCues([
+      word("This", 0, 0.2),
+      word("is", 0.25, 0.4),
+      word("the", 0.45, 0.6),
+      word("first", 0.65, 0.9),
+      word("sentence.", 0.95, 1.4),
+      word("Next", 1.5, 1.8)
+    ]);
+
+    assert.deepEqual(
+      cues.map((cue) => cue.lines.join(" ")),
+      ["This is the first sentence.", "Next"]
+    );
+  });
+
+  test("formats SRT and WebVTT documents", () => {
+    const cues = [
+      { start: 0, end: 1.5, lines: ["hello test"] },
+      { start: 3661.25, end: 3663, lines: ["second", "line"] }
+    ];
+
+    assert.equal(
+      formatSrt(cues),
+      "1\n00:00:00,000 --> 00:00:01,500\nhello test\n\n2\n01:01:01,250 --> 01:01:03,000\nsecond\nline\n"
+    );
+    assert.equal(
+      formatWebVtt(cues),
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nhello test\n\n01:01:01.250 --> 01:01:03.000\nsecond\nline\n"
+    );
+    assert.equal(formatWebVtt([]), "WEBVTT\n");
+  });
+});
+
+function word(text: string, start: number, end: number, speaker?: string): TranscriptWord {
+  return { text, start, end, speaker };
+}
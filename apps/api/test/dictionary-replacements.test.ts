@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+let restoreEnv: (() => void) | undefined;
+
+let dictionaryService: typeof import("../src/services/dictionaryService");
+
+describe("dictionary replacements", () => {
+  before(async () => {
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "off",
+      DATA_STORE_DRIVER: "memory"
+    });
+
+    dictionaryService = await import("../src/services/dictionaryService");
+  });
+
+  after(() => {
+    restoreEnv?.();
+  });
+
+  test("prefers longer aliases where aliases overlap", () => {
+    const result = dictionaryService.applyDictionaryReplacements("we run post gress sql on post gress", [
+      makeEntry("pg", "Postgres", ["post gress"]),
+      makeEntry("pgsql", "PostgreSQL", ["post gress sql"])
+    ]);
+
+    assert.equal(result.text, "we run PostgreSQL on Postgres");
+    assert.deepEqual(
+      result.replacements.map((replacement) => [replacement.entryId, replacement.count]),
+      [
+        ["pgsql", 1],
+        ["pg", 1]
+      ]
+    );
+  });
+
+  test("does not rewrite a replaced term again with another entry's alias", () => {
+    const result = dictionaryService.applyDictionaryReplacements("open the cube cuddle dashboard", [
+      makeEntry("k8s", "Kubernetes Cube", ["cube cuddle"]),
+      makeEntry("cube", "Cube.js", ["cube"])
+    ]);
+
+    assert.equal(result.text, "open the Kubernetes Cube dashboard");
+    assert.deepEqual(
+      result.replacements.map((replacement) => replacement.entryId),
+      ["k8s"]
+    );
+  });
+});
+
+function makeEntry(
+  id: string,
+  term: string,
+  aliases: string[]
+): import("../src/services/dictionaryService").DictionaryEntry {
+  return {
+    id,
+    term,
+    aliases,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
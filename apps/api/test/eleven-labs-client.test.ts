@@ -182,6 +182,46 @@ describe("elevenLabsClient", () => {
     assert.equal(result.modelId, "scribe_v2");
     assert.equal(requestCount, 1);
   });
+
+  test("normalizes diarized words, segments and audio events from the provider payload", async () => {
+    plannedResponses = [
+      {
+        statusCode: 200,
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          text: "Hi there. (laughter) Hello.",
+          words: [
+            { text: "Hi", start: 0, end: 0.3, type: "word", speaker_id: "speaker_0" },
+            { text: " ", start: 0.3, end: 0.35, type: "spacing", speaker_id: "speaker_0" },
+            { text: "there.", start: 0.35, end: 0.8, type: "word", speaker_id: "speaker_0" },
+            { text: "(laughter)", start: 0.9, end: 1.6, type: "audio_event", speaker_id: "speaker_0" },
+            { text: "Hello.", start: 1.7, end: 2.1, type: "word", speaker_id: "speaker_1" },
+            { text: "later", type: "word", speaker_id: "speaker_1" }
+          ]
+        })
+      }
+    ];
+
+    const result = await transcribeWithElevenLabs({
+      fileBuffer: Buffer.from("fake-audio"),
+      fileName: "sample.wav",
+      mimeType: "audio/wav",
+      options: { diarize: true, tagAudioEvents: true }
+    });
+
+    assert.deepEqual(result.timeline.words, [
+      { text: "Hi", start: 0, end: 0.3, speaker: "speaker_0" },
+      { text: "there.", start: 0.35, end: 0.8, speaker: "speaker_0" },
+      { text: "Hello.", start: 1.7, end: 2.1, speaker: "speaker_1" }
+    ]);
+    assert.deepEqual(result.timeline.segments, [
+      { speaker: "speaker_0", start: 0, end: 0.8, text: "Hi there." },
+      { speaker: "speaker_1", start: 1.7, end: 2.1, text: "Hello." }
+    ]);
+    assert.deepEqual(result.timeline.audioEvents, [
+      { text: "(laughter)", start: 0.9, end: 1.6, speaker: "speaker_0" }
+    ]);
+  });
 });
 
 function createMockElevenLabsServer(): Server {
@@ -0,0 +1,131 @@
+import { createServer } from "node:http";
+import jwt from "jsonwebtoken";
+
+// Shared by the integration tests. Each test file runs in its own process with
+// its own API server and JWT settings, so these are bound per file.
+
+export type JsonObject = Record<string, unknown>;
+
+export type ApiRequester = {
+  requestJson(method: string, path: string, headers: Record<string, string>, body?: JsonObject): Promise<Response>;
+  // A silent clip is metered without calling an STT provider.
+  postSilentClip(headers: Record<string, string>): Promise<Response>;
+  // A tone clip passes the speech check and is sent to the STT provider, so it
+  // counts toward quotas (unless it is answered from the response cache).
+  postSpokenClip(headers: Record<string, string>): Promise<Response>;
+};
+
+export type MockSttServer = {
+  baseUrl: string;
+  close(): Promise<void>;
+};
+
+export type AccessTokenSigner = (userId: string, options?: { sessionId?: string }) => string;
+
+export function createApiRequester(baseUrl: string): ApiRequester {
+  return {
+    requestJson(method, path, headers, body) {
+      return fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          ...headers
+        },
+        body: body ? JSON.stringify(body) : undefined
+      });
+    },
+
+    postSilentClip(headers) {
+      return postClip(createWav(1, 0), headers);
+    },
+
+    postSpokenClip(headers) {
+      return postClip(createWav(1, 0.25), headers);
+    }
+  };
+
+  function postClip(wav: Buffer, headers: Record<string, string>): Promise<Response> {
+    const formData = new FormData();
+    formData.append("file", new Blob([new Uint8Array(wav)], { type: "audio/wav" }), "clip.wav");
+    return fetch(`${baseUrl}/v1/voice-to-text`, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        ...headers
+      },
+      body: formData
+    });
+  }
+}
+
+// Answers ElevenLabs speech-to-text requests; point ELEVENLABS_API_BASE_URL at it.
+export async function startMockSttServer(): Promise<MockSttServer> {
+  const server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify({ text: "hello", words: [{ text: "hello", start: 0, end: 0.4, type: "word" }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Mock STT server did not bind to an address");
+  }
+
+  return {
+    baseUrl: `http://127.0.0.1:${address.port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+// Signs Supabase-style access tokens for free-plan users `<userId>@example.com`.
+// `issuer` is read on every call so it can follow a mock server started later.
+export function createAccessTokenSigner(input: { secret: string; issuer: () => string }): AccessTokenSigner {
+  return (userId, options = {}) =>
+    jwt.sign(
+      {
+        sub: userId,
+        email: `${userId}@example.com`,
+        role: "authenticated",
+        app_metadata: { plan: "free" },
+        ...(options.sessionId ? { session_id: options.sessionId } : {})
+      },
+      input.secret,
+      {
+        algorithm: "HS256",
+        audience: "authenticated",
+        issuer: input.issuer(),
+        expiresIn: 300
+      }
+    );
+}
+
+// 16 kHz mono 16-bit PCM 440 Hz tone; an amplitude of 0 produces silence.
+function createWav(durationSeconds: number, amplitude: number): Buffer {
+  const sampleRate = 16000;
+  const sampleCount = Math.round(durationSeconds * sampleRate);
+  const dataBytes = sampleCount * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(dataBytes, 40);
+
+  const samples = Buffer.alloc(dataBytes);
+  for (let index = 0; index < sampleCount; index += 1) {
+    samples.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * index) / sampleRate) * amplitude * 32767), index * 2);
+  }
+
+  return Buffer.concat([header, samples]);
+}
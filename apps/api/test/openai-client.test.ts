@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, test } from "node:test";
+
+type RecordedRequest = {
+  url: string;
+  body: Record<string, unknown>;
+};
+
+const CHAT_COMPLETION_BODY = { choices: [{ message: { content: "Hello there." } }] };
+
+const originalFetch = globalThis.fetch;
+let recordedRequests: RecordedRequest[] = [];
+let responseBody: Record<string, unknown> = CHAT_COMPLETION_BODY;
+let restoreEnv: (() => void) | undefined;
+
+let openAIClient: typeof import("../src/external/openAIClient");
+
+describe("openAIClient", () => {
+  before(async () => {
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      OPENAI_API_BASE_URL: "https://api.openai.com/v1",
+      OPENAI_MODEL: "gpt-5-mini",
+      USER_AUTH_MODE: "off"
+    });
+
+    openAIClient = await import("../src/external/openAIClient");
+
+    globalThis.fetch = async (input, init) => {
+      recordedRequests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+      return new Response(JSON.stringify(responseBody), {
+        status: 200,
+        headers: { "content-type": "application/json" }
+      });
+    };
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+    restoreEnv?.();
+  });
+
+  beforeEach(() => {
+    recordedRequests = [];
+    responseBody = CHAT_COMPLETION_BODY;
+  });
+
+  test("caps chat completions from OpenAI with max_completion_tokens", async () => {
+    const result = await openAIClient.rewriteTranscriptWithChatCompletions("uh hello there");
+
+    assert.equal(result.cleanText, "Hello there.");
+    assert.equal(recordedRequests.length, 1);
+    assert.equal(recordedRequests[0].url, "https://api.openai.com/v1/chat/completions");
+    assert.deepEqual(recordedRequests[0].body, {
+      model: "gpt-5-mini",
+      messages: [
+        { role: "system", content: openAIClient.CLEANUP_INSTRUCTIONS },
+        { role: "user", content: "uh hello there" }
+      ],
+      max_completion_tokens: 120,
+      stream: false
+    });
+  });
+
+  test("keeps max_tokens for other OpenAI-compatible gateways", async () => {
+    await openAIClient.rewriteTranscriptWithChatCompletions("uh hello there", { baseUrl: "http://localhost:11434/v1" });
+
+    assert.equal(recordedRequests[0].url, "http://localhost:11434/v1/chat/completions");
+    assert.equal(recordedRequests[0].body.max_tokens, 120);
+    assert.equal("max_completion_tokens" in recordedRequests[0].body, false);
+  });
+
+  test("keeps the line breaks of Responses API output", async () => {
+    responseBody = {
+      output: [
+        { type: "reasoning", summary: [] },
+        {
+          type: "message",
+          content: [
+            { type: "output_text", text: "- Buy  milk \n- Call the bank" },
+            { type: "output_text", text: "Thanks,\n\nSam" }
+          ]
+        }
+      ]
+    };
+
+    const result = await openAIClient.rewriteTranscriptWithOpenAI("uh buy milk and call the bank thanks sam");
+
+    assert.equal(recordedRequests[0].url, "https://api.openai.com/v1/responses");
+    assert.equal(result.cleanText, "- Buy milk\n- Call the bank\nThanks,\n\nSam");
+  });
+
+  test("scales the output cap with the transcript up to the requested ceiling", async () => {
+    const transcript = "word ".repeat(400).trim();
+
+    await openAIClient.rewriteTranscriptWithChatCompletions(transcript);
+    await openAIClient.rewriteTranscriptWithChatCompletions(transcript, { maxOutputTokens: 32_000 });
+
+    assert.deepEqual(
+      recordedRequests.map((request) => request.body.max_completion_tokens),
+      [1_000, transcript.length * 2]
+    );
+  });
+});
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
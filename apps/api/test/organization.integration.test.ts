@@ -0,0 +1,367 @@
+import assert from "node:assert/strict";
+import { createHmac, randomUUID } from "node:crypto";
+import type { Server } from "node:http";
+import { after, before, describe, test } from "node:test";
+import type express from "express";
+import jwt from "jsonwebtoken";
+import {
+  createAccessTokenSigner,
+  createApiRequester,
+  startMockSttServer,
+  type ApiRequester,
+  type MockSttServer
+} from "./helpers";
+
+const JWT_SECRET = "organization-test-jwt-secret";
+const JWT_ISSUER = "https://project-ref.supabase.co/auth/v1";
+const WEBHOOK_SECRET = "organization-test-webhook-secret";
+
+const signAccessToken = createAccessTokenSigner({ secret: JWT_SECRET, issuer: () => JWT_ISSUER });
+
+let apiServer: Server | undefined;
+let apiBaseUrl = "";
+let api: ApiRequester;
+let mockSttServer: MockSttServer | undefined;
+let restoreEnv: (() => void) | undefined;
+
+describe("organization routes integration", () => {
+  before(async () => {
+    mockSttServer = await startMockSttServer();
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      ELEVENLABS_API_BASE_URL: mockSttServer.baseUrl,
+      STT_FALLBACK_PROVIDER: "none",
+      REWRITE_PROVIDER: "passthrough",
+      // Repeated clips would be cache hits, which do not count toward quotas.
+      RESPONSE_CACHE_DRIVER: "none",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "required",
+      SUPABASE_JWT_SECRET: JWT_SECRET,
+      SUPABASE_JWT_ISSUER: JWT_ISSUER,
+      SUPABASE_URL: "",
+      PROXY_SHARED_API_KEY: "",
+      DATA_STORE_DRIVER: "memory",
+      QUOTA_ENFORCEMENT: "true",
+      QUOTA_FREE_DAILY_REQUESTS: "2",
+      QUOTA_FREE_MONTHLY_REQUESTS: "100",
+      QUOTA_FREE_DAILY_AUDIO_SECONDS: "0",
+      QUOTA_FREE_MONTHLY_AUDIO_SECONDS: "0",
+      QUOTA_PRO_DAILY_REQUESTS: "2",
+      BILLING_PROVIDER: "local",
+      BILLING_WEBHOOK_SECRET: WEBHOOK_SECRET
+    });
+
+    const { createApp } = await import("../src/app");
+    const app: express.Express = createApp();
+    apiServer = app.listen(0, "127.0.0.1");
+    await new Promise<void>((resolve) => apiServer?.once("listening", resolve));
+    const address = apiServer.address();
+    if (!address || typeof address === "string") {
+      throw new Error("Server did not bind to an address");
+    }
+    apiBaseUrl = `http://127.0.0.1:${address.port}`;
+    api = createApiRequester(apiBaseUrl);
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (apiServer ? apiServer.close(() => resolve()) : resolve()));
+    await mockSttServer?.close();
+    restoreEnv?.();
+  });
+
+  test("invited members share the organization's settings and cannot change them", async () => {
+    const ownerId = randomUUID();
+    const memberId = randomUUID();
+    const organizationId = await createOrganizationWithMember(ownerId, memberId);
+
+    const details = await api.requestJson("GET", `/v1/organizations/${organizationId}`, accountHeaders(memberId));
+    assert.equal(details.status, 200);
+    const detailsPayload = await details.json();
+    assert.equal(detailsPayload.organization.role, "member");
+    assert.deepEqual(
+      detailsPayload.members.map((member: { user_id: string; role: string }) => [member.user_id, member.role]),
+      [
+        [ownerId, "owner"],
+        [memberId, "member"]
+      ]
+    );
+
+    const ownerOrgHeaders = accountHeaders(ownerId, organizationId);
+    const memberOrgHeaders = accountHeaders(memberId, organizationId);
+    const shared = await api.requestJson("POST", "/v1/snippets", ownerOrgHeaders, {
+      trigger: "team sig",
+      expansion: "The Team"
+    });
+    assert.equal(shared.status, 201);
+    assert.equal((await shared.json()).snippet.scope, "organization");
+
+    const dictionary = await api.requestJson("POST", "/v1/dictionary", ownerOrgHeaders, { term: "Kubernetes" });
+    assert.equal(dictionary.status, 201);
+
+    const memberSnippets = await (await api.requestJson("GET", "/v1/snippets", memberOrgHeaders)).json();
+    assert.deepEqual(
+      memberSnippets.snippets.map((snippet: { trigger: string; scope: string }) => [snippet.trigger, snippet.scope]),
+      [["team sig", "organization"]]
+    );
+    const memberDictionary = await (await api.requestJson("GET", "/v1/dictionary", memberOrgHeaders)).json();
+    assert.deepEqual(
+      memberDictionary.entries.map((entry: { term: string }) => entry.term),
+      ["Kubernetes"]
+    );
+
+    const personalSnippets = await (await api.requestJson("GET", "/v1/snippets", accountHeaders(memberId))).json();
+    assert.deepEqual(personalSnippets.snippets, []);
+
+    const forbidden = await api.requestJson("POST", "/v1/snippets", memberOrgHeaders, {
+      trigger: "member sig",
+      expansion: "A member"
+    });
+    assert.equal(forbidden.status, 403);
+
+    const outsider = await api.requestJson("GET", "/v1/snippets", accountHeaders(randomUUID(), organizationId));
+    assert.equal(outsider.status, 404);
+    assert.equal((await outsider.json()).error.message, "Organization not found");
+  });
+
+  test("only paid organizations pool quota across members", async () => {
+    const ownerId = randomUUID();
+    const memberId = randomUUID();
+    const organizationId = await createOrganizationWithMember(ownerId, memberId);
+    const ownerOrgHeaders = accountHeaders(ownerId, organizationId);
+
+    // A free organization draws on each member's own 2 daily requests.
+    assert.equal((await api.postSpokenClip(ownerOrgHeaders)).status, 200);
+    assert.equal((await api.postSpokenClip(ownerOrgHeaders)).status, 200);
+    const personal = await api.postSpokenClip(accountHeaders(ownerId));
+    assert.equal(personal.status, 429);
+    assert.equal((await personal.json()).error.details.limit, 2);
+    assert.equal((await api.postSpokenClip(accountHeaders(memberId, organizationId))).status, 200);
+
+    const freeSummary = await (await api.requestJson("GET", "/v1/usage", ownerOrgHeaders)).json();
+    assert.equal(freeSummary.tier, "free");
+    assert.equal(freeSummary.quota.daily.requests.used, 2);
+    assert.equal(freeSummary.quota.daily.requests.limit, 2);
+
+    const upgraded = await postBillingEvent({ user_id: ownerId, organization_id: organizationId, plan: "pro" });
+    assert.equal(upgraded.status, 200);
+
+    // Two pro seats pool 2 daily requests each.
+    assert.equal((await api.postSpokenClip(ownerOrgHeaders)).status, 200);
+    const exhausted = await api.postSpokenClip(accountHeaders(memberId, organizationId));
+    assert.equal(exhausted.status, 429);
+    assert.equal((await exhausted.json()).error.details.limit, 4);
+
+    // Usage pooled in a paid organization no longer counts against the owner's own quota.
+    assert.equal((await api.postSpokenClip(accountHeaders(ownerId))).status, 200);
+
+    const summary = await api.requestJson("GET", "/v1/usage", ownerOrgHeaders);
+    assert.equal(summary.status, 200);
+    const summaryPayload = await summary.json();
+    assert.equal(summaryPayload.organization_id, organizationId);
+    assert.equal(summaryPayload.tier, "pro");
+    assert.equal(summaryPayload.quota.daily.requests.used, 4);
+    assert.equal(summaryPayload.quota.daily.requests.limit, 4);
+    assert.deepEqual(
+      summaryPayload.members
+        .map((member: { user_id: string; totals: { requests: number } }) => [member.user_id, member.totals.requests])
+        .sort(),
+      [
+        [ownerId, 3],
+        [memberId, 1]
+      ].sort()
+    );
+
+    const memberSummary = await api.requestJson("GET", "/v1/usage", accountHeaders(memberId, organizationId));
+    assert.equal((await memberSummary.json()).members, undefined);
+  });
+
+  test("members can leave but the last owner cannot", async () => {
+    const ownerId = randomUUID();
+    const memberId = randomUUID();
+    const organizationId = await createOrganizationWithMember(ownerId, memberId);
+
+    const memberRemovesOwner = await api.requestJson(
+      "DELETE",
+      `/v1/organizations/${organizationId}/members/${ownerId}`,
+      accountHeaders(memberId)
+    );
+    assert.equal(memberRemovesOwner.status, 403);
+
+    const ownerLeaves = await api.requestJson(
+      "DELETE",
+      `/v1/organizations/${organizationId}/members/${ownerId}`,
+      accountHeaders(ownerId)
+    );
+    assert.equal(ownerLeaves.status, 409);
+
+    const ownerDeletesAccount = await api.requestJson("DELETE", "/v1/account", accountHeaders(ownerId));
+    assert.equal(ownerDeletesAccount.status, 409);
+    assert.deepEqual((await ownerDeletesAccount.json()).error.details.organization_ids, [organizationId]);
+
+    const promoted = await api.requestJson(
+      "PATCH",
+      `/v1/organizations/${organizationId}/members/${memberId}`,
+      accountHeaders(ownerId),
+      { role: "owner" }
+    );
+    assert.equal(promoted.status, 200);
+    assert.equal((await promoted.json()).member.role, "owner");
+
+    const ownerLeavesAfterPromotion = await api.requestJson(
+      "DELETE",
+      `/v1/organizations/${organizationId}/members/${ownerId}`,
+      accountHeaders(ownerId)
+    );
+    assert.equal(ownerLeavesAfterPromotion.status, 200);
+
+    const formerOwner = await api.requestJson("GET", "/v1/organizations", accountHeaders(ownerId));
+    assert.deepEqual((await formerOwner.json()).organizations, []);
+  });
+
+  test("invitations are accepted only by the invited email", async () => {
+    const ownerId = randomUUID();
+    const created = await api.requestJson("POST", "/v1/organizations", accountHeaders(ownerId), { name: "Acme" });
+    const organizationId = (await created.json()).organization.id;
+
+    const invited = await api.requestJson(
+      "POST",
+      `/v1/organizations/${organizationId}/invitations`,
+      accountHeaders(ownerId),
+      { email: "Someone.Else@Example.com" }
+    );
+    assert.equal(invited.status, 201);
+    const invitation = (await invited.json()).invitation;
+    assert.equal(invitation.email, "someone.else@example.com");
+
+    const duplicate = await api.requestJson(
+      "POST",
+      `/v1/organizations/${organizationId}/invitations`,
+      accountHeaders(ownerId),
+      { email: "someone.else@example.com" }
+    );
+    assert.equal(duplicate.status, 409);
+
+    const wrongUser = await api.requestJson(
+      "POST",
+      `/v1/organization-invitations/${invitation.id}/accept`,
+      accountHeaders(randomUUID())
+    );
+    assert.equal(wrongUser.status, 404);
+
+    const revoked = await api.requestJson(
+      "DELETE",
+      `/v1/organizations/${organizationId}/invitations/${invitation.id}`,
+      accountHeaders(ownerId)
+    );
+    assert.equal(revoked.status, 200);
+
+    const pending = await api.requestJson(
+      "GET",
+      `/v1/organizations/${organizationId}/invitations`,
+      accountHeaders(ownerId)
+    );
+    assert.deepEqual((await pending.json()).invitations, []);
+  });
+
+  test("accepting an invitation is refused once the organization is full", async () => {
+    const organizations = await import("../src/services/organizationService");
+    const ownerId = randomUUID();
+    const inviteeId = randomUUID();
+    const organization = await organizations.createOrganization({ userId: ownerId, name: "Crowded" });
+    const owner = await organizations.resolveActiveOrganization({ organizationId: organization.id, userId: ownerId });
+    const invitation = await organizations.createInvitation({
+      organization: owner,
+      invitedBy: ownerId,
+      email: `${inviteeId}@example.com`,
+      role: "member"
+    });
+
+    // Seats fill up through other invitations while this one is pending.
+    for (let seat = 1; seat < 500; seat += 1) {
+      const userId = randomUUID();
+      const other = await organizations.createInvitation({
+        organization: owner,
+        invitedBy: ownerId,
+        email: `${userId}@example.com`,
+        role: "member"
+      });
+      await organizations.acceptInvitation({ invitationId: other.id, userId, email: other.email });
+    }
+    const full = await organizations.resolveActiveOrganization({ organizationId: organization.id, userId: ownerId });
+    assert.equal(full.memberCount, 500);
+
+    await assert.rejects(
+      organizations.acceptInvitation({ invitationId: invitation.id, userId: inviteeId, email: invitation.email }),
+      { statusCode: 409, message: "Organization member limit reached" }
+    );
+    assert.equal((await organizations.listMembers(organization.id)).length, 500);
+  });
+});
+
+async function createOrganizationWithMember(ownerId: string, memberId: string): Promise<string> {
+  const created = await api.requestJson("POST", "/v1/organizations", accountHeaders(ownerId), { name: "Acme" });
+  assert.equal(created.status, 201);
+  const organization = (await created.json()).organization;
+  assert.equal(organization.role, "owner");
+
+  const invited = await api.requestJson(
+    "POST",
+    `/v1/organizations/${organization.id}/invitations`,
+    accountHeaders(ownerId),
+    { email: `${memberId}@example.com` }
+  );
+  assert.equal(invited.status, 201);
+
+  const pending = await (await api.requestJson("GET", "/v1/organization-invitations", accountHeaders(memberId))).json();
+  assert.equal(pending.invitations.length, 1);
+  assert.equal(pending.invitations[0].organization_name, "Acme");
+
+  const accepted = await api.requestJson(
+    "POST",
+    `/v1/organization-invitations/${pending.invitations[0].id}/accept`,
+    accountHeaders(memberId)
+  );
+  assert.equal(accepted.status, 200);
+  assert.equal((await accepted.json()).organization.role, "member");
+
+  return organization.id;
+}
+
+function accountHeaders(userId: string, organizationId?: string): Record<string, string> {
+  return {
+    Authorization: `Bearer ${signAccessToken(userId)}`,
+    ...(organizationId ? { "x-organization-id": organizationId } : {})
+  };
+}
+
+async function postBillingEvent(data: Record<string, string>): Promise<Response> {
+  const body = JSON.stringify({ id: `evt_${randomUUID()}`, type: "subscription.updated", data });
+  const timestampSeconds = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", WEBHOOK_SECRET).update(`${timestampSeconds}.${body}`).digest("hex");
+  return fetch(`${apiBaseUrl}/v1/webhooks/billing`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-billing-signature": `t=${timestampSeconds},v1=${signature}` },
+    body
+  });
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
@@ -0,0 +1,233 @@
+import assert from "node:assert/strict";
+import type { Server as HttpServer } from "node:http";
+import { createServer, type Server, type Socket } from "node:net";
+import { after, before, beforeEach, describe, test } from "node:test";
+import type express from "express";
+
+let mockRedisServer: Server | undefined;
+let apiServer: HttpServer | undefined;
+let apiBaseUrl = "";
+let redisPort = 0;
+let restoreEnv: (() => void) | undefined;
+let redisValues = new Map<string, number>();
+let receivedCommands: string[][] = [];
+let failCommands = false;
+const redisConnections = new Set<Socket>();
+
+let rateLimit: typeof import("../src/middleware/rateLimit");
+
+describe("rate limiting", () => {
+  before(async () => {
+    mockRedisServer = createMockRedisServer();
+    await new Promise<void>((resolve) => mockRedisServer?.listen(0, "127.0.0.1", resolve));
+    const address = mockRedisServer.address();
+    if (!address || typeof address === "string") {
+      throw new Error("Mock Redis server did not bind to an address");
+    }
+
+    redisPort = address.port;
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "off",
+      RATE_LIMIT_STORE: "redis",
+      RATE_LIMIT_REDIS_URL: `redis://:secret@127.0.0.1:${redisPort}/2`
+    });
+
+    const [expressModule, { errorHandler }] = await Promise.all([
+      import("express"),
+      import("../src/middleware/errorHandler")
+    ]);
+    rateLimit = await import("../src/middleware/rateLimit");
+
+    const app: express.Express = expressModule.default();
+    const limiter = rateLimit.createRateLimit({
+      name: "test",
+      message: "Rate limit exceeded for test requests",
+      resolveRule: (req) => ({ key: `client:${req.header("x-client") ?? "default"}`, limit: 2, windowMs: 60_000 })
+    });
+    app.get("/limited", limiter, (_req, res) => {
+      res.status(200).json({ ok: true });
+    });
+    app.use(errorHandler);
+
+    apiServer = app.listen(0, "127.0.0.1");
+    await new Promise<void>((resolve) => apiServer?.once("listening", resolve));
+    const apiAddress = apiServer.address();
+    if (!apiAddress || typeof apiAddress === "string") {
+      throw new Error("Server did not bind to an address");
+    }
+    apiBaseUrl = `http://127.0.0.1:${apiAddress.port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (apiServer ? apiServer.close(() => resolve()) : resolve()));
+    for (const connection of redisConnections) {
+      connection.destroy();
+    }
+    await new Promise<void>((resolve) => (mockRedisServer ? mockRedisServer.close(() => resolve()) : resolve()));
+    restoreEnv?.();
+  });
+
+  beforeEach(() => {
+    redisValues = new Map();
+    receivedCommands = [];
+    failCommands = false;
+  });
+
+  test("weights the previous window by its overlap with the sliding window", () => {
+    const halfway = rateLimit.evaluateSlidingWindow({ current: 3, previous: 10 }, 10, 60_000, 30_000);
+    assert.equal(halfway.allowed, true);
+    assert.equal(halfway.remaining, 2);
+    assert.equal(halfway.resetMs, 30_000);
+
+    const early = rateLimit.evaluateSlidingWindow({ current: 3, previous: 10 }, 10, 60_000, 6_000);
+    assert.equal(early.allowed, false);
+    assert.equal(early.remaining, 0);
+    // The previous window's 10 hits must weigh at most 6 before a 4th request fits.
+    assert.equal(early.retryAfterMs, 18_000);
+
+    const full = rateLimit.evaluateSlidingWindow({ current: 11, previous: 0 }, 10, 60_000, 50_000);
+    assert.equal(full.allowed, false);
+    assert.equal(full.retryAfterMs, 10_000 + Math.ceil(60_000 * (1 - 9 / 11)));
+  });
+
+  test("counts hits in the Redis store and rejects with standard headers", async () => {
+    const first = await fetch(`${apiBaseUrl}/limited`, { headers: { "x-client": "a" } });
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get("ratelimit-limit"), "2");
+    assert.equal(first.headers.get("ratelimit-remaining"), "1");
+    assert.equal(first.headers.get("ratelimit-policy"), "2;w=60");
+
+    assert.equal((await fetch(`${apiBaseUrl}/limited`, { headers: { "x-client": "a" } })).status, 200);
+    const third = await fetch(`${apiBaseUrl}/limited`, { headers: { "x-client": "a" } });
+    assert.equal(third.status, 429);
+    assert.equal(third.headers.get("ratelimit-remaining"), "0");
+    assert.ok(Number(third.headers.get("retry-after")) > 0);
+    const payload = await third.json();
+    assert.equal(payload.error.message, "Rate limit exceeded for test requests");
+    assert.equal(payload.error.details.max_requests, 2);
+
+    // Other keys have their own counters.
+    assert.equal((await fetch(`${apiBaseUrl}/limited`, { headers: { "x-client": "b" } })).status, 200);
+
+    assert.deepEqual(receivedCommands.slice(0, 2), [
+      ["AUTH", "secret"],
+      ["SELECT", "2"]
+    ]);
+    const clientHits = [...redisValues.entries()].filter(([key]) => key.startsWith("ratelimit:test:client:a:"));
+    assert.equal(clientHits.reduce((total, [, value]) => total + value, 0), 3);
+    assert.ok(receivedCommands.some((command) => command[0] === "PEXPIRE" && command[2] === "120000"));
+  });
+
+  test("lets requests through when the store fails", async () => {
+    failCommands = true;
+    const response = await fetch(`${apiBaseUrl}/limited`, { headers: { "x-client": "c" } });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("ratelimit-limit"), null);
+  });
+
+  test("rejects pipelines on a connection whose AUTH or SELECT failed", async () => {
+    const { createRedisClient } = await import("../src/external/redisClient");
+
+    for (const url of [`redis://:wrong@127.0.0.1:${redisPort}/2`, `redis://:secret@127.0.0.1:${redisPort}/99`]) {
+      const client = createRedisClient(url, 1000);
+      try {
+        await assert.rejects(client.pipeline([["INCR", "ratelimit:setup"]]), /WRONGPASS|DB index/);
+      } finally {
+        client.close();
+      }
+    }
+  });
+});
+
+// Speaks just enough RESP for AUTH, SELECT, INCR, PEXPIRE and GET. Only the
+// password `secret` and databases 0-15 are accepted.
+function createMockRedisServer(): Server {
+  return createServer((socket: Socket) => {
+    redisConnections.add(socket);
+    socket.on("close", () => redisConnections.delete(socket));
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (;;) {
+        const parsed = readCommand(buffer);
+        if (!parsed) {
+          break;
+        }
+
+        buffer = buffer.slice(parsed.length);
+        receivedCommands.push(parsed.args);
+        socket.write(respondTo(parsed.args));
+      }
+    });
+  });
+}
+
+function readCommand(buffer: string): { args: string[]; length: number } | undefined {
+  const lines = buffer.split("\r\n");
+  if (!lines[0]?.startsWith("*")) {
+    return undefined;
+  }
+
+  const count = Number(lines[0].slice(1));
+  if (lines.length < 2 + count * 2) {
+    return undefined;
+  }
+
+  const args: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    args.push(lines[2 + index * 2]);
+  }
+
+  return { args, length: lines.slice(0, 1 + count * 2).join("\r\n").length + 2 };
+}
+
+function respondTo([command, key]: string[]): string {
+  if (command === "AUTH" && key !== "secret") {
+    return "-WRONGPASS invalid username-password pair or user is disabled.\r\n";
+  }
+  if (command === "SELECT" && !(Number(key) >= 0 && Number(key) < 16)) {
+    return "-ERR DB index is out of range\r\n";
+  }
+  if (failCommands && command !== "AUTH" && command !== "SELECT") {
+    return "-ERR simulated failure\r\n";
+  }
+
+  switch (command) {
+    case "INCR": {
+      const value = (redisValues.get(key) ?? 0) + 1;
+      redisValues.set(key, value);
+      return `:${value}\r\n`;
+    }
+    case "GET": {
+      const value = redisValues.get(key);
+      return value === undefined ? "$-1\r\n" : `$${String(value).length}\r\n${value}\r\n`;
+    }
+    case "PEXPIRE":
+      return ":1\r\n";
+    default:
+      return "+OK\r\n";
+  }
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
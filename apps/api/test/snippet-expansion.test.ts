@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+let restoreEnv: (() => void) | undefined;
+
+let snippetService: typeof import("../src/services/snippetService");
+
+describe("snippet expansion", () => {
+  before(async () => {
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "off",
+      DATA_STORE_DRIVER: "memory"
+    });
+
+    snippetService = await import("../src/services/snippetService");
+  });
+
+  after(() => {
+    restoreEnv?.();
+  });
+
+  test("replaces triggers regardless of case and punctuation inserted by the rewrite", () => {
+    const result = snippetService.expandSnippets("Thanks again. Sig, block.", [
+      makeSnippet("sig-1", "user", "sig block", "Jane Doe\nAcme Inc.")
+    ]);
+
+    assert.equal(result.text, "Thanks again. Jane Doe\nAcme Inc..");
+    assert.deepEqual(result.matches, [{ snippetId: "sig-1", trigger: "sig block", scope: "user", count: 1 }]);
+  });
+
+  test("does not match triggers inside longer words", () => {
+    const result = snippetService.expandSnippets("the design blocker", [
+      makeSnippet("sig-1", "user", "sig block", "Jane Doe")
+    ]);
+
+    assert.equal(result.text, "the design blocker");
+    assert.deepEqual(result.matches, []);
+  });
+
+  test("prefers user snippets over global ones and longer triggers over shorter ones", () => {
+    const result = snippetService.expandSnippets("insert my work address and insert my address", [
+      makeSnippet("global-address", "global", "insert my address", "1 Global Way"),
+      makeSnippet("user-address", "user", "insert my address", "2 Home Street"),
+      makeSnippet("user-work-address", "user", "insert my work address", "3 Office Park")
+    ]);
+
+    assert.equal(result.text, "3 Office Park and 2 Home Street");
+    assert.deepEqual(
+      result.matches.map((match) => match.snippetId),
+      ["user-work-address", "user-address"]
+    );
+  });
+
+  test("skips disabled snippets so a disabled user snippet does not hide the global one", () => {
+    const result = snippetService.expandSnippets("insert my address", [
+      makeSnippet("global-address", "global", "insert my address", "1 Global Way"),
+      { ...makeSnippet("user-address", "user", "insert my address", "2 Home Street"), enabled: false }
+    ]);
+
+    assert.equal(result.text, "1 Global Way");
+  });
+
+  test("does not expand triggers that appear in another snippet's expansion", () => {
+    const result = snippetService.expandSnippets("sig block then my name", [
+      makeSnippet("sig-1", "user", "sig block", "Best regards, my name"),
+      makeSnippet("name-1", "user", "my name", "Jane Doe")
+    ]);
+
+    assert.equal(result.text, "Best regards, my name then Jane Doe");
+    assert.deepEqual(
+      result.matches.map((match) => [match.snippetId, match.count]),
+      [
+        ["sig-1", 1],
+        ["name-1", 1]
+      ]
+    );
+  });
+
+  test("inserts expansions literally", () => {
+    const result = snippetService.expandSnippets("price tag", [makeSnippet("price", "global", "price tag", "$& $1")]);
+
+    assert.equal(result.text, "$& $1");
+  });
+});
+
+function makeSnippet(
+  id: string,
+  scope: "user" | "global",
+  trigger: string,
+  expansion: string
+): import("../src/services/snippetService").Snippet {
+  return {
+    id,
+    scope,
+    trigger,
+    expansion,
+    enabled: true,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
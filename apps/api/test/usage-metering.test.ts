@@ -0,0 +1,368 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import { after, before, beforeEach, describe, test } from "node:test";
+
+type PostgrestRequest = {
+  method: string;
+  path: string;
+  authorization?: string;
+  rows: Record<string, unknown>[];
+};
+
+let mockPostgrestServer: Server | undefined;
+let receivedRequests: PostgrestRequest[] = [];
+let plannedStatusCodes: number[] = [];
+let persistedUsageRows: Record<string, unknown>[] = [];
+let onDeleteRequest: (() => Promise<void>) | undefined;
+let onInsertRequest: (() => Promise<void>) | undefined;
+let onPageRead: (() => void) | undefined;
+let restoreEnv: (() => void) | undefined;
+
+let usageMetering: typeof import("../src/services/usageMeteringService");
+
+const SERVICE_ROLE_KEY = "service-role-test-key";
+
+describe("usageMeteringService", () => {
+  before(async () => {
+    mockPostgrestServer = createMockPostgrestServer();
+    await listen(mockPostgrestServer);
+
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      OPENAI_API_KEY: "openai-test-key",
+      USER_AUTH_MODE: "off",
+      SUPABASE_URL: serverBaseUrl(mockPostgrestServer),
+      SUPABASE_SERVICE_ROLE_KEY: SERVICE_ROLE_KEY,
+      DATA_STORE_DRIVER: "supabase",
+      USAGE_FLUSH_INTERVAL_MS: "60000",
+      USAGE_FLUSH_BATCH_SIZE: "2",
+      USAGE_FLUSH_MAX_ATTEMPTS: "2"
+    });
+
+    usageMetering = await import("../src/services/usageMeteringService");
+  });
+
+  after(async () => {
+    usageMetering.resetUsageMeteringForTest();
+    if (mockPostgrestServer) {
+      await closeServer(mockPostgrestServer);
+    }
+    restoreEnv?.();
+  });
+
+  beforeEach(() => {
+    usageMetering.resetUsageMeteringForTest();
+    receivedRequests = [];
+    plannedStatusCodes = [];
+    persistedUsageRows = [];
+    onDeleteRequest = undefined;
+    onInsertRequest = undefined;
+    onPageRead = undefined;
+  });
+
+  test("persists buffered events to usage_logs in batches", async () => {
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-1", "supabase"));
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-2", "legacy_header"));
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-3", "supabase"));
+    await usageMetering.flushUsageEvents();
+
+    assert.equal(receivedRequests.length, 2);
+    assert.equal(receivedRequests[0].path, "/rest/v1/usage_logs");
+    assert.equal(receivedRequests[0].authorization, `Bearer ${SERVICE_ROLE_KEY}`);
+    assert.equal(receivedRequests[0].rows.length, 2);
+    assert.equal(receivedRequests[1].rows.length, 1);
+
+    const [supabaseRow, legacyRow] = receivedRequests[0].rows;
+    assert.equal(supabaseRow.request_id, "request-1");
+    assert.equal(supabaseRow.user_id, "user-request-1");
+    assert.equal(supabaseRow.client_user_id, null);
+    assert.equal(supabaseRow.audio_bytes, 2048);
+    assert.equal(supabaseRow.auth_source, "supabase");
+    assert.equal(legacyRow.user_id, null);
+    assert.equal(legacyRow.client_user_id, "user-request-2");
+    assert.equal(usageMetering.getPendingUsageEventCount(), 0);
+  });
+
+  test("keeps failed batches buffered and retries them on the next flush", async () => {
+    plannedStatusCodes = [503];
+
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-retry", "supabase"));
+    await usageMetering.flushUsageEvents();
+    assert.equal(usageMetering.getPendingUsageEventCount(), 1);
+
+    await usageMetering.flushUsageEvents();
+    assert.equal(usageMetering.getPendingUsageEventCount(), 0);
+    assert.equal(receivedRequests.length, 2);
+    assert.equal(receivedRequests[1].rows[0].request_id, "request-retry");
+  });
+
+  test("reads every usage row in the period past the PostgREST row cap", async () => {
+    const createdAt = new Date().toISOString();
+    persistedUsageRows = Array.from({ length: 2500 }, (_, index) => ({
+      id: String(index).padStart(6, "0"),
+      request_id: `persisted-${index}`,
+      user_id: "user-heavy",
+      audio_seconds: 2,
+      created_at: createdAt
+    }));
+    // A row inserted ahead of the first page would shift an offset-based read.
+    onPageRead = () => {
+      onPageRead = undefined;
+      persistedUsageRows.unshift({
+        id: "000000a",
+        request_id: "concurrent",
+        user_id: "user-heavy",
+        created_at: createdAt
+      });
+    };
+
+    const records = await usageMetering.listUsageRecords({ userId: "user-heavy", since: new Date(Date.now() - 60_000) });
+
+    assert.equal(records.length, 2500);
+    assert.equal(new Set(records.map((record) => record.requestId)).size, 2500);
+    assert.equal(records.reduce((total, record) => total + record.audioSeconds, 0), 5000);
+    assert.equal(receivedRequests.filter((request) => request.method === "GET").length, 3);
+  });
+
+  test("sums provider spend in the store instead of reading the rows", async () => {
+    persistedUsageRows = Array.from({ length: 1200 }, (_, index) => ({
+      id: String(index).padStart(6, "0"),
+      provider_cost_estimate: 0.01
+    }));
+
+    const spendUsd = await usageMetering.sumProviderCostEstimates(new Date(Date.now() - 60_000));
+
+    assert.equal(Math.round(spendUsd * 100), 1200);
+    assert.equal(receivedRequests.length, 1);
+  });
+
+  test("totals global usage per day and skip reason in the store", async () => {
+    persistedUsageRows = [
+      { usage_date: "2026-10-18", skip_reason: null, audio_seconds: 2, provider_cost_estimate: 0.25 },
+      { usage_date: "2026-10-19", skip_reason: null, audio_seconds: 3, provider_cost_estimate: 0.5 },
+      { usage_date: "2026-10-19", skip_reason: null, audio_seconds: 4, provider_cost_estimate: 0.5 },
+      { usage_date: "2026-10-19", skip_reason: "cache_hit", audio_seconds: 3, avoided_provider_cost_estimate: 0.5 }
+    ];
+
+    const daily = await usageMetering.sumDailyUsage(new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+
+    assert.equal(receivedRequests.length, 1);
+    assert.deepEqual(
+      daily.map((entry) => [
+        entry.date,
+        entry.skipReason,
+        entry.requests,
+        entry.audioSeconds,
+        entry.providerCostEstimateUsd
+      ]),
+      [
+        ["2026-10-18", undefined, 1, 2, 0.25],
+        ["2026-10-19", undefined, 2, 7, 1],
+        ["2026-10-19", "cache_hit", 1, 3, 0]
+      ]
+    );
+    assert.equal(daily[2].avoidedProviderCostEstimateUsd, 0.5);
+  });
+
+  test("counts a batch toward billed usage while its insert is in flight", async () => {
+    let releaseInsert: (() => void) | undefined;
+    onInsertRequest = () => new Promise<void>((resolve) => (releaseInsert = resolve));
+    await usageMetering.recordUsageEvent({ ...makeUsageEvent("request-in-flight", "supabase"), audioSeconds: 3 });
+    const flush = usageMetering.flushUsageEvents();
+    while (!releaseInsert) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const totals = await usageMetering.sumBilledUsage({
+      userId: "user-request-in-flight",
+      since: new Date(Date.now() - 60_000)
+    });
+    releaseInsert();
+    await flush;
+
+    assert.deepEqual(totals, { requests: 1, audioSeconds: 3 });
+    assert.equal(usageMetering.getPendingUsageEventCount(), 0);
+  });
+
+  test("waits for an in-flight batch before purging and holds flushes back until the delete is done", async () => {
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-in-flight", "supabase"));
+    const inFlight = usageMetering.flushUsageEvents();
+    let flushDuringDelete: Promise<void> | undefined;
+    onDeleteRequest = async () => {
+      await usageMetering.recordUsageEvent(makeUsageEvent("request-late", "supabase"));
+      await usageMetering.recordUsageEvent({ ...makeUsageEvent("request-other", "supabase"), userId: "user-other" });
+      flushDuringDelete = usageMetering.flushUsageEvents();
+    };
+
+    const purged = await usageMetering.purgeUsageRecords("user-request-late");
+    await inFlight;
+    await flushDuringDelete;
+    assert.equal(purged, 1);
+    assert.deepEqual(receivedRequests.map((request) => request.method), ["POST", "DELETE"]);
+
+    await usageMetering.flushUsageEvents();
+    assert.deepEqual(receivedRequests[2].rows.map((row) => row.request_id), ["request-other"]);
+  });
+
+  test("drops events after exhausting retry attempts without throwing", async () => {
+    plannedStatusCodes = [500, 500];
+
+    await usageMetering.recordUsageEvent(makeUsageEvent("request-dropped", "supabase"));
+    await usageMetering.flushUsageEvents();
+    await usageMetering.flushUsageEvents();
+
+    assert.equal(receivedRequests.length, 2);
+    assert.equal(usageMetering.getPendingUsageEventCount(), 0);
+  });
+});
+
+function makeUsageEvent(
+  requestId: string,
+  authSource: "supabase" | "legacy_header"
+): import("../src/services/usageMeteringService").UsageEvent {
+  return {
+    requestId,
+    userId: `user-${requestId}`,
+    audioBytes: 2048,
+    rawCharacters: 42,
+    cleanCharacters: 40,
+    sttLatencyMs: 350,
+    rewriteLatencyMs: 120,
+    totalLatencyMs: 480,
+    isAuthenticated: authSource === "supabase",
+    authSource
+  };
+}
+
+function createMockPostgrestServer(): Server {
+  return createServer(async (req, res) => {
+    const body = await readJsonBody(req);
+    receivedRequests.push({
+      method: req.method ?? "GET",
+      path: new URL(req.url ?? "/", "http://127.0.0.1").pathname,
+      authorization: typeof req.headers.authorization === "string" ? req.headers.authorization : undefined,
+      rows: Array.isArray(body) ? (body as Record<string, unknown>[]) : []
+    });
+
+    // Serves reads like PostgREST with `max_rows = 1000`. Filters other than the
+    // keyset cursor are not applied.
+    if (req.method === "GET") {
+      const searchParams = new URL(req.url ?? "/", "http://127.0.0.1").searchParams;
+      res.setHeader("content-type", "application/json");
+      const select = searchParams.get("select") ?? "*";
+      if (select.includes("count()")) {
+        const groupBy = select.split(",").filter((part) => !part.includes("("));
+        const groups = new Map<string, Record<string, unknown>[]>();
+        for (const row of persistedUsageRows) {
+          const key = JSON.stringify(groupBy.map((column) => row[column] ?? null));
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+
+        const aggregates = [...groups.values()].map((rows) => {
+          const aggregate: Record<string, unknown> = { count: rows.length };
+          for (const column of groupBy) {
+            aggregate[column] = rows[0][column] ?? null;
+          }
+          for (const [, alias, column] of select.matchAll(/(\w+):(\w+)\.sum\(\)/g)) {
+            aggregate[alias] = rows.reduce((total, row) => total + Number(row[column] ?? 0), 0);
+          }
+          return aggregate;
+        });
+        res.end(JSON.stringify(groupBy.length === 0 && aggregates.length === 0 ? [{ count: 0 }] : aggregates));
+        return;
+      }
+
+      const cursor = /^\(created_at\.gt\.(.+),and\(created_at\.eq\.\1,id\.gt\.(.+)\)\)$/.exec(
+        searchParams.get("or") ?? ""
+      );
+      const rows = [...persistedUsageRows]
+        .sort((left, right) => keysetOf(left).localeCompare(keysetOf(right)))
+        .filter((row) => !cursor || keysetOf(row) > `${cursor[1]} ${cursor[2]}`);
+      const limit = Math.min(Number(searchParams.get("limit") ?? 1000), 1000);
+      res.end(JSON.stringify(rows.slice(0, limit)));
+      onPageRead?.();
+      return;
+    }
+
+    if (req.method === "DELETE") {
+      await onDeleteRequest?.();
+    }
+    if (req.method === "POST") {
+      await onInsertRequest?.();
+    }
+
+    const statusCode = plannedStatusCodes.shift() ?? 201;
+    res.statusCode = statusCode;
+    res.setHeader("content-type", "application/json");
+    res.end(statusCode >= 400 ? JSON.stringify({ message: "temporarily unavailable" }) : JSON.stringify(body ?? []));
+  });
+}
+
+function keysetOf(row: Record<string, unknown>): string {
+  return `${String(row.created_at ?? "")} ${String(row.id ?? "")}`;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  if (chunks.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+async function listen(server: Server): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.listen(0, "127.0.0.1", () => resolve());
+    server.on("error", reject);
+  });
+}
+
+async function closeServer(server: Server): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+function serverBaseUrl(server: Server): string {
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Server is not listening on a TCP port");
+  }
+  return `http://127.0.0.1:${address.port}`;
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
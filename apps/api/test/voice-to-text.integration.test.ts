@@ -0,0 +1,944 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import type express from "express";
+import jwt from "jsonwebtoken";
+
+const JWT_SECRET = "voice-to-text-test-jwt-secret";
+const JWT_ISSUER = "https://project-ref.supabase.co/auth/v1";
+const ADMIN_API_KEY = "admin-test-key";
+
+type ProviderRequest = {
+  path: string;
+  body: string;
+};
+
+// The parts of the API's JSON payloads that the job and streaming tests read.
+type ErrorBody = { status_code: number; message: string };
+
+type TranscriptBody = { raw_text: string; clean_text: string };
+
+type TranscriptionJob = {
+  id: string;
+  status: "queued" | "processing" | "completed" | "failed";
+  result: { transcript: TranscriptBody } | null;
+  error: ErrorBody | null;
+};
+
+type PolarEvent = { name: string; metadata: { request_id: string; audio_seconds: number } };
+
+type StreamEvent = {
+  event: string;
+  data: {
+    transcript?: TranscriptBody;
+    timing?: { stt_latency_ms?: number; total_latency_ms?: number };
+    provider?: { rewrite: { status: string } };
+    error?: ErrorBody;
+  };
+};
+
+let mockProviderServer: Server | undefined;
+let apiServer: Server | undefined;
+let apiBaseUrl = "";
+let providerRequests: ProviderRequest[] = [];
+const polarEvents: PolarEvent[] = [];
+let restoreEnv: (() => void) | undefined;
+
+describe("voice-to-text route integration", () => {
+  before(async () => {
+    mockProviderServer = createMockProviderServer();
+    await listen(mockProviderServer);
+    const mockProviderBaseUrl = serverBaseUrl(mockProviderServer);
+    const pricingFile = join(mkdtempSync(join(tmpdir(), "pricing-")), "pricing.json");
+    writeFileSync(
+      pricingFile,
+      JSON.stringify({ stt: { elevenlabs: { scribe_premium_test: { usd_per_audio_minute: 120 } } } })
+    );
+
+    restoreEnv = withTestEnv({
+      NODE_ENV: "test",
+      LOG_LEVEL: "silent",
+      LOG_PRETTY: "false",
+      LOG_PIPELINE_TEXT: "false",
+      LOG_PROVIDER_PAYLOADS: "false",
+      ELEVENLABS_API_KEY: "elevenlabs-test-key",
+      ELEVENLABS_API_BASE_URL: mockProviderBaseUrl,
+      OPENAI_API_KEY: "openai-test-key",
+      OPENAI_API_BASE_URL: `${mockProviderBaseUrl}/openai`,
+      OPENAI_TRANSCRIPTION_MODEL: "gpt-4o-mini-transcribe",
+      STT_PROVIDER: "elevenlabs",
+      STT_FALLBACK_PROVIDER: "openai",
+      TRANSCRIPTION_JOB_CALLBACK_ALLOW_PRIVATE: "true",
+      USER_AUTH_MODE: "required",
+      SUPABASE_JWT_SECRET: JWT_SECRET,
+      SUPABASE_JWT_ISSUER: JWT_ISSUER,
+      SUPABASE_URL: "",
+      PROXY_SHARED_API_KEY: "",
+      DATA_STORE_DRIVER: "memory",
+      QUOTA_ENFORCEMENT: "true",
+      QUOTA_FREE_DAILY_REQUESTS: "2",
+      QUOTA_FREE_MONTHLY_REQUESTS: "100",
+      QUOTA_FREE_DAILY_AUDIO_SECONDS: "0",
+      QUOTA_FREE_MONTHLY_AUDIO_SECONDS: "0",
+      QUOTA_PRO_DAILY_REQUESTS: "0",
+      QUOTA_PRO_MONTHLY_REQUESTS: "1",
+      QUOTA_PRO_DAILY_AUDIO_SECONDS: "0",
+      QUOTA_PRO_MONTHLY_AUDIO_SECONDS: "0",
+      PROVIDER_PRICING_FILE: pricingFile,
+      DAILY_SPEND_CAP_USD: "1",
+      ADMIN_API_KEY: ADMIN_API_KEY,
+      BILLING_PROVIDER: "polar",
+      BILLING_WEBHOOK_SECRET: "billing-webhook-test-secret",
+      POLAR_ACCESS_TOKEN: "polar-test-token",
+      POLAR_API_BASE_URL: mockProviderBaseUrl,
+      USAGE_FLUSH_INTERVAL_MS: "100"
+    });
+
+    const { createApp } = await import("../src/app");
+    const app: express.Express = createApp();
+    apiServer = app.listen(0, "127.0.0.1");
+    await onceListening(apiServer);
+    apiBaseUrl = serverBaseUrl(apiServer);
+  });
+
+  after(async () => {
+    if (apiServer) {
+      await closeServer(apiServer);
+    }
+
+    if (mockProviderServer) {
+      await closeServer(mockProviderServer);
+    }
+
+    restoreEnv?.();
+  });
+
+  beforeEach(() => {
+    providerRequests = [];
+  });
+
+  test("returns raw and clean transcript for an authenticated user", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"));
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "hello world from the test");
+    assert.equal(payload.transcript.clean_text, "Hello world from the test.");
+    assert.equal(payload.provider.rewrite.name, "openai_responses");
+    assert.equal(payload.provider.rewrite.status, "completed");
+    assert.deepEqual(payload.warnings, []);
+    assert.deepEqual(payload.transcript.words, [
+      { text: "hello", start: 0, end: 0.4, speaker: null },
+      { text: "test", start: 1.1, end: 1.5, speaker: null }
+    ]);
+    assert.deepEqual(payload.transcript.segments, [{ speaker: null, start: 0, end: 1.5, text: "hello test" }]);
+    assert.deepEqual(payload.transcript.audio_events, []);
+  });
+
+  test("streams raw, clean and done events when the client accepts text/event-stream", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), {}, { Accept: "text/event-stream" });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "text/event-stream; charset=utf-8");
+
+    const events = parseEventStream(await response.text());
+    assert.deepEqual(
+      events.map((event) => event.event),
+      ["raw", "clean", "done"]
+    );
+    assert.equal(events[0].data.transcript?.raw_text, "hello world from the test");
+    assert.equal(typeof events[0].data.timing?.stt_latency_ms, "number");
+    assert.equal(events[1].data.transcript?.clean_text, "Hello world from the test.");
+    assert.equal(events[1].data.provider?.rewrite.status, "completed");
+    assert.equal(typeof events[2].data.timing?.total_latency_ms, "number");
+  });
+
+  test("reports provider failures as a terminal error event when streaming", async () => {
+    const response = await postAudio(
+      signAccessToken(randomUUID(), "free"),
+      { stream: "true", model_id: "fail-stt" }
+    );
+
+    assert.equal(response.status, 200);
+    const events = parseEventStream(await response.text());
+    assert.deepEqual(
+      events.map((event) => event.event),
+      ["error"]
+    );
+    assert.equal(events[0].data.error?.status_code, 400);
+    assert.equal(events[0].data.error?.message, "ElevenLabs transcription request failed");
+  });
+
+  test("returns SRT, WebVTT or plain text selected with output_format or Accept", async () => {
+    const srtResponse = await postAudio(signAccessToken(randomUUID(), "free"), { output_format: "srt" });
+
+    assert.equal(srtResponse.status, 200);
+    assert.equal(srtResponse.headers.get("content-type"), "application/x-subrip; charset=utf-8");
+    assert.equal(await srtResponse.text(), "1\n00:00:00,000 --> 00:00:01,500\nhello test\n");
+    const sttRequest = providerRequests.find((request) => request.path === "/v1/speech-to-text");
+    assert.match(sttRequest?.body ?? "", /name="timestamps_granularity"\r\n\r\nword/);
+
+    const vttResponse = await postAudio(signAccessToken(randomUUID(), "free"), {}, { Accept: "text/vtt" });
+    assert.equal(vttResponse.headers.get("content-type"), "text/vtt; charset=utf-8");
+    assert.equal(await vttResponse.text(), "WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nhello test\n");
+
+    const textResponse = await postAudio(signAccessToken(randomUUID(), "free"), { output_format: "text" });
+    assert.equal(textResponse.headers.get("content-type"), "text/plain; charset=utf-8");
+    assert.equal(await textResponse.text(), "Hello world from the test.\n");
+
+    const invalidResponse = await postAudio(signAccessToken(randomUUID(), "free"), { output_format: "docx" });
+    assert.equal(invalidResponse.status, 400);
+    assert.equal((await invalidResponse.json()).error.message, "Unsupported output_format");
+  });
+
+  test("rejects unrecognized audio with 415 before calling any provider", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), {}, {}, "/v1/voice-to-text", {
+      bytes: Buffer.from("definitely not audio"),
+      type: "audio/wav",
+      name: "sample.wav"
+    });
+
+    assert.equal(response.status, 415);
+    assert.equal((await response.json()).error.message, "Unsupported audio format");
+    assert.equal(providerRequests.length, 0);
+  });
+
+  test("forwards the sniffed audio type and extension instead of the client's", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), {}, {}, "/v1/voice-to-text", {
+      bytes: createWav(0.5),
+      type: "application/octet-stream",
+      name: "recording.bin"
+    });
+
+    assert.equal(response.status, 200);
+    const sttRequest = providerRequests.find((request) => request.path === "/v1/speech-to-text");
+    assert.match(sttRequest?.body ?? "", /filename="recording\.wav"\r\nContent-Type: audio\/wav/);
+  });
+
+  test("skips providers and warns when a WAV clip contains no speech", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const response = await postAudio(token, {}, {}, "/v1/voice-to-text", wavFile(2, 0.001));
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "");
+    assert.equal(payload.transcript.clean_text, "");
+    assert.equal(payload.provider.stt.status, "skipped");
+    assert.equal(payload.provider.rewrite.status, "skipped");
+    assert.deepEqual(
+      payload.warnings.map((warning: { code: string }) => warning.code),
+      ["NO_SPEECH_DETECTED"]
+    );
+    assert.equal(providerRequests.length, 0);
+
+    // The clip is metered, but neither its request nor its audio counts toward the quota.
+    const usage = await (await requestJson(token, "GET", "/v1/usage?days=1")).json();
+    assert.equal(usage.billing_period.totals.skipped_requests, 1);
+    assert.equal(usage.quota.monthly.requests.used, 0);
+    assert.equal(usage.quota.monthly.audio_seconds.used, 0);
+    assert.equal(usage.quota.daily.requests.used, 0);
+    // 2s of ElevenLabs audio that was never transcribed.
+    assert.equal(usage.billing_period.totals.avoided_cost_usd, 0.000223);
+  });
+
+  test("answers a repeated upload from the response cache without provider calls", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const firstResponse = await postAudio(token);
+    const first = await firstResponse.json();
+    assert.equal(firstResponse.status, 200, JSON.stringify(first));
+    assert.equal(first.timing.cache_status, "miss");
+
+    providerRequests = [];
+    const second = await (await postAudio(token)).json();
+    assert.equal(second.timing.cache_status, "hit");
+    assert.equal(second.timing.stt_latency_ms, 0);
+    assert.equal(second.transcript.clean_text, first.transcript.clean_text);
+    assert.equal(providerRequests.length, 0);
+
+    // The rewrite mode is part of the cache key.
+    const otherToken = signAccessToken(randomUUID(), "free");
+    assert.equal((await (await postAudio(otherToken)).json()).timing.cache_status, "miss");
+    const otherMode = await (await postAudio(otherToken, { rewrite_mode: "formal" })).json();
+    assert.equal(otherMode.timing.cache_status, "miss");
+  });
+
+  test("does not cache responses for callers without an account", async () => {
+    // This suite requires tokens, so the pipeline is called the way the route calls it for anonymous users.
+    const { processVoiceToText } = await import("../src/services/voiceToTextService");
+    const input = { fileBuffer: createWav(1.3), fileName: "sample.wav", mimeType: "audio/wav", userId: "anonymous" };
+
+    const first = await processVoiceToText(input);
+    const second = await processVoiceToText(input);
+    assert.deepEqual([first.cacheStatus, second.cacheStatus], ["bypass", "bypass"]);
+    assert.equal(providerRequests.filter((request) => request.path === "/v1/speech-to-text").length, 2);
+
+    const cached = await processVoiceToText({ ...input, cacheable: true });
+    const retried = await processVoiceToText({ ...input, cacheable: true });
+    assert.deepEqual([cached.cacheStatus, retried.cacheStatus], ["miss", "hit"]);
+    assert.equal(retried.providerCostEstimateUsd, 0);
+    assert.equal(retried.avoidedProviderCostEstimateUsd, cached.providerCostEstimateUsd);
+  });
+
+  test("replays the original response for a repeated or concurrent Idempotency-Key", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const file = wavFile(1.2);
+    const headers = { "Idempotency-Key": "retry-after-timeout" };
+    const [firstResponse, concurrentResponse] = await Promise.all([
+      postAudio(token, {}, headers, undefined, file),
+      postAudio(token, {}, headers, undefined, file)
+    ]);
+    const first = await firstResponse.json();
+    const concurrent = await concurrentResponse.json();
+    assert.equal(firstResponse.status, 200, JSON.stringify(first));
+    assert.equal(concurrentResponse.status, 200);
+    assert.deepEqual(concurrent, first);
+    assert.equal(providerRequests.filter((request) => request.path === "/v1/speech-to-text").length, 1);
+
+    const replayedResponse = await postAudio(token, {}, headers, undefined, file);
+    assert.equal(replayedResponse.status, 200);
+    assert.equal(replayedResponse.headers.get("idempotent-replayed"), "true");
+    assert.equal((await replayedResponse.json()).request_id, first.request_id);
+
+    const conflictResponse = await postAudio(token, { rewrite_mode: "formal" }, headers, undefined, file);
+    const conflict = await conflictResponse.json();
+    assert.equal(conflictResponse.status, 422);
+    assert.equal(conflict.error.message, "Idempotency-Key was already used with a different request payload");
+  });
+
+  test("routes transcription to the provider selected with stt_provider", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), { stt_provider: "openai" });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "hello world from openai");
+    assert.equal(payload.provider.stt.name, "openai");
+    assert.equal(payload.provider.stt.model_id, "gpt-4o-mini-transcribe");
+    assert.equal(providerRequests.some((request) => request.path === "/v1/speech-to-text"), false);
+  });
+
+  test("fails over to the secondary STT provider when the primary returns 5xx", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), { model_id: "outage-stt" });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "hello world from openai");
+    assert.equal(payload.provider.stt.name, "openai");
+    assert.equal(payload.provider.stt.model_id, "gpt-4o-mini-transcribe");
+    assert.equal(payload.provider.stt.failover_from, "elevenlabs");
+    assert.equal(payload.warnings[0].code, "STT_PROVIDER_FAILOVER");
+  });
+
+  test("rejects unknown stt_provider values", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), { stt_provider: "whisperx" });
+
+    assert.equal(response.status, 400);
+    const payload = await response.json();
+    assert.equal(payload.error.message, "Unsupported stt_provider");
+  });
+
+  test("rewrites through chat completions when rewrite_provider selects it", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), {
+      rewrite_provider: "chat_completions"
+    });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.clean_text, "Hello world from chat completions.");
+    assert.equal(payload.provider.rewrite.name, "chat_completions");
+    assert.equal(payload.provider.rewrite.status, "completed");
+    assert.equal(providerRequests.some((request) => request.path === "/openai/responses"), false);
+  });
+
+  test("returns the raw transcript untouched with the passthrough rewrite provider", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), { rewrite_provider: "passthrough" });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.clean_text, "hello world from the test");
+    assert.equal(payload.provider.rewrite.name, "passthrough");
+    assert.equal(payload.provider.rewrite.status, "skipped");
+    assert.deepEqual(payload.warnings, []);
+  });
+
+  test("sends the prompt of a built-in rewrite_mode to the rewrite provider", async () => {
+    const response = await postAudio(signAccessToken(randomUUID(), "free"), { rewrite_mode: "bullet_list" });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.provider.rewrite.mode, "bullet_list");
+    const rewriteRequest = providerRequests.find((request) => request.path === "/openai/responses");
+    assert.match(JSON.parse(rewriteRequest?.body ?? "{}").instructions, /bullet list/);
+  });
+
+  test("manages custom rewrite styles and applies them through rewrite_mode", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const createResponse = await requestJson(token, "POST", "/v1/rewrite-styles", {
+      name: "commit-message",
+      instructions: "Write an imperative git commit subject under 72 characters."
+    });
+    assert.equal(createResponse.status, 201);
+    const created = (await createResponse.json()).style;
+
+    const duplicateResponse = await requestJson(token, "POST", "/v1/rewrite-styles", {
+      name: "commit-message",
+      instructions: "Anything"
+    });
+    assert.equal(duplicateResponse.status, 409);
+
+    const updateResponse = await requestJson(token, "PATCH", `/v1/rewrite-styles/${created.id}`, {
+      instructions: "Write an imperative git commit subject under 50 characters."
+    });
+    assert.equal(updateResponse.status, 200);
+
+    const listPayload = await (await requestJson(token, "GET", "/v1/rewrite-styles")).json();
+    assert.ok(listPayload.built_in_modes.includes("email"));
+    assert.deepEqual(
+      listPayload.styles.map((style: { name: string }) => style.name),
+      ["commit-message"]
+    );
+
+    const response = await postAudio(token, { rewrite_mode: "commit-message" });
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).provider.rewrite.mode, "commit-message");
+    const rewriteRequest = providerRequests.find((request) => request.path === "/openai/responses");
+    assert.match(JSON.parse(rewriteRequest?.body ?? "{}").instructions, /under 50 characters/);
+
+    assert.equal((await requestJson(token, "DELETE", `/v1/rewrite-styles/${created.id}`)).status, 200);
+    const unknownModeResponse = await postAudio(token, { rewrite_mode: "commit-message" });
+    assert.equal(unknownModeResponse.status, 400);
+    assert.equal((await unknownModeResponse.json()).error.message, "Unsupported rewrite_mode");
+  });
+
+  test("expands saved snippets in raw and clean transcripts and reports them", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const createResponse = await requestJson(token, "POST", "/v1/snippets", {
+      trigger: "From the TEST",
+      expansion: "from the snippet engine"
+    });
+    assert.equal(createResponse.status, 201);
+    const created = (await createResponse.json()).snippet;
+    assert.equal(created.trigger, "from the test");
+    assert.equal(created.scope, "user");
+
+    const response = await postAudio(token);
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "hello world from the snippet engine");
+    assert.equal(payload.transcript.clean_text, "Hello world from the snippet engine.");
+    assert.deepEqual(payload.snippets_applied, [{ id: created.id, trigger: "from the test", scope: "user", count: 1 }]);
+
+    assert.equal((await requestJson(token, "DELETE", `/v1/snippets/${created.id}`)).status, 200);
+    const listPayload = await (await requestJson(token, "GET", "/v1/snippets")).json();
+    assert.deepEqual(listPayload.snippets, []);
+  });
+
+  test("applies the personal dictionary to keyterms, the raw transcript and the rewrite prompt", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const createResponse = await requestJson(token, "POST", "/v1/dictionary", {
+      term: "HelloWorld",
+      aliases: ["Hello World"]
+    });
+    assert.equal(createResponse.status, 201);
+    const created = (await createResponse.json()).entry;
+    assert.deepEqual(created.aliases, ["hello world"]);
+
+    const response = await postAudio(token, { keyterms: "Acme, Widget" });
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.transcript.raw_text, "HelloWorld from the test");
+    assert.deepEqual(payload.dictionary_replacements, [{ id: created.id, term: "HelloWorld", count: 1 }]);
+
+    const sttRequest = providerRequests.find((request) => request.path === "/v1/speech-to-text");
+    const keyterms = [...(sttRequest?.body ?? "").matchAll(/name="keyterms"\r\n\r\n([^\r]*)/g)].map((match) => match[1]);
+    assert.deepEqual(keyterms, ["Acme", "Widget", "HelloWorld"]);
+
+    const rewriteRequest = JSON.parse(
+      providerRequests.find((request) => request.path === "/openai/responses")?.body ?? "{}"
+    );
+    assert.equal(rewriteRequest.input, "HelloWorld from the test");
+    assert.match(rewriteRequest.instructions, /Preserve these spellings exactly: HelloWorld\./);
+
+    assert.equal((await requestJson(token, "DELETE", `/v1/dictionary/${created.id}`)).status, 200);
+    assert.equal((await requestJson(token, "DELETE", `/v1/dictionary/${created.id}`)).status, 404);
+  });
+
+  test("runs transcription jobs in the background and notifies the callback url", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const callbackUrl = `${serverBaseUrl(mockProviderServer as Server)}/callbacks/transcription-jobs`;
+    const response = await postAudio(token, { callback_url: callbackUrl }, {}, "/v1/transcription-jobs");
+
+    assert.equal(response.status, 202);
+    const payload = await response.json();
+    assert.equal(payload.job.status, "queued");
+    assert.equal(response.headers.get("location"), `/v1/transcription-jobs/${payload.job.id}`);
+
+    const job = await waitForJob(token, payload.job.id);
+    assert.equal(job.status, "completed");
+    assert.equal(job.result?.transcript.clean_text, "Hello world from the test.");
+    assert.equal(job.error, null);
+
+    const callback = await waitFor(() =>
+      providerRequests.find((request) => request.path === "/callbacks/transcription-jobs")
+    );
+    const callbackBody = JSON.parse(callback.body);
+    assert.equal(callbackBody.event, "transcription_job.completed");
+    assert.equal(callbackBody.job.id, payload.job.id);
+    assert.equal(callbackBody.job.result.transcript.raw_text, "hello world from the test");
+
+    const otherUserResponse = await requestJson(
+      signAccessToken(randomUUID(), "free"),
+      "GET",
+      `/v1/transcription-jobs/${payload.job.id}`
+    );
+    assert.equal(otherUserResponse.status, 404);
+  });
+
+  test("records provider failures on the transcription job", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const response = await postAudio(token, { model_id: "fail-stt" }, {}, "/v1/transcription-jobs");
+    assert.equal(response.status, 202);
+
+    const job = await waitForJob(token, (await response.json()).job.id);
+    assert.equal(job.status, "failed");
+    assert.equal(job.result, null);
+    assert.equal(job.error?.status_code, 400);
+    assert.equal(job.error?.message, "ElevenLabs transcription request failed");
+  });
+
+  test("counts queued and running transcription jobs toward the quota", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const fields = { model_id: "slow-stt" };
+    const first = await postAudio(token, fields, {}, "/v1/transcription-jobs", wavFile(1));
+    const second = await postAudio(token, fields, {}, "/v1/transcription-jobs", wavFile(2));
+    assert.equal(first.status, 202);
+    assert.equal(second.status, 202);
+
+    const rejected = await postAudio(token, fields, {}, "/v1/transcription-jobs", wavFile(3));
+    assert.equal(rejected.status, 429);
+    assert.equal((await rejected.json()).error.details.used, 2);
+
+    for (const response of [first, second]) {
+      assert.equal((await waitForJob(token, (await response.json()).job.id)).status, "completed");
+    }
+
+    const usage = await requestJson(token, "GET", "/v1/usage");
+    assert.equal((await usage.json()).quota.daily.requests.used, 2);
+  });
+
+  test("reports billed dictations and completed transcription jobs to the billing provider", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const sync = await postAudio(token, {}, {}, "/v1/voice-to-text", wavFile(4));
+    const queued = await postAudio(token, {}, {}, "/v1/transcription-jobs", wavFile(5));
+    assert.equal(sync.status, 200);
+    assert.equal(queued.status, 202);
+
+    const { request_id: syncRequestId } = await sync.json();
+    const { job } = await queued.json();
+    assert.equal((await waitForJob(token, job.id)).status, "completed");
+
+    const jobEvent = await waitFor(() => {
+      const requestIds = polarEvents.map((event) => event.metadata.request_id);
+      return requestIds.includes(syncRequestId)
+        ? polarEvents.find((event) => event.metadata.request_id === job.request_id)
+        : undefined;
+    });
+    assert.equal(jobEvent?.name, "transcription");
+    assert.equal(jobEvent?.metadata.audio_seconds, 5);
+  });
+
+  test("rejects transcription jobs with an invalid callback_url", async () => {
+    const response = await postAudio(
+      signAccessToken(randomUUID(), "free"),
+      { callback_url: "ftp://example.com/hook" },
+      {},
+      "/v1/transcription-jobs"
+    );
+
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.message, "Invalid callback_url");
+  });
+
+  test("rejects free tier requests over the daily request quota with 429", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+
+    assert.equal((await postAudio(token)).status, 200);
+    // Different audio, so the second request is not answered from the response cache.
+    assert.equal((await postAudio(token, {}, {}, "/v1/voice-to-text", wavFile(2))).status, 200);
+
+    const response = await postAudio(token);
+    assert.equal(response.status, 429);
+    assert.equal(typeof response.headers.get("retry-after"), "string");
+
+    const payload = await response.json();
+    assert.equal(payload.error.message, "Daily usage quota exceeded");
+    assert.equal(payload.error.details.code, "QUOTA_EXCEEDED");
+    assert.equal(payload.error.details.tier, "free");
+    assert.equal(payload.error.details.window, "daily");
+    assert.equal(payload.error.details.metric, "requests");
+    assert.equal(payload.error.details.limit, 2);
+    assert.equal(providerRequests.filter((request) => request.path === "/v1/speech-to-text").length, 2);
+  });
+
+  test("rejects pro tier requests over the monthly request quota with 402", async () => {
+    const token = signAccessToken(randomUUID(), "pro");
+
+    assert.equal((await postAudio(token)).status, 200);
+
+    const response = await postAudio(token);
+    assert.equal(response.status, 402);
+
+    const payload = await response.json();
+    assert.equal(payload.error.message, "Monthly usage quota exceeded");
+    assert.equal(payload.error.details.tier, "pro");
+    assert.equal(payload.error.details.window, "monthly");
+  });
+
+  test("usage summary reports billing period totals, daily breakdown and remaining quota", async () => {
+    const token = signAccessToken(randomUUID(), "free");
+    const dictation = await postAudio(token);
+    assert.equal(dictation.status, 200);
+    const { timing } = (await dictation.json()) as { timing: { stt_latency_ms: number } };
+    // Silence is skipped before the providers and stays out of characters and latencies.
+    assert.equal((await postAudio(token, {}, {}, undefined, wavFile(1, 0))).status, 200);
+
+    const response = await fetch(`${apiBaseUrl}/v1/usage?days=7`, {
+      headers: {
+        Authorization: `Bearer ${token}`
+      }
+    });
+
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.tier, "free");
+    assert.equal(payload.billing_period.totals.requests, 2);
+    assert.equal(payload.billing_period.totals.skipped_requests, 1);
+    assert.equal(payload.billing_period.totals.audio_bytes, createWav(1).byteLength * 2);
+    // The WAV header duration wins over the provider's last-word estimate (1.5s).
+    assert.equal(payload.billing_period.totals.audio_seconds, 2);
+    assert.equal(payload.billing_period.totals.raw_characters, "hello world from the test".length);
+    assert.equal(payload.billing_period.totals.clean_characters, "Hello world from the test.".length);
+    assert.equal(payload.billing_period.totals.average_stt_latency_ms, timing.stt_latency_ms);
+    // 1s of ElevenLabs audio plus 1000 input and 200 output gpt-5-mini tokens.
+    assert.equal(payload.billing_period.totals.estimated_cost_usd, 0.000762);
+    assert.equal(payload.daily.length, 7);
+    assert.equal(payload.daily[6].date, new Date().toISOString().slice(0, 10));
+    assert.equal(payload.daily[6].totals.requests, 2);
+    assert.equal(payload.daily[0].totals.average_stt_latency_ms, null);
+    // The silent clip stays out of the quota.
+    assert.deepEqual(payload.quota.daily.requests, { limit: 2, used: 1, remaining: 1 });
+    assert.equal(payload.quota.daily.audio_seconds.limit, null);
+    assert.equal(payload.quota.exceeded, false);
+  });
+
+  // Reaching the cap blocks every later request in this process, so this test runs last.
+  test("reports global spend to operators and fails closed at the daily spend cap", async () => {
+    assert.equal((await fetch(`${apiBaseUrl}/v1/admin/spend`)).status, 401);
+
+    const token = signAccessToken(randomUUID(), "pro");
+    // Priced at $2 for the 1s clip by the test pricing file, which exceeds the $1 cap.
+    assert.equal((await postAudio(token, { model_id: "scribe_premium_test" })).status, 200);
+
+    const response = await fetch(`${apiBaseUrl}/v1/admin/spend?days=2`, {
+      headers: { "x-admin-api-key": ADMIN_API_KEY }
+    });
+    assert.equal(response.status, 200);
+    const payload = await response.json();
+    assert.equal(payload.today.cap_usd, 1);
+    assert.ok(payload.today.spend_usd > 2);
+    assert.equal(payload.today.remaining_usd, 0);
+    assert.equal(payload.daily.length, 2);
+    assert.ok(payload.daily[1].totals.estimated_cost_usd > 2);
+
+    providerRequests = [];
+    const capped = await postAudio(signAccessToken(randomUUID(), "free"));
+    assert.equal(capped.status, 503);
+    assert.equal((await capped.json()).error.details.code, "SPEND_CAP_REACHED");
+    assert.equal(providerRequests.length, 0);
+
+    // Server errors are not replayed for a repeated Idempotency-Key.
+    const idempotentHeaders = { "Idempotency-Key": "retry-after-cap" };
+    const failed = await postAudio(token, {}, idempotentHeaders);
+    assert.equal(failed.status, 503);
+    const retried = await postAudio(token, {}, idempotentHeaders);
+    assert.equal(retried.status, 503);
+    assert.equal(retried.headers.get("idempotent-replayed"), null);
+    assert.notEqual((await retried.json()).request_id, (await failed.json()).request_id);
+  });
+});
+
+function signAccessToken(userId: string, tier: "free" | "pro"): string {
+  return jwt.sign(
+    {
+      sub: userId,
+      email: `${userId}@example.com`,
+      role: "authenticated",
+      app_metadata: { plan: tier }
+    },
+    JWT_SECRET,
+    {
+      algorithm: "HS256",
+      audience: "authenticated",
+      issuer: JWT_ISSUER,
+      expiresIn: 300
+    }
+  );
+}
+
+async function postAudio(
+  accessToken: string,
+  fields: Record<string, string> = {},
+  headers: Record<string, string> = {},
+  path = "/v1/voice-to-text",
+  file: { bytes: Buffer; type: string; name: string } = wavFile(1)
+): Promise<Response> {
+  const formData = new FormData();
+  formData.append("file", new Blob([new Uint8Array(file.bytes)], { type: file.type }), file.name);
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value);
+  }
+
+  return fetch(`${apiBaseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...headers
+    },
+    body: formData
+  });
+}
+
+function wavFile(durationSeconds: number, amplitude?: number): { bytes: Buffer; type: string; name: string } {
+  return { bytes: createWav(durationSeconds, amplitude), type: "audio/wav", name: "sample.wav" };
+}
+
+// 16 kHz mono 16-bit PCM 440 Hz tone; an amplitude of 0 produces silence.
+function createWav(durationSeconds: number, amplitude = 0.25): Buffer {
+  const sampleRate = 16000;
+  const sampleCount = Math.round(durationSeconds * sampleRate);
+  const dataBytes = sampleCount * 2;
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write("WAVE", 8, "latin1");
+  header.write("fmt ", 12, "latin1");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "latin1");
+  header.writeUInt32LE(dataBytes, 40);
+
+  const samples = Buffer.alloc(dataBytes);
+  for (let index = 0; index < sampleCount; index += 1) {
+    samples.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * index) / sampleRate) * amplitude * 32767), index * 2);
+  }
+
+  return Buffer.concat([header, samples]);
+}
+
+async function requestJson(accessToken: string, method: string, path: string, body?: unknown): Promise<Response> {
+  return fetch(`${apiBaseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json"
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+async function waitForJob(accessToken: string, jobId: string): Promise<TranscriptionJob> {
+  return waitFor(async () => {
+    const response = await requestJson(accessToken, "GET", `/v1/transcription-jobs/${jobId}`);
+    assert.equal(response.status, 200);
+    const { job } = (await response.json()) as { job: TranscriptionJob };
+    return job.status === "completed" || job.status === "failed" ? job : undefined;
+  });
+}
+
+async function waitFor<T>(probe: () => T | undefined | Promise<T | undefined>, timeoutMs = 3000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await probe();
+    if (value !== undefined) {
+      return value;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  throw new Error(`Condition not met within ${timeoutMs}ms`);
+}
+
+function parseEventStream(body: string): StreamEvent[] {
+  return body
+    .split("\n\n")
+    .filter((block) => block.trim().length > 0)
+    .map((block) => {
+      const lines = block.split("\n");
+      const event = lines.find((line) => line.startsWith("event: "))?.slice("event: ".length) ?? "message";
+      const data = lines
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice("data: ".length))
+        .join("\n");
+      return { event, data: JSON.parse(data) as StreamEvent["data"] };
+    });
+}
+
+function createMockProviderServer(): Server {
+  return createServer(async (req, res) => {
+    const body = await readBody(req);
+    const path = new URL(req.url ?? "/", "http://127.0.0.1").pathname;
+    // Billing reports are flushed on a timer, so they are kept apart from the per-test provider requests.
+    if (req.method === "POST" && path === "/v1/events/ingest") {
+      const { events } = JSON.parse(body) as { events: PolarEvent[] };
+      polarEvents.push(...events);
+      sendJson(res, 200, { inserted: events.length });
+      return;
+    }
+
+    providerRequests.push({ path, body });
+
+    if (req.method === "POST" && path === "/v1/speech-to-text") {
+      if (body.includes("fail-stt")) {
+        sendJson(res, 400, { detail: "invalid model" });
+        return;
+      }
+
+      if (body.includes("outage-stt")) {
+        sendJson(res, 503, { detail: "service unavailable" });
+        return;
+      }
+
+      if (body.includes("slow-stt")) {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+
+      sendJson(res, 200, {
+        text: "hello world from the test",
+        words: [
+          { text: "hello", start: 0, end: 0.4, type: "word" },
+          { text: "test", start: 1.1, end: 1.5, type: "word" }
+        ]
+      });
+      return;
+    }
+
+    if (req.method === "POST" && path === "/openai/audio/transcriptions") {
+      sendJson(res, 200, {
+        text: "hello world from openai"
+      });
+      return;
+    }
+
+    if (req.method === "POST" && path === "/callbacks/transcription-jobs") {
+      sendJson(res, 200, { received: true });
+      return;
+    }
+
+    if (req.method === "POST" && path === "/openai/chat/completions") {
+      sendJson(res, 200, {
+        choices: [{ index: 0, message: { role: "assistant", content: "Hello world from chat completions." } }]
+      });
+      return;
+    }
+
+    if (req.method === "POST" && path === "/openai/responses") {
+      sendJson(res, 200, {
+        // The Responses API returns text in output items, not a top-level `output_text`.
+        output: [{ type: "message", content: [{ type: "output_text", text: "Hello world from the test." }] }],
+        usage: { input_tokens: 1000, output_tokens: 200 }
+      });
+      return;
+    }
+
+    sendJson(res, 404, { message: "Mock provider route not found" });
+  });
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(res: ServerResponse, statusCode: number, payload: Record<string, unknown>): void {
+  const body = JSON.stringify(payload);
+  res.statusCode = statusCode;
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Content-Length", String(Buffer.byteLength(body)));
+  res.end(body);
+}
+
+async function listen(server: Server): Promise<void> {
+  server.listen(0, "127.0.0.1");
+  await onceListening(server);
+}
+
+async function onceListening(server: Server): Promise<void> {
+  if (server.listening) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: Error) => {
+      server.off("listening", onListening);
+      reject(error);
+    };
+    const onListening = () => {
+      server.off("error", onError);
+      resolve();
+    };
+
+    server.once("error", onError);
+    server.once("listening", onListening);
+  });
+}
+
+function serverBaseUrl(server: Server): string {
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Server did not bind to an address");
+  }
+  return `http://127.0.0.1:${address.port}`;
+}
+
+async function closeServer(server: Server): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    server.close((error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+function withTestEnv(overrides: Record<string, string>): () => void {
+  const previous = new Map<string, string | undefined>();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { after, before, describe, test } from "node:test";
+import { checkWebhookTarget, deliverWebhook } from "../src/external/webhookClient";
+import { HttpError } from "../src/lib/httpError";
+
+let receiverServer: Server | undefined;
+let receiverBaseUrl = "";
+const receivedPaths: string[] = [];
+
+describe("webhook client", () => {
+  before(async () => {
+    receiverServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+      receivedPaths.push(req.url ?? "");
+      if (req.url === "/redirect") {
+        res.writeHead(307, { Location: "/metadata" });
+        res.end();
+        return;
+      }
+
+      res.writeHead(204);
+      res.end();
+    });
+    await new Promise<void>((resolve) => receiverServer?.listen(0, "127.0.0.1", resolve));
+    const address = receiverServer.address();
+    if (!address || typeof address === "string") {
+      throw new Error("Receiver server did not bind to an address");
+    }
+    receiverBaseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => (receiverServer ? receiverServer.close(() => resolve()) : resolve()));
+  });
+
+  test("refuses non-https URLs and hosts on loopback, private or link-local addresses", async () => {
+    assert.equal(await checkWebhookTarget(new URL("http://93.184.215.14/hook")), "callback URLs must use https");
+    assert.equal(await checkWebhookTarget(new URL("https://93.184.215.14/hook")), undefined);
+
+    for (const url of [
+      "https://127.0.0.1/hook",
+      "https://localhost/hook",
+      "https://10.1.2.3/hook",
+      "https://172.20.0.1/hook",
+      "https://192.168.1.10/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[fd00:ec2::254]/hook",
+      "https://[::ffff:127.0.0.1]/hook"
+    ]) {
+      assert.equal(await checkWebhookTarget(new URL(url)), "callback host must resolve to public addresses", url);
+    }
+  });
+
+  test("checks the target again before delivering", async () => {
+    await assert.rejects(
+      deliverWebhook({ url: `${receiverBaseUrl}/hook`, payload: {}, timeoutMs: 1000 }),
+      (error: unknown) => error instanceof HttpError && error.message === "Webhook target is not allowed"
+    );
+    assert.deepEqual(receivedPaths, []);
+
+    const delivered = await deliverWebhook({
+      url: `${receiverBaseUrl}/hook`,
+      payload: {},
+      timeoutMs: 1000,
+      allowPrivateNetwork: true
+    });
+    assert.equal(delivered.statusCode, 204);
+  });
+
+  test("does not follow redirects", async () => {
+    receivedPaths.length = 0;
+    await assert.rejects(
+      deliverWebhook({ url: `${receiverBaseUrl}/redirect`, payload: {}, timeoutMs: 1000, allowPrivateNetwork: true }),
+      (error: unknown) => error instanceof HttpError && error.statusCode === 502
+    );
+    assert.deepEqual(receivedPaths, ["/redirect"]);
+  });
+});